@@ -1,37 +1,240 @@
-import { program } from 'commander';
+import { InvalidOptionArgumentError, Option, program } from 'commander';
+import { resolve } from 'path';
 import { argv } from 'process';
 import * as ts from 'typescript';
-import { TypeScriptSolution, BuildEvent, version } from '../lib';
+import {
+  TypeScriptSolution,
+  BuildEvent,
+  BuildResult,
+  BuildReportCollector,
+  findKitConfig,
+  formatBuildReport,
+  kitConfigTransformers,
+  KitConfigFile,
+  ReporterFormat,
+  Transformers,
+  loadPluginTransformers,
+  version,
+} from '../lib';
 
-function compile(tsconfig: string, { watch }: { watch: boolean }): void {
-  const project = new TypeScriptSolution(tsconfig);
-  project.on(BuildEvent.Diagnostic, (diag) => console.log(project.formatDiagnostics(diag)));
+interface Options {
+  readonly watch: boolean;
+  readonly reporter?: ReporterFormat;
+  readonly outputFile?: string;
+  readonly maxWarnings?: number;
+  readonly parallel?: true | number;
+  readonly force?: boolean;
+  readonly dry?: boolean;
+  readonly clean?: boolean;
+  readonly verbose?: boolean;
+  readonly incremental?: boolean;
+  readonly preserveWatchOutput?: boolean;
+  readonly pretty?: boolean;
+  readonly listEmittedFiles?: boolean;
+}
+
+/**
+ * The options that cannot be combined, like `tsc -b` reports them.
+ */
+const CONFLICTING_OPTIONS: ReadonlyArray<readonly [keyof Options, keyof Options]> = [
+  ['clean', 'force'],
+  ['clean', 'verbose'],
+  ['clean', 'watch'],
+  ['watch', 'dry'],
+];
+
+function compile(tsconfigs: readonly string[], options: Options): void {
+  const { watch, parallel } = options;
+  for (const [left, right] of CONFLICTING_OPTIONS) {
+    if (options[left] && options[right]) {
+      console.error(`Options '--${left}' and '--${right}' cannot be combined.`);
+      process.exitCode = ts.ExitStatus.DiagnosticsPresent_OutputsSkipped;
+      return;
+    }
+  }
+
+  // Like tsc -b, projects can be given by their tsconfig.json or their directory
+  const rootNames = (tsconfigs.length > 0 ? tsconfigs : ['.']).map((path) =>
+    ts.resolveProjectReferencePath({ path: resolve(path) }),
+  );
+  const buildOptions = toBuildOptions(options);
+  const pretty = buildOptions.pretty ?? ts.sys.writeOutputIsTTY?.() ?? false;
+
+  // The configuration file is looked up next to the first tsconfig.json
+  let configFile: KitConfigFile | undefined;
+  try {
+    configFile = findKitConfig(rootNames[0]);
+  } catch (error) {
+    console.error(error.message);
+    process.exitCode = ts.ExitStatus.InvalidProject_OutputsSkipped;
+    return;
+  }
+  const config = configFile?.config ?? {};
+  // Command-line options take precedence over the configuration file
+  const {
+    reporter = ReporterFormat.Pretty,
+    outputFile,
+    maxWarnings,
+  } = {
+    reporter: config.reporter,
+    outputFile: config.outputFile,
+    maxWarnings: config.maxWarnings,
+    ...options,
+  };
+
+  const project = new TypeScriptSolution(rootNames[0], loadTransformers(configFile));
+  // Machine-readable reports go to stdout unless an output file is specified
+  const reportToStdout = reporter !== ReporterFormat.Pretty && outputFile == null;
+  const log = (message: string) => {
+    if (!reportToStdout) {
+      console.log(message);
+    }
+  };
+  const timestamped = (message: string) => {
+    const time = new Date().toLocaleTimeString();
+    return pretty ? `[\x1B[90m${time}\x1B[0m] ${message}\n` : `${time} - ${message}\n`;
+  };
+  const formatDiagnostic = (diag: ts.Diagnostic) =>
+    pretty
+      ? project.formatDiagnostics(diag)
+      : ts.formatDiagnostics([diag], {
+          getCanonicalFileName: (fileName) => fileName,
+          getCurrentDirectory: ts.sys.getCurrentDirectory,
+          getNewLine: () => ts.sys.newLine,
+        });
+  project
+    .on(BuildEvent.Diagnostic, (diag) => log(formatDiagnostic(diag)))
+    .on(BuildEvent.Status, (status) =>
+      log(timestamped(ts.flattenDiagnosticMessageText(status.messageText, ts.sys.newLine))),
+    );
+  project.on(BuildEvent.ErrorSummary, (errorCount) => {
+    // Like tsc -b, the error summary is only reported with pretty output
+    if (pretty && errorCount > 0) {
+      log(`\n${errorSummary(errorCount)}.\n`);
+    }
+  });
+  if (options.listEmittedFiles) {
+    project.on(BuildEvent.BeforeWriteFile, (file) => {
+      if (!file.suppressed) {
+        log(`TSFILE: ${file.fileName}`);
+      }
+    });
+  }
+  const collector = new BuildReportCollector(project);
+  // Errors the build does not report as diagnostics fail it
+  const fail = (error: Error) => {
+    console.error(error.message);
+    process.exitCode = ts.ExitStatus.DiagnosticsPresent_OutputsSkipped;
+  };
+  const writeReport = () => {
+    const report = formatBuildReport(collector.report, reporter);
+    collector.reset();
+    if (outputFile != null) {
+      ts.sys.writeFile(outputFile, report);
+    } else if (reportToStdout) {
+      ts.sys.write(report);
+    }
+  };
 
   if (watch) {
-    const clearScreen = ts.sys.clearScreen ?? (() => null);
+    const clearScreen = buildOptions.preserveWatchOutput
+      ? () => undefined
+      : ts.sys.clearScreen ?? (() => undefined);
     project
       .once(BuildEvent.BeforeSolution, () => {
         clearScreen();
-        console.log(
-          `[\x1B[90m${new Date().toLocaleTimeString()}\x1B[0m] Starting compilation in watch mode...\n`,
-        );
+        log(timestamped('Starting compilation in watch mode...'));
 
         project.on(BuildEvent.BeforeSolution, () => {
           clearScreen();
-          console.log(
-            `[\x1B[90m${new Date().toLocaleTimeString()}\x1B[0m] File change detected. Starting incremental compilation...\n`,
-          );
+          log(timestamped('File change detected. Starting incremental compilation...'));
         });
       })
       .on(BuildEvent.AfterSolution, (_, errorCount) => {
-        console.log(
-          `[\x1B[90m${new Date().toLocaleTimeString()}\x1B[0m] Found ${errorCount} errors. Watching for file changes.\n`,
-        );
-      })
-      .watch();
+        writeReport();
+        log(timestamped(`${errorSummary(errorCount)}. Watching for file changes.`));
+      });
+    try {
+      project.watch(rootNames, buildOptions, undefined, config.watch);
+    } catch (error) {
+      fail(error);
+    }
   } else {
-    project.build();
+    const complete = ({ exitStatus, warningCount }: BuildResult) => {
+      writeReport();
+      // Like tsc -b, the exit code is the exit status of the build
+      process.exitCode = exitStatus;
+      if (
+        exitStatus === ts.ExitStatus.Success &&
+        maxWarnings != null &&
+        warningCount > maxWarnings
+      ) {
+        console.error(
+          `Found ${warningCount} warnings, which is more than the maximum of ${maxWarnings}.`,
+        );
+        process.exitCode = ts.ExitStatus.DiagnosticsPresent_OutputsGenerated;
+      }
+    };
+
+    if (parallel != null) {
+      // Workers load transformers like the main thread would
+      project
+        .buildParallel(rootNames, buildOptions, {
+          configFile: configFile?.path,
+          loadPlugins: true,
+          maxWorkers: parallel === true ? undefined : parallel,
+        })
+        .then(complete, fail);
+    } else {
+      try {
+        complete(project.build(rootNames, buildOptions));
+      } catch (error) {
+        fail(error);
+      }
+    }
+  }
+}
+
+/**
+ * Maps command-line options to build options. Only the flags that were set
+ * override the projects' compiler options. Emitted files are listed as they
+ * are written rather than by the builder, so `listEmittedFiles` is not mapped.
+ */
+function toBuildOptions(options: Options): ts.BuildOptions {
+  const buildOptions: ts.BuildOptions = {};
+  for (const flag of [
+    'force',
+    'dry',
+    'clean',
+    'verbose',
+    'incremental',
+    'preserveWatchOutput',
+    'pretty',
+  ] as const) {
+    if (options[flag] != null) {
+      buildOptions[flag] = options[flag];
+    }
+  }
+  return buildOptions;
+}
+
+/**
+ * Formats the number of errors of a build, like `tsc -b` does.
+ */
+function errorSummary(errorCount: number): string {
+  return errorCount === 1 ? 'Found 1 error' : `Found ${errorCount} errors`;
+}
+
+/**
+ * Loads transformers from the configuration file, then from each project's
+ * tsconfig.json "plugins" section.
+ */
+function loadTransformers(configFile: KitConfigFile | undefined): Transformers {
+  const transformers = new Transformers();
+  if (configFile != null) {
+    transformers.addTransformerProvider(kitConfigTransformers(configFile));
   }
+  return transformers.addTransformerProvider(loadPluginTransformers);
 }
 
 // eslint-disable-next-line @typescript-eslint/no-require-imports
@@ -39,7 +242,55 @@ program
   .version(version, '-v, --version', "Print tsc-tk's version")
   .description('A supercharged TypeScript compiler')
   .helpOption('-h, --help', 'Print this message')
-  .arguments('<tsconfig>')
+  .arguments('[tsconfig...]')
   .option('-w, --watch', 'Watch for file-system changes and re-compile', false)
+  .option('-f, --force', 'Build all projects, including those that appear to be up to date')
+  .option('-d, --dry', 'Show what would be built (or deleted, if specified with --clean)')
+  .option('--clean', 'Delete the outputs of all projects')
+  .option('--verbose', 'Enable verbose logging')
+  .option('-i, --incremental', 'Enable incremental compilation of all projects')
+  .option(
+    '--preserveWatchOutput',
+    'Whether to keep outdated console output in watch mode instead of clearing the screen',
+  )
+  .option(
+    '--pretty [boolean]',
+    'Stylize errors and messages using color and context (defaults to whether stdout is a terminal)',
+    (value) => {
+      if (value !== 'true' && value !== 'false') {
+        throw new InvalidOptionArgumentError('Not a boolean.');
+      }
+      return value === 'true';
+    },
+  )
+  .option('--listEmittedFiles', 'Print the names of emitted files')
+  .addOption(
+    new Option('--reporter <format>', 'The format of the build report (default: "pretty")').choices(
+      [ReporterFormat.Pretty, ReporterFormat.Json, ReporterFormat.Sarif, ReporterFormat.JUnit],
+    ),
+  )
+  .option('--output-file <path>', 'Write the build report to a file instead of stdout')
+  .option(
+    '--max-warnings <count>',
+    'Fail the build if there are more warnings than this',
+    (value) => {
+      const count = Number.parseInt(value, 10);
+      if (Number.isNaN(count) || count < 0) {
+        throw new InvalidOptionArgumentError('Not a non-negative integer.');
+      }
+      return count;
+    },
+  )
+  .option(
+    '--parallel [workers]',
+    'Build independent projects concurrently, in up to this many worker threads',
+    (value) => {
+      const count = Number.parseInt(value, 10);
+      if (Number.isNaN(count) || count < 1) {
+        throw new InvalidOptionArgumentError('Not a positive integer.');
+      }
+      return count;
+    },
+  )
   .action(compile)
   .parse(argv);
@@ -0,0 +1,30 @@
+import * as ts from 'typescript';
+
+/**
+ * Parses the command line from the configuration at the given path.
+ *
+ * @param path   the path to the configuration file.
+ * @param system the TypeScript system to use.
+ *
+ * @returns the parsed command line.
+ *
+ * @internal
+ */
+export function parseConfiguration(
+  path: string,
+  system: ts.System,
+): ts.ParsedCommandLine | undefined {
+  return ts.getParsedCommandLineOfConfigFile(
+    path,
+    {},
+    {
+      fileExists: system.fileExists,
+      getCurrentDirectory: system.getCurrentDirectory,
+      onUnRecoverableConfigFileDiagnostic: () => undefined,
+      readDirectory: system.readDirectory,
+      readFile: system.readFile,
+      useCaseSensitiveFileNames: system.useCaseSensitiveFileNames,
+      trace: undefined,
+    },
+  );
+}
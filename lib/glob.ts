@@ -0,0 +1,83 @@
+/**
+ * Converts a glob pattern to a regular expression matching paths (using `/`
+ * as a separator). Patterns support `*` (any characters but `/`), `?` (any
+ * character but `/`), `**` (any number of path segments), and `{a,b}`
+ * alternatives. Absolute patterns match entire paths, while relative patterns
+ * match the end of paths, starting at a path segment (so `*.test.ts` matches
+ * test files in any directory, and `packages/api/**` matches the files of any
+ * `packages/api` directory).
+ *
+ * @param pattern the glob pattern.
+ *
+ * @returns the regular expression.
+ *
+ * @throws if the pattern is invalid.
+ *
+ * @internal
+ */
+export function globRegExp(pattern: string): RegExp {
+  const error = globPatternError(pattern);
+  if (error != null) {
+    throw new Error(`Invalid glob pattern "${pattern}": ${error}`);
+  }
+  let source = '';
+  let alternatives = 0;
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index];
+    switch (char) {
+      case '*':
+        if (pattern[index + 1] === '*') {
+          if (pattern[index + 2] === '/') {
+            // "**/" matches any number of leading segments, including none
+            source += '(?:.*/)?';
+            index += 2;
+          } else {
+            source += '.*';
+            index += 1;
+          }
+        } else {
+          source += '[^/]*';
+        }
+        break;
+      case '?':
+        source += '[^/]';
+        break;
+      case '{':
+        source += '(?:';
+        alternatives++;
+        break;
+      case '}':
+        source += alternatives > 0 ? ')' : '\\}';
+        alternatives = Math.max(0, alternatives - 1);
+        break;
+      case ',':
+        source += alternatives > 0 ? '|' : ',';
+        break;
+      default:
+        source += char.replace(/[.+^$()|[\]\\]/, '\\$&');
+    }
+  }
+  return new RegExp(`${pattern.startsWith('/') ? '^' : '(?:^|/)'}${source}$`);
+}
+
+/**
+ * Checks that a glob pattern is valid, which only requires its `{` to be
+ * closed (a `}` that closes nothing matches itself).
+ *
+ * @param pattern the glob pattern.
+ *
+ * @returns the reason why the pattern is invalid, if it is.
+ *
+ * @internal
+ */
+export function globPatternError(pattern: string): string | undefined {
+  let alternatives = 0;
+  for (const char of pattern) {
+    if (char === '{') {
+      alternatives++;
+    } else if (char === '}') {
+      alternatives = Math.max(0, alternatives - 1);
+    }
+  }
+  return alternatives > 0 ? '"{" is not closed' : undefined;
+}
@@ -0,0 +1,568 @@
+import { posix } from 'path';
+import * as ts from 'typescript';
+import { globRegExp } from './glob';
+
+/**
+ * Options for creating an `InMemorySystem`.
+ */
+export interface InMemorySystemOptions {
+  /**
+   * The initial files of the system, keyed by path (relative paths are
+   * resolved from `currentDirectory`).
+   *
+   * @default - no files
+   */
+  readonly files?: { readonly [path: string]: string };
+
+  /**
+   * The current directory of the system.
+   *
+   * @default '/'
+   */
+  readonly currentDirectory?: string;
+
+  /**
+   * Whether file names are case-sensitive.
+   *
+   * @default true
+   */
+  readonly useCaseSensitiveFileNames?: boolean;
+
+  /**
+   * The new line sequence of the system.
+   *
+   * @default '\n'
+   */
+  readonly newLine?: string;
+
+  /**
+   * The initial time of the system's clock.
+   *
+   * @default 2020-01-01T00:00:00.000Z
+   */
+  readonly now?: Date;
+}
+
+/**
+ * A `ts.System` that operates entirely in memory. Timers are driven by a
+ * virtual clock that only advances when `advanceTimers` or `runAllTimers` are
+ * called (or by one millisecond on each file system write, so modification
+ * times are strictly increasing). File system watchers are notified through
+ * timers, making watch mode fully deterministic.
+ *
+ * The TypeScript default library files are read from the TypeScript
+ * installation, so that programs can be type-checked.
+ *
+ * All methods are bound to the instance, as TypeScript frequently invokes them
+ * detached from the system object.
+ */
+export class InMemorySystem implements ts.System {
+  public readonly args = new Array<string>();
+  public readonly newLine: string;
+  public readonly useCaseSensitiveFileNames: boolean;
+
+  /**
+   * The exit code passed to `exit`, if it was called.
+   */
+  public exitCode?: number;
+
+  /* eslint-disable @typescript-eslint/explicit-member-accessibility */
+  readonly #currentDirectory: string;
+  readonly #directories = new Map<string, string>();
+  readonly #directoryWatchers = new Set<DirectoryWatcher>();
+  readonly #fileWatchers = new Set<FileWatcher>();
+  readonly #files = new Map<string, VirtualFile>();
+  readonly #output = new Array<string>();
+  readonly #timers = new Map<number, Timer>();
+  #nextTimerId = 1;
+  #now: number;
+  /* eslint-enable @typescript-eslint/explicit-member-accessibility */
+
+  public constructor({
+    files = {},
+    currentDirectory = '/',
+    useCaseSensitiveFileNames = true,
+    newLine = '\n',
+    now = new Date('2020-01-01T00:00:00.000Z'),
+  }: InMemorySystemOptions = {}) {
+    this.#currentDirectory = posix.resolve('/', currentDirectory);
+    this.newLine = newLine;
+    this.useCaseSensitiveFileNames = useCaseSensitiveFileNames;
+    this.#now = now.getTime();
+
+    this.createDirectory(this.#currentDirectory);
+    for (const [path, data] of Object.entries(files)) {
+      this.writeFile(path, data);
+    }
+  }
+
+  /**
+   * Returns the current time of the virtual clock. TypeScript's solution
+   * builder uses this (when present) instead of the actual time.
+   */
+  public readonly now = (): Date => {
+    return new Date(this.#now);
+  };
+
+  /**
+   * Everything that was passed to `write`.
+   */
+  public get output(): string {
+    return this.#output.join('');
+  }
+
+  /**
+   * The number of timers that are pending execution.
+   */
+  public get pendingTimers(): number {
+    return this.#timers.size;
+  }
+
+  /**
+   * The paths of the files that are being watched (each appears once, however
+   * many watchers it has).
+   */
+  public get watchedFiles(): readonly string[] {
+    return Array.from(new Set(Array.from(this.#fileWatchers, ({ path }) => path))).sort();
+  }
+
+  /**
+   * The paths of the directories that are being watched (each appears once,
+   * however many watchers it has).
+   */
+  public get watchedDirectories(): readonly string[] {
+    return Array.from(new Set(Array.from(this.#directoryWatchers, ({ path }) => path))).sort();
+  }
+
+  /**
+   * The paths of all files in the system (excluding the default library files).
+   */
+  public get fileNames(): readonly string[] {
+    return Array.from(this.#files.values(), ({ path }) => path).sort();
+  }
+
+  /**
+   * Advances the virtual clock, running all timers that are due in order.
+   *
+   * @param ms the number of milliseconds to advance the clock by.
+   */
+  public readonly advanceTimers = (ms: number): void => {
+    const target = this.#now + ms;
+    for (
+      let timer = this.#nextDueTimer(target);
+      timer != null;
+      timer = this.#nextDueTimer(target)
+    ) {
+      this.#runTimer(timer);
+    }
+    this.#now = Math.max(this.#now, target);
+  };
+
+  /**
+   * Runs timers (advancing the virtual clock as needed) until none is left.
+   *
+   * @param limit the maximum number of timers to run, which protects against
+   *              timers that infinitely re-schedule themselves.
+   */
+  public readonly runAllTimers = (limit = 1_000): void => {
+    for (let count = 0; count < limit; count++) {
+      const timer = this.#nextDueTimer(Number.POSITIVE_INFINITY);
+      if (timer == null) {
+        return;
+      }
+      this.#runTimer(timer);
+    }
+    throw new Error(`Timers are still pending after running ${limit} of them`);
+  };
+
+  public readonly write = (s: string): void => {
+    this.#output.push(s);
+  };
+
+  public readonly readFile = (path: string, _encoding?: string): string | undefined => {
+    const file = this.#files.get(this.#canonical(path));
+    if (file != null) {
+      return file.text;
+    }
+    return isLibraryFile(this.resolvePath(path)) ? ts.sys.readFile(path) : undefined;
+  };
+
+  public readonly getFileSize = (path: string): number => {
+    return Buffer.byteLength(this.readFile(path) ?? '', 'utf-8');
+  };
+
+  public readonly writeFile = (path: string, data: string, writeByteOrderMark?: boolean): void => {
+    const resolved = this.resolvePath(path);
+    this.createDirectory(posix.dirname(resolved));
+    const existed = this.fileExists(resolved);
+    this.#files.set(this.#canonical(resolved), {
+      path: resolved,
+      text: writeByteOrderMark ? `\uFEFF${data}` : data,
+      modifiedTime: this.#tick(),
+    });
+    this.#notify(
+      resolved,
+      existed ? ts.FileWatcherEventKind.Changed : ts.FileWatcherEventKind.Created,
+    );
+  };
+
+  public readonly deleteFile = (path: string): void => {
+    const resolved = this.resolvePath(path);
+    if (this.#files.delete(this.#canonical(resolved))) {
+      this.#tick();
+      this.#notify(resolved, ts.FileWatcherEventKind.Deleted);
+    }
+  };
+
+  public readonly watchFile = (
+    path: string,
+    callback: ts.FileWatcherCallback,
+    _pollingInterval?: number,
+    _options?: ts.WatchOptions,
+  ): ts.FileWatcher => {
+    const watcher: FileWatcher = { path: this.#canonical(path), callback };
+    this.#fileWatchers.add(watcher);
+    return { close: () => this.#fileWatchers.delete(watcher) };
+  };
+
+  public readonly watchDirectory = (
+    path: string,
+    callback: ts.DirectoryWatcherCallback,
+    recursive = false,
+    _options?: ts.WatchOptions,
+  ): ts.FileWatcher => {
+    const watcher: DirectoryWatcher = { path: this.#canonical(path), callback, recursive };
+    this.#directoryWatchers.add(watcher);
+    return { close: () => this.#directoryWatchers.delete(watcher) };
+  };
+
+  public readonly resolvePath = (path: string): string => {
+    return posix.resolve(this.#currentDirectory, path);
+  };
+
+  public readonly fileExists = (path: string): boolean => {
+    return this.readFile(path) != null;
+  };
+
+  public readonly directoryExists = (path: string): boolean => {
+    const resolved = this.resolvePath(path);
+    return this.#directories.has(this.#canonical(resolved)) || resolved === LIBRARY_DIRECTORY;
+  };
+
+  public readonly createDirectory = (path: string): void => {
+    const resolved = this.resolvePath(path);
+    if (this.directoryExists(resolved)) {
+      return;
+    }
+    const parent = posix.dirname(resolved);
+    if (parent !== resolved) {
+      this.createDirectory(parent);
+    }
+    this.#directories.set(this.#canonical(resolved), resolved);
+    this.#notify(resolved);
+  };
+
+  public readonly getExecutingFilePath = (): string => {
+    return posix.join(LIBRARY_DIRECTORY, 'tsc.js');
+  };
+
+  public readonly getCurrentDirectory = (): string => {
+    return this.#currentDirectory;
+  };
+
+  public readonly getDirectories = (path: string): string[] => {
+    return [...this.#getFileSystemEntries(path).directories];
+  };
+
+  public readonly readDirectory = (
+    path: string,
+    extensions?: readonly string[],
+    exclude?: readonly string[],
+    include?: readonly string[],
+    depth?: number,
+  ): string[] => {
+    return matchFiles(
+      path,
+      extensions,
+      exclude,
+      include,
+      this.useCaseSensitiveFileNames,
+      this.#currentDirectory,
+      depth,
+      this.#getFileSystemEntries,
+      this.realpath,
+    );
+  };
+
+  public readonly getModifiedTime = (path: string): Date | undefined => {
+    const file = this.#files.get(this.#canonical(path));
+    if (file != null) {
+      return file.modifiedTime;
+    }
+    return isLibraryFile(this.resolvePath(path)) ? ts.sys.getModifiedTime?.(path) : undefined;
+  };
+
+  public readonly setModifiedTime = (path: string, time: Date): void => {
+    const file = this.#files.get(this.#canonical(path));
+    if (file != null) {
+      this.#files.set(this.#canonical(path), { ...file, modifiedTime: time });
+    }
+  };
+
+  public readonly exit = (exitCode?: number): void => {
+    this.exitCode = exitCode;
+  };
+
+  public readonly realpath = (path: string): string => {
+    return this.resolvePath(path);
+  };
+
+  public readonly setTimeout = (
+    callback: (...args: any[]) => void,
+    ms: number,
+    ...args: any[]
+  ): number => {
+    const id = this.#nextTimerId++;
+    this.#timers.set(id, { id, due: this.#now + Math.max(ms, 0), callback, args });
+    return id;
+  };
+
+  public readonly clearTimeout = (timeoutId: number): void => {
+    this.#timers.delete(timeoutId);
+  };
+
+  public readonly clearScreen = (): void => undefined;
+
+  /* eslint-disable @typescript-eslint/explicit-member-accessibility */
+  #canonical = (path: string): string => {
+    const resolved = this.resolvePath(path);
+    return this.useCaseSensitiveFileNames ? resolved : resolved.toLowerCase();
+  };
+
+  #getFileSystemEntries = (path: string): FileSystemEntries => {
+    const directory = this.#canonical(path);
+    const childName = (child: string, canonicalChild: string) =>
+      posix.dirname(canonicalChild) === directory ? posix.basename(child) : undefined;
+
+    const files = new Array<string>();
+    for (const [canonicalPath, { path: filePath }] of this.#files) {
+      const name = childName(filePath, canonicalPath);
+      if (name != null) {
+        files.push(name);
+      }
+    }
+    const directories = new Array<string>();
+    for (const [canonicalPath, directoryPath] of this.#directories) {
+      const name =
+        canonicalPath !== directory ? childName(directoryPath, canonicalPath) : undefined;
+      if (name != null) {
+        directories.push(name);
+      }
+    }
+    return { files: files.sort(), directories: directories.sort() };
+  };
+
+  #nextDueTimer = (until: number): Timer | undefined => {
+    let next: Timer | undefined;
+    for (const timer of this.#timers.values()) {
+      if (timer.due <= until && (next == null || timer.due < next.due)) {
+        next = timer;
+      }
+    }
+    return next;
+  };
+
+  /**
+   * Notifies watchers of a change, through a timer.
+   *
+   * @param path the path that changed.
+   * @param kind the kind of change, if `path` is a file.
+   */
+  #notify = (path: string, kind?: ts.FileWatcherEventKind): void => {
+    const canonicalPath = this.#canonical(path);
+    const parent = posix.dirname(canonicalPath);
+
+    if (kind != null) {
+      for (const watcher of this.#fileWatchers) {
+        if (watcher.path === canonicalPath) {
+          this.setTimeout(() => this.#fileWatchers.has(watcher) && watcher.callback(path, kind), 0);
+        }
+      }
+    }
+    for (const watcher of this.#directoryWatchers) {
+      if (
+        watcher.path === parent ||
+        (watcher.recursive && parent.startsWith(posix.join(watcher.path, '/')))
+      ) {
+        this.setTimeout(() => this.#directoryWatchers.has(watcher) && watcher.callback(path), 0);
+      }
+    }
+  };
+
+  #runTimer = (timer: Timer): void => {
+    this.#timers.delete(timer.id);
+    this.#now = Math.max(this.#now, timer.due);
+    timer.callback(...timer.args);
+  };
+
+  #tick = (): Date => {
+    this.#now += 1;
+    return new Date(this.#now);
+  };
+  /* eslint-enable @typescript-eslint/explicit-member-accessibility */
+}
+
+interface VirtualFile {
+  readonly path: string;
+  readonly text: string;
+  readonly modifiedTime: Date;
+}
+
+interface FileWatcher {
+  readonly path: string;
+  readonly callback: ts.FileWatcherCallback;
+}
+
+interface DirectoryWatcher {
+  readonly path: string;
+  readonly callback: ts.DirectoryWatcherCallback;
+  readonly recursive: boolean;
+}
+
+interface FileSystemEntries {
+  readonly files: readonly string[];
+  readonly directories: readonly string[];
+}
+
+interface Timer {
+  readonly id: number;
+  readonly due: number;
+  readonly callback: (...args: any[]) => void;
+  readonly args: readonly any[];
+}
+
+/**
+ * The directory holding the TypeScript default library files.
+ */
+const LIBRARY_DIRECTORY = posix.dirname(ts.getDefaultLibFilePath({}));
+
+/**
+ * Checks whether a path is that of a TypeScript default library file.
+ *
+ * @param path the (resolved) path to be checked.
+ *
+ * @returns `true` if the path is in the TypeScript library directory.
+ */
+function isLibraryFile(path: string): boolean {
+  return posix.dirname(path) === LIBRARY_DIRECTORY;
+}
+
+/**
+ * Lists the files of a directory, like `ts.sys.readDirectory` does.
+ */
+type MatchFiles = (
+  path: string,
+  extensions: readonly string[] | undefined,
+  excludes: readonly string[] | undefined,
+  includes: readonly string[] | undefined,
+  useCaseSensitiveFileNames: boolean,
+  currentDirectory: string,
+  depth: number | undefined,
+  getFileSystemEntries: (path: string) => FileSystemEntries,
+  realpath: (path: string) => string,
+) => string[];
+
+/**
+ * TypeScript's own implementation of `readDirectory`, which is internal (but is
+ * what `ts.sys` uses), or a simpler one if it is not available.
+ */
+const matchFiles: MatchFiles = typescriptMatchFiles() ?? walkFiles;
+
+/** Directory names that wildcards of `include` specifications do not match. */
+const IMPLICITLY_EXCLUDED = /^(?:\.|node_modules$|bower_components$|jspm_packages$)/;
+
+/**
+ * Obtains TypeScript's internal implementation of `readDirectory`.
+ *
+ * @returns the implementation, unless this version of TypeScript has none.
+ */
+function typescriptMatchFiles(): MatchFiles | undefined {
+  const { matchFiles: implementation } = ts as unknown as { readonly matchFiles?: unknown };
+  return typeof implementation === 'function' ? (implementation as MatchFiles) : undefined;
+}
+
+/**
+ * Lists the files of a directory by walking it, matching files against the
+ * `include` and `exclude` specifications of a configuration file (where a
+ * directory stands for the files it contains).
+ *
+ * @returns the paths to the matching files.
+ *
+ * @internal
+ */
+export function walkFiles(
+  path: string,
+  extensions: readonly string[] | undefined,
+  excludes: readonly string[] | undefined,
+  includes: readonly string[] | undefined,
+  useCaseSensitiveFileNames: boolean,
+  currentDirectory: string,
+  depth: number | undefined,
+  getFileSystemEntries: (path: string) => FileSystemEntries,
+): string[] {
+  const root = posix.resolve(currentDirectory, path);
+  const canonical = (fileName: string) =>
+    useCaseSensitiveFileNames ? fileName : fileName.toLowerCase();
+  const patterns = (specs: readonly string[], contents: boolean) =>
+    specs.map((spec) => {
+      let pattern = canonical(posix.resolve(root, spec));
+      if (contents && !/[*?.][^/]*$/.test(pattern)) {
+        pattern = `${pattern}/**/*`;
+      }
+      // Like TypeScript, wildcards do not match package or hidden directories.
+      const wildcard = pattern.search(/[*?]/);
+      const base = wildcard < 0 ? pattern : pattern.slice(0, pattern.lastIndexOf('/', wildcard));
+      const regExp = globRegExp(pattern);
+      return {
+        test: (fileName: string) =>
+          regExp.test(fileName) &&
+          (wildcard < 0 ||
+            !fileName
+              .slice(base.length + 1)
+              .split('/')
+              .some((segment) => IMPLICITLY_EXCLUDED.test(segment))),
+      };
+    });
+  const include = includes != null ? patterns(includes, true) : undefined;
+  const exclude = (excludes ?? []).map((spec) => globRegExp(canonical(posix.resolve(root, spec))));
+  const excluded = (fileName: string): boolean =>
+    exclude.some((pattern) => pattern.test(canonical(fileName)));
+
+  const files = new Array<string>();
+  const walk = (directory: string, remaining: number | undefined): void => {
+    const entries = getFileSystemEntries(directory);
+    for (const name of entries.files) {
+      const fileName = posix.join(directory, name);
+      if (
+        (extensions == null ||
+          extensions.some((extension) => canonical(name).endsWith(canonical(extension)))) &&
+        (include?.some((pattern) => pattern.test(canonical(fileName))) ?? true) &&
+        !excluded(fileName)
+      ) {
+        files.push(posix.join(path, posix.relative(root, fileName)));
+      }
+    }
+    const next = remaining != null ? remaining - 1 : undefined;
+    if (next === 0) {
+      return;
+    }
+    for (const name of entries.directories) {
+      const subdirectory = posix.join(directory, name);
+      if (!excluded(subdirectory)) {
+        walk(subdirectory, next);
+      }
+    }
+  };
+  walk(root, depth);
+  return files;
+}
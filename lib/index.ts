@@ -1,5 +1,13 @@
+export * from './in-memory-system';
+export * from './kit-config';
+export * from './plugins';
+export * from './reporters';
+export * from './testing';
 export * from './transformer';
+export * from './transformer-cache';
+export * from './transformer-options';
 export * from './transformers';
 export * from './typescript-solution';
 export * from './version.generated';
+export * from './visitor-transformer';
 export * from './watch';
@@ -0,0 +1,434 @@
+import { basename, dirname, resolve } from 'path';
+import * as ts from 'typescript';
+import { globPatternError } from './glob';
+import { loadPluginTransformer, PluginConfig, PluginType } from './plugins';
+import { ReporterFormat } from './reporters';
+import { Transformer, TransformerPhase, TransformerPriority } from './transformer';
+import { OptionsLocation, TransformerOptions } from './transformer-options';
+import {
+  FileKind,
+  ProvidedTransformer,
+  TransformerLoadError,
+  TransformerProvider,
+  TransformerRegistrationOptions,
+} from './transformers';
+import { SolutionWatchOptions } from './watch';
+
+/**
+ * The configuration of the transform kit, as declared in a `tsc-tk.config.js`
+ * or `tsc-tk.config.json` file, or under the `"tsc-tk"` key of a
+ * `package.json` file, next to a `tsconfig.json` file.
+ */
+export interface KitConfig {
+  /**
+   * The transformers applied to each project of the solution, in registration
+   * order.
+   */
+  readonly transformers?: readonly KitTransformerConfig[];
+
+  /**
+   * Project-specific configuration, keyed by the path to the project's
+   * `tsconfig.json` file (or its directory), relative to the configuration file.
+   */
+  readonly projects?: { readonly [tsconfigPath: string]: KitProjectConfig };
+
+  /**
+   * The format of the build report of the `tsc-tk` command, unless the
+   * `--reporter` option is used.
+   */
+  readonly reporter?: ReporterFormat;
+
+  /**
+   * The file the build report of the `tsc-tk` command is written to, unless the
+   * `--output-file` option is used.
+   */
+  readonly outputFile?: string;
+
+  /**
+   * The maximum number of warnings of the `tsc-tk` command, unless the
+   * `--max-warnings` option is used.
+   */
+  readonly maxWarnings?: number;
+
+  /**
+   * The options of the `tsc-tk` command in watch mode.
+   */
+  readonly watch?: SolutionWatchOptions;
+}
+
+/**
+ * A transformer declared in a configuration file, which module is loaded like
+ * a transformer plugin (see `PluginConfig`), and registered with the provided
+ * registration options.
+ */
+export interface KitTransformerConfig
+  extends Omit<TransformerRegistrationOptions, 'optionsLocation'> {
+  /**
+   * The module that provides the transformer. Relative paths are resolved from
+   * the directory containing the configuration file.
+   */
+  readonly transform: string;
+
+  /**
+   * The name of the export that provides the transformer.
+   *
+   * @default 'default'
+   */
+  readonly import?: string;
+
+  /**
+   * The signature of the transformer factory, if the module exports one.
+   *
+   * @default 'program'
+   */
+  readonly type?: PluginType;
+
+  /**
+   * The options of the transformer, which are validated against its
+   * `optionsSchema`. They are also passed to transformer factories and
+   * constructors, like the additional properties of plugin configurations.
+   */
+  readonly options?: TransformerOptions;
+}
+
+/**
+ * The configuration of a project, which overrides the configuration of the
+ * solution.
+ */
+export interface KitProjectConfig {
+  /**
+   * The transformers applied to the project, instead of the ones applied to
+   * each project of the solution.
+   */
+  readonly transformers?: readonly KitTransformerConfig[];
+}
+
+/**
+ * A configuration loaded from a file.
+ */
+export interface KitConfigFile {
+  /** The path to the file the configuration was loaded from. */
+  readonly path: string;
+  /** The configuration. */
+  readonly config: KitConfig;
+}
+
+/**
+ * The names of configuration files, in the order in which they are looked up.
+ */
+const CONFIG_FILE_NAMES = ['tsc-tk.config.js', 'tsc-tk.config.json', 'package.json'] as const;
+
+/**
+ * The key of the configuration in `package.json` files.
+ */
+const PACKAGE_JSON_KEY = 'tsc-tk';
+
+/**
+ * Finds and loads the configuration next to a `tsconfig.json` file: the first
+ * of `tsc-tk.config.js`, `tsc-tk.config.json` or a `package.json` file with a
+ * `"tsc-tk"` key.
+ *
+ * @param tsconfigPath the path to the `tsconfig.json` file.
+ * @param system       the TypeScript system to use.
+ *
+ * @returns the configuration, if there is one.
+ *
+ * @throws if the configuration cannot be loaded, or is invalid.
+ */
+export function findKitConfig(
+  tsconfigPath: string,
+  system: ts.System = ts.sys,
+): KitConfigFile | undefined {
+  const directory = dirname(resolve(system.getCurrentDirectory(), tsconfigPath));
+  for (const fileName of CONFIG_FILE_NAMES) {
+    const path = resolve(directory, fileName);
+    if (system.fileExists(path)) {
+      const configFile = readKitConfig(path, system);
+      if (configFile != null) {
+        return configFile;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Loads the configuration from a file. JavaScript files are loaded using
+ * `require` (hence from the actual file system), and must export the
+ * configuration (or a `default` export). JSON files may contain comments, like
+ * `tsconfig.json` files can.
+ *
+ * @param path   the path to the configuration file.
+ * @param system the TypeScript system to use.
+ *
+ * @returns the configuration, or `undefined` for `package.json` files that do
+ *          not have a `"tsc-tk"` key.
+ *
+ * @throws if the configuration cannot be loaded, or is invalid.
+ */
+export function readKitConfig(path: string, system: ts.System = ts.sys): KitConfigFile | undefined {
+  let config: unknown;
+  if (path.endsWith('.js')) {
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-require-imports
+      const module = require(path);
+      config = module?.default ?? module;
+    } catch (error) {
+      throw new Error(`Unable to load tsc-tk configuration from ${path}: ${error.message}`);
+    }
+  } else {
+    const { config: json, error } = ts.parseConfigFileTextToJson(path, system.readFile(path) ?? '');
+    if (error != null) {
+      throw new Error(
+        `Unable to load tsc-tk configuration from ${path}: ${ts.flattenDiagnosticMessageText(
+          error.messageText,
+          '\n',
+        )}`,
+      );
+    }
+    if (basename(path) === 'package.json') {
+      if (json?.[PACKAGE_JSON_KEY] == null) {
+        return undefined;
+      }
+      config = json[PACKAGE_JSON_KEY];
+    } else {
+      config = json;
+    }
+  }
+
+  const errors = validateKitConfig(config);
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid tsc-tk configuration in ${path}:${errors.map((error) => `\n  - ${error}`).join('')}`,
+    );
+  }
+  return { path, config: config as KitConfig };
+}
+
+/**
+ * Creates a provider of the transformers declared in a configuration file. The
+ * transformers of a project are those of its entry in `projects` if it declares
+ * any, and the top-level ones otherwise. Transformers that cannot be loaded are
+ * reported where they are declared in the file.
+ *
+ * @param configFile the configuration.
+ *
+ * @returns the provider, to be registered with `addTransformerProvider`.
+ */
+export function kitConfigTransformers({ path, config }: KitConfigFile): TransformerProvider {
+  const baseDirectory = dirname(path);
+  const projects = new Map<string, string>(
+    Object.keys(config.projects ?? {}).map((tsconfigPath) => [
+      ts.resolveProjectReferencePath({ path: resolve(baseDirectory, tsconfigPath) }),
+      tsconfigPath,
+    ]),
+  );
+  // Invalid options are reported where they are declared in the file
+  const root = basename(path) === 'package.json' ? [PACKAGE_JSON_KEY] : [];
+
+  // Transformers are loaded once per entry, and provided once per project, so
+  // that each project gets the same instances throughout a build
+  const loaded = new Map<KitTransformerConfig, Transformer>();
+  const provided = new Map<string, readonly ProvidedTransformer[] | TransformerLoadError>();
+  const load = (
+    entry: KitTransformerConfig,
+    location: OptionsLocation,
+    system: ts.System,
+  ): Transformer => {
+    let transformer = loaded.get(entry);
+    if (transformer == null) {
+      const { transform, import: importName, type, phases } = entry;
+      // Factories receive the options once they are resolved
+      const plugin: PluginConfig = {
+        transform,
+        import: importName,
+        type,
+        // Transformer factories run in the phase their plugin configuration designates
+        after: phases?.includes(TransformerPhase.After),
+        afterDeclarations: phases?.includes(TransformerPhase.AfterDeclarations),
+      };
+      transformer = loadPluginTransformer(plugin, baseDirectory, location, system);
+      loaded.set(entry, transformer);
+    }
+    return transformer;
+  };
+
+  return (configFilePath, _compilerOptions, system) => {
+    const key = resolve(configFilePath);
+    let result = provided.get(key);
+    if (result == null) {
+      const project = projects.get(key);
+      const [transformers = [], at] =
+        project != null && config.projects![project].transformers != null
+          ? [config.projects![project].transformers, [...root, 'projects', project, 'transformers']]
+          : [config.transformers, [...root, 'transformers']];
+      try {
+        result = transformers.map((entry, index) => {
+          // The other properties of entries are registration options
+          const {
+            transform: _transform,
+            import: _import,
+            type: _type,
+            options,
+            ...registrationOptions
+          } = entry;
+          return {
+            transformer: load(entry, { fileName: path, path: [...at, index] }, system),
+            ...registrationOptions,
+            options,
+            optionsLocation: { fileName: path, path: [...at, index, 'options'] },
+          };
+        });
+      } catch (error) {
+        if (!(error instanceof TransformerLoadError)) {
+          throw error;
+        }
+        result = error;
+      }
+      provided.set(key, result);
+    }
+    if (result instanceof TransformerLoadError) {
+      throw result;
+    }
+    return result;
+  };
+}
+
+/**
+ * Validates a configuration.
+ *
+ * @param config the configuration to validate.
+ *
+ * @returns the errors found in the configuration, if any.
+ */
+function validateKitConfig(config: unknown): readonly string[] {
+  const errors = new Array<string>();
+  const check = (valid: boolean, path: string, message: string): boolean => {
+    if (!valid) {
+      errors.push(`${path} ${message}`);
+    }
+    return valid;
+  };
+
+  const string: Validator = (value, path) =>
+    check(typeof value === 'string', path, 'must be a string');
+  const oneOf =
+    (values: readonly string[]): Validator =>
+    (value, path) =>
+      check(
+        values.includes(value as string),
+        path,
+        `must be one of ${values.map((v) => JSON.stringify(v)).join(', ')}`,
+      );
+  const glob: Validator = (value, path) => {
+    const error = typeof value === 'string' ? globPatternError(value) : undefined;
+    return (
+      string(value, path) && check(error == null, path, `is not a valid glob pattern: ${error}`)
+    );
+  };
+  const nonNegative: Validator = (value, path) =>
+    check(typeof value === 'number' && value >= 0, path, 'must be a non-negative number');
+  const count: Validator = (value, path) =>
+    check(
+      Number.isInteger(value) && (value as number) >= 0,
+      path,
+      'must be a non-negative integer',
+    );
+  const array =
+    (item: Validator): Validator =>
+    (value, path) =>
+      check(Array.isArray(value), path, 'must be an array') &&
+      (value as unknown[])
+        .map((element, index) => item(element, `${path}[${index}]`))
+        .every((valid) => valid);
+  const record =
+    (property: Validator): Validator =>
+    (value, path) =>
+      check(isObject(value), path, 'must be an object') &&
+      Object.entries(value as object)
+        .map(([key, element]) => property(element, `${path}[${JSON.stringify(key)}]`))
+        .every((valid) => valid);
+  const object =
+    (properties: { readonly [name: string]: Validator }, required: readonly string[] = []) =>
+    (value: unknown, path?: string): boolean => {
+      const at = (name: string) => (path != null ? `${path}.${name}` : name);
+      if (!check(isObject(value), path ?? 'The configuration', 'must be an object')) {
+        return false;
+      }
+      let valid = true;
+      for (const name of required) {
+        valid = check(name in (value as object), at(name), 'is required') && valid;
+      }
+      for (const [name, property] of Object.entries(value as object)) {
+        const validate = properties[name];
+        valid =
+          check(validate != null, at(name), 'is not a known property') &&
+          validate(property, at(name)) &&
+          valid;
+      }
+      return valid;
+    };
+
+  const transformers = array(
+    object(
+      {
+        transform: string,
+        import: string,
+        type: oneOf(['program', 'config', 'checker', 'raw', 'compilerOptions']),
+        options: (value, path) => check(isObject(value), path, 'must be an object'),
+        name: string,
+        phases: array(
+          oneOf([
+            TransformerPhase.Before,
+            TransformerPhase.After,
+            TransformerPhase.AfterDeclarations,
+          ]),
+        ),
+        runsBefore: array(string),
+        runsAfter: array(string),
+        priority: oneOf([
+          TransformerPriority.First,
+          TransformerPriority.Early,
+          TransformerPriority.Normal,
+          TransformerPriority.Late,
+          TransformerPriority.Last,
+        ]),
+        projects: array(glob),
+        include: array(glob),
+        exclude: array(glob),
+        fileKinds: array(oneOf([FileKind.Source, FileKind.Declaration, FileKind.Json])),
+      },
+      ['transform'],
+    ),
+  );
+
+  object({
+    transformers,
+    projects: record(object({ transformers })),
+    reporter: oneOf([
+      ReporterFormat.Pretty,
+      ReporterFormat.Json,
+      ReporterFormat.Sarif,
+      ReporterFormat.JUnit,
+    ]),
+    outputFile: string,
+    maxWarnings: count,
+    watch: object({ debounce: nonNegative, pollingInterval: nonNegative }),
+  })(config);
+
+  return errors;
+}
+
+/**
+ * Validates a value of a configuration, recording errors for invalid values.
+ *
+ * @param value the value to validate.
+ * @param path  the path to the value in the configuration, for error messages.
+ *
+ * @returns whether the value is valid.
+ */
+type Validator = (value: unknown, path: string) => boolean;
+
+function isObject(value: unknown): value is { readonly [key: string]: unknown } {
+  return typeof value === 'object' && value != null && !Array.isArray(value);
+}
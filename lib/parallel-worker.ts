@@ -0,0 +1,114 @@
+/**
+ * The entry point of parallel build workers. Each worker loads its own copy of
+ * the transformers, then builds the projects it is sent one at a time, and
+ * responds with the build events that were emitted.
+ *
+ * @internal
+ */
+
+import * as ts from 'typescript';
+import { parentPort, workerData } from 'worker_threads';
+import {
+  serializeDiagnostic,
+  WorkerData,
+  WorkerEvent,
+  WorkerRequest,
+  WorkerResponse,
+} from './parallel';
+import { kitConfigTransformers, readKitConfig } from './kit-config';
+import { loadPluginTransformer, loadPluginTransformers } from './plugins';
+import { AbortSignalLike } from './transformer';
+import { Transformers } from './transformers';
+import { BuildEvent, TypeScriptSolution } from './typescript-solution';
+
+const {
+  transformers: plugins,
+  baseDirectory,
+  configFile,
+  loadPlugins,
+  defaultOptions,
+  outputCacheDirectory,
+} = workerData as WorkerData;
+
+const transformers = new Transformers();
+plugins.forEach((plugin, index) =>
+  transformers.addTransformer(
+    loadPluginTransformer(plugin, baseDirectory, {
+      fileName: 'the parallel build options',
+      path: ['transformers', index],
+    }),
+  ),
+);
+if (configFile != null) {
+  const kitConfig = readKitConfig(configFile);
+  if (kitConfig != null) {
+    transformers.addTransformerProvider(kitConfigTransformers(kitConfig));
+  }
+}
+if (loadPlugins) {
+  transformers.addTransformerProvider(loadPluginTransformers);
+}
+
+// The signal of the build in progress, if any
+let signal: { aborted: boolean } | undefined;
+
+parentPort!.on('message', (request: WorkerRequest) => {
+  if (request.kind === 'abort') {
+    if (signal != null) {
+      signal.aborted = true;
+    }
+    return;
+  }
+  signal = { aborted: false };
+  buildProject(request.project, signal).then(
+    (response) => parentPort!.postMessage(response),
+    (error) =>
+      parentPort!.postMessage({
+        kind: 'error',
+        message: error?.message ?? `${error}`,
+      } as WorkerResponse),
+  );
+});
+
+async function buildProject(project: string, signal: AbortSignalLike): Promise<WorkerResponse> {
+  const solution = new TypeScriptSolution(project, transformers, { outputCacheDirectory });
+  const events = new Array<WorkerEvent>();
+  solution
+    .on(BuildEvent.BeforeProject, ({ project }) =>
+      events.push({ event: BuildEvent.BeforeProject, project }),
+    )
+    .on(BuildEvent.AfterProject, ({ project }) =>
+      events.push({ event: BuildEvent.AfterProject, project }),
+    )
+    .on(BuildEvent.Diagnostic, (diag) =>
+      events.push({ event: BuildEvent.Diagnostic, diagnostic: serializeDiagnostic(diag) }),
+    )
+    .on(BuildEvent.OutputsSkipped, ({ project }, reason) =>
+      events.push({ event: BuildEvent.OutputsSkipped, project, reason }),
+    );
+
+  // The exit status of projects is only known once they are done
+  solution.on(BuildEvent.OutputsGenerated, ({ project }) =>
+    events.push({ event: BuildEvent.OutputsGenerated, project, exitStatus: ts.ExitStatus.Success }),
+  );
+
+  // The projects it references were built by other workers: building them
+  // again (for example, if `force` is set) would race with other workers
+  const result = await solution.buildAsync([project], defaultOptions, {
+    signal,
+    onlyProject: project,
+  });
+  return {
+    kind: 'done',
+    events: events.map((event) =>
+      event.event === BuildEvent.OutputsGenerated
+        ? {
+            ...event,
+            exitStatus:
+              result.projects.find(({ project }) => project === event.project)?.exitStatus ??
+              event.exitStatus,
+          }
+        : event,
+    ),
+  };
+}
@@ -0,0 +1,384 @@
+import { resolve } from 'path';
+import * as ts from 'typescript';
+import { Worker } from 'worker_threads';
+import { parseConfiguration } from './configuration';
+import { PluginConfig } from './plugins';
+import { AbortSignalLike } from './transformer';
+import { BuildEvent, OutputsSkippedReason } from './typescript-solution';
+
+/**
+ * The data a parallel build worker is started with.
+ *
+ * @internal
+ */
+export interface WorkerData {
+  /** The transformers to load, with module paths resolved from `baseDirectory`. */
+  readonly transformers: readonly PluginConfig[];
+  /** The directory relative transformer module paths are resolved from. */
+  readonly baseDirectory: string;
+  /** The configuration file declaring transformers to load, if any. */
+  readonly configFile?: string;
+  /** Whether transformers declared in the projects' `plugins` are loaded. */
+  readonly loadPlugins: boolean;
+  /** The build options to use. */
+  readonly defaultOptions: ts.BuildOptions;
+  /** The directory in which transformed outputs are cached, if any. */
+  readonly outputCacheDirectory?: string;
+}
+
+/**
+ * A request sent to a worker: to build a project, or to abort the build of the
+ * project it is building.
+ *
+ * @internal
+ */
+export type WorkerRequest =
+  | {
+      readonly kind: 'build';
+      readonly project: string;
+    }
+  | {
+      readonly kind: 'abort';
+    };
+
+/**
+ * The response of a worker to a `build` request.
+ *
+ * @internal
+ */
+export type WorkerResponse =
+  | {
+      readonly kind: 'done';
+      readonly events: readonly WorkerEvent[];
+    }
+  | {
+      readonly kind: 'error';
+      readonly message: string;
+    };
+
+/**
+ * A build event emitted in a worker, to be replayed on the main thread.
+ *
+ * @internal
+ */
+export type WorkerEvent =
+  | {
+      readonly event: BuildEvent.BeforeProject | BuildEvent.AfterProject;
+      readonly project: string;
+    }
+  | {
+      readonly event: BuildEvent.OutputsGenerated;
+      readonly project: string;
+      readonly exitStatus: ts.ExitStatus;
+    }
+  | {
+      readonly event: BuildEvent.OutputsSkipped;
+      readonly project: string;
+      readonly reason: OutputsSkippedReason;
+    }
+  | {
+      readonly event: BuildEvent.Diagnostic;
+      readonly diagnostic: SerializedDiagnostic;
+    };
+
+/**
+ * A diagnostic that can be sent across threads. Source files are replaced by
+ * their name.
+ *
+ * @internal
+ */
+export interface SerializedDiagnostic {
+  readonly category: ts.DiagnosticCategory;
+  readonly code: number;
+  readonly messageText: string | ts.DiagnosticMessageChain;
+  readonly fileName?: string;
+  readonly start?: number;
+  readonly length?: number;
+  readonly source?: string;
+}
+
+/**
+ * Converts a diagnostic so it can be sent across threads.
+ *
+ * @internal
+ */
+export function serializeDiagnostic({
+  category,
+  code,
+  messageText,
+  file,
+  start,
+  length,
+  source,
+}: ts.Diagnostic): SerializedDiagnostic {
+  return { category, code, messageText, fileName: file?.fileName, start, length, source };
+}
+
+/**
+ * Converts a serialized diagnostic back to a diagnostic.
+ *
+ * @param diagnostic the serialized diagnostic.
+ * @param getFile    obtains the source file with the given name.
+ *
+ * @internal
+ */
+export function deserializeDiagnostic(
+  { category, code, messageText, fileName, start, length, source }: SerializedDiagnostic,
+  getFile: (fileName: string) => ts.SourceFile,
+): ts.Diagnostic {
+  const file = fileName != null ? getFile(fileName) : undefined;
+  return { category, code, messageText, file, start, length, source };
+}
+
+/**
+ * The project reference graph of a solution.
+ *
+ * @internal
+ */
+export interface ProjectGraph {
+  /** All projects, in the order `tsc -b` builds them. */
+  readonly order: readonly string[];
+  /** The (existing) projects referenced by each project. */
+  readonly references: ReadonlyMap<string, readonly string[]>;
+}
+
+/**
+ * Computes the project reference graph of a solution.
+ *
+ * @param rootNames the root projects of the solution.
+ * @param system    the TypeScript system to use.
+ *
+ * @returns the project graph, or `undefined` if project references form a cycle.
+ *
+ * @internal
+ */
+export function projectGraph(
+  rootNames: readonly string[],
+  system: ts.System,
+): ProjectGraph | undefined {
+  const order = new Array<string>();
+  const references = new Map<string, readonly string[]>();
+  const visiting = new Set<string>();
+
+  const visit = (project: string): boolean => {
+    if (references.has(project)) {
+      return true;
+    }
+    if (visiting.has(project)) {
+      return false;
+    }
+    visiting.add(project);
+    const refs = (parseConfiguration(project, system)?.projectReferences ?? [])
+      .map((ref) => ts.resolveProjectReferencePath(ref))
+      // Missing projects are reported by the project referencing them
+      .filter((ref) => system.fileExists(ref));
+    if (!refs.every(visit)) {
+      return false;
+    }
+    visiting.delete(project);
+    references.set(project, refs);
+    order.push(project);
+    return true;
+  };
+
+  const roots = rootNames.map((rootName) =>
+    ts.resolveProjectReferencePath({ path: resolve(system.getCurrentDirectory(), rootName) }),
+  );
+  return roots.every(visit) ? { order, references } : undefined;
+}
+
+/**
+ * What happened to a project in a parallel build.
+ *
+ * @internal
+ */
+export type ProjectOutcome =
+  /** The project was built by a worker, which emitted these events. */
+  | {
+      readonly kind: 'built';
+      readonly events: readonly WorkerEvent[];
+    }
+  /** The project was not built, as a project it references failed to transform. */
+  | {
+      readonly kind: 'upstreamFailure';
+    }
+  /** The project was not built, as a project it references had errors. */
+  | {
+      readonly kind: 'blocked';
+    };
+
+/**
+ * The state of a completed project, as seen by the projects referencing it.
+ */
+const enum ProjectState {
+  Clean,
+  Failed,
+  Blocked,
+}
+
+/**
+ * Builds the projects of a solution in worker threads, starting each project
+ * as soon as all the projects it references have been built successfully.
+ * Outcomes are reported in build order (regardless of the order in which
+ * projects complete), so that events can be emitted deterministically.
+ *
+ * @param graph        the project graph of the solution.
+ * @param workerData   the data workers are started with.
+ * @param maxWorkers   the maximum number of workers.
+ * @param report       receives the outcome of each project, in build order.
+ * @param signal       a signal to abort the build, which stops the running
+ *                     workers when it is aborted (if it supports listeners,
+ *                     or as soon as a project completes otherwise).
+ * @param workerScript the script workers run.
+ *
+ * @internal
+ */
+export async function buildInParallel(
+  graph: ProjectGraph,
+  workerData: WorkerData,
+  maxWorkers: number,
+  report: (project: string, outcome: ProjectOutcome) => void,
+  signal?: AbortSignalLike,
+  workerScript = resolve(__dirname, 'parallel-worker.js'),
+): Promise<void> {
+  const outcomes = new Map<string, ProjectOutcome>();
+  const states = new Map<string, ProjectState>();
+  let reported = 0;
+  const settle = (project: string, outcome: ProjectOutcome, state: ProjectState) => {
+    outcomes.set(project, outcome);
+    states.set(project, state);
+    while (reported < graph.order.length && outcomes.has(graph.order[reported])) {
+      const next = graph.order[reported++];
+      report(next, outcomes.get(next)!);
+    }
+  };
+
+  const workers = new Array<Worker>();
+  const idle = new Array<Worker>();
+  const pending = new Set(graph.order);
+  const running = new Map<string, Promise<readonly [string, Worker, WorkerResponse]>>();
+  let onAbort: (() => void) | undefined;
+  const aborted = new Promise<undefined>((ok) => {
+    onAbort = () => ok(undefined);
+    signal?.addEventListener?.('abort', onAbort);
+  });
+  try {
+    while (pending.size > 0 || running.size > 0) {
+      if (signal?.aborted) {
+        // Running workers abort their builds, then are terminated
+        for (const worker of workers.filter((worker) => !idle.includes(worker))) {
+          worker.postMessage({ kind: 'abort' } as WorkerRequest);
+        }
+        throw abortError();
+      }
+      for (const project of graph.order) {
+        const references = graph.references.get(project)!;
+        if (!pending.has(project) || !references.every((ref) => states.has(ref))) {
+          continue;
+        }
+        const upstream = references.map((ref) => states.get(ref));
+        if (upstream.includes(ProjectState.Failed)) {
+          pending.delete(project);
+          settle(project, { kind: 'upstreamFailure' }, ProjectState.Failed);
+        } else if (upstream.includes(ProjectState.Blocked)) {
+          pending.delete(project);
+          settle(project, { kind: 'blocked' }, ProjectState.Blocked);
+        } else if (idle.length > 0 || workers.length < maxWorkers) {
+          let worker = idle.pop();
+          if (worker == null) {
+            worker = new Worker(workerScript, { workerData });
+            workers.push(worker);
+          }
+          pending.delete(project);
+          const dispatched = worker;
+          running.set(
+            project,
+            requestBuild(dispatched, project).then((response) => [project, dispatched, response]),
+          );
+        }
+      }
+      if (running.size === 0) {
+        continue;
+      }
+
+      // eslint-disable-next-line no-await-in-loop
+      const completed = await Promise.race([aborted, ...running.values()]);
+      if (completed == null) {
+        continue;
+      }
+      const [project, worker, response] = completed;
+      running.delete(project);
+      idle.push(worker);
+      if (response.kind === 'error') {
+        throw new Error(`Failed to build ${project}: ${response.message}`);
+      }
+      settle(project, { kind: 'built', events: response.events }, projectState(response.events));
+    }
+  } finally {
+    signal?.removeEventListener?.('abort', onAbort!);
+    // Terminating workers rejects the builds they were running
+    for (const build of running.values()) {
+      build.catch(() => undefined);
+    }
+    await Promise.all(workers.map((worker) => worker.terminate()));
+  }
+}
+
+/**
+ * Determines the state of a project from the events emitted while building it.
+ * Projects that were not built at all (as they were up-to-date) are clean.
+ */
+function projectState(events: readonly WorkerEvent[]): ProjectState {
+  for (const event of events) {
+    if (event.event === BuildEvent.OutputsSkipped) {
+      return event.reason === OutputsSkippedReason.TransformerFailure ||
+        event.reason === OutputsSkippedReason.UpstreamTransformerFailure
+        ? ProjectState.Failed
+        : ProjectState.Blocked;
+    }
+    if (event.event === BuildEvent.OutputsGenerated && event.exitStatus !== ts.ExitStatus.Success) {
+      return ProjectState.Blocked;
+    }
+  }
+  return ProjectState.Clean;
+}
+
+/**
+ * Requests a worker to build a project.
+ *
+ * @returns the response of the worker.
+ */
+async function requestBuild(worker: Worker, project: string): Promise<WorkerResponse> {
+  return new Promise((ok, ko) => {
+    const onMessage = (response: WorkerResponse) => {
+      cleanup();
+      ok(response);
+    };
+    const onError = (error: Error) => {
+      cleanup();
+      ko(error);
+    };
+    const onExit = (exitCode: number) => {
+      cleanup();
+      ko(new Error(`Worker exited with code ${exitCode} while building ${project}`));
+    };
+    const cleanup = () => {
+      worker.removeListener('message', onMessage);
+      worker.removeListener('error', onError);
+      worker.removeListener('exit', onExit);
+    };
+    worker.on('message', onMessage).on('error', onError).on('exit', onExit);
+    worker.postMessage({ kind: 'build', project } as WorkerRequest);
+  });
+}
+
+/**
+ * Creates the error a build rejects with when it is aborted.
+ *
+ * @internal
+ */
+export function abortError(): Error {
+  const error = new Error('The build was aborted');
+  error.name = 'AbortError';
+  return error;
+}
@@ -0,0 +1,404 @@
+import { basename, dirname, isAbsolute, join, relative } from 'path';
+import * as ts from 'typescript';
+import { hash, hashConfiguration } from './transformer-cache';
+import {
+  Transformer,
+  TransformerCacheKey,
+  TransformerContext,
+  TransformerPhase,
+} from './transformer';
+import { OptionsLocation, TransformerOptions } from './transformer-options';
+import { ProvidedTransformer, TransformerLoadError } from './transformers';
+
+/**
+ * A transformer plugin entry, as declared in the `compilerOptions.plugins`
+ * section of a `tsconfig.json` file. The format is compatible with the one
+ * used by `ttypescript` and `ts-patch`.
+ */
+export interface PluginConfig {
+  /**
+   * The module that provides the transformer. Relative paths are resolved from
+   * the directory containing the `tsconfig.json` file.
+   */
+  readonly transform: string;
+
+  /**
+   * The name of the export that provides the transformer.
+   *
+   * @default 'default'
+   */
+  readonly import?: string;
+
+  /**
+   * The signature of the transformer factory.
+   *
+   * @default 'program'
+   */
+  readonly type?: PluginType;
+
+  /**
+   * Whether the transformer should run after TypeScript's own transformations.
+   * Transformer factories only run in the phase designated by `after` and
+   * `afterDeclarations` (`before` by default), including those that return
+   * phase-specific factories.
+   */
+  readonly after?: boolean;
+
+  /**
+   * Whether the transformer should run on declarations.
+   */
+  readonly afterDeclarations?: boolean;
+
+  /**
+   * Any additional property is considered to be transformer configuration.
+   */
+  readonly [option: string]: unknown;
+}
+
+/**
+ * The properties of plugin entries that are not transformer configuration.
+ */
+const PLUGIN_PROPERTIES: ReadonlySet<string> = new Set([
+  'transform',
+  'import',
+  'type',
+  'after',
+  'afterDeclarations',
+]);
+
+/**
+ * The supported transformer factory signatures.
+ */
+export type PluginType = 'program' | 'config' | 'checker' | 'raw' | 'compilerOptions';
+
+/**
+ * The transformers loaded from plugin entries, by system, then by configuration
+ * file and entry.
+ */
+const loadedPlugins = new WeakMap<ts.System, Map<string, Transformer>>();
+
+/**
+ * Loads the transformers declared in the `compilerOptions.plugins` section of a
+ * project's configuration. Plugin modules may either export a `Transformer`
+ * (instance or class, which will be instantiated with the plugin configuration),
+ * or a `ttypescript`-style transformer factory. The additional properties of
+ * each plugin entry are the options of its transformer, which are validated
+ * against its `optionsSchema`. Each plugin entry is only loaded once.
+ *
+ * This function is suitable for use as a `TransformerProvider`.
+ *
+ * @param configFilePath  the path to the project's configuration file.
+ * @param compilerOptions the compiler options of the project.
+ * @param system          the TypeScript system in use, to read plugin modules.
+ *
+ * @returns the transformers declared by the project, with their options.
+ *
+ * @throws a `TransformerLoadError` if a plugin cannot be loaded.
+ */
+export function loadPluginTransformers(
+  configFilePath: string,
+  compilerOptions: ts.CompilerOptions,
+  system: ts.System = ts.sys,
+): readonly ProvidedTransformer[] {
+  const plugins = (compilerOptions.plugins ?? []) as unknown as ReadonlyArray<
+    Partial<PluginConfig>
+  >;
+  return plugins.flatMap((plugin, index) => {
+    if (typeof plugin.transform !== 'string') {
+      return [];
+    }
+    // Inherited plugins are reported at the closest location that exists
+    const location: OptionsLocation = {
+      fileName: configFilePath,
+      path: ['compilerOptions', 'plugins', index],
+    };
+    // Providers are called for each phase of a build, which must all get the
+    // same instances
+    const loaded = loadedPlugins.get(system) ?? new Map<string, Transformer>();
+    loadedPlugins.set(system, loaded);
+    const key = `${configFilePath}\0${hashConfiguration(plugin)}`;
+    let transformer = loaded.get(key);
+    if (transformer == null) {
+      transformer = loadPluginTransformer(
+        plugin as PluginConfig,
+        dirname(configFilePath),
+        location,
+        system,
+      );
+      loaded.set(key, transformer);
+    }
+    return [
+      {
+        transformer,
+        options: pluginOptions(plugin),
+        optionsLocation: location,
+      },
+    ];
+  });
+}
+
+/**
+ * Loads a single transformer plugin.
+ *
+ * @param plugin        the plugin configuration.
+ * @param baseDirectory the directory relative module paths are resolved from.
+ * @param location      where the plugin is declared.
+ * @param system        the TypeScript system in use, to read plugin modules.
+ *
+ * @returns the loaded transformer.
+ *
+ * @throws a `TransformerLoadError` if the plugin cannot be loaded.
+ *
+ * @internal
+ */
+export function loadPluginTransformer(
+  plugin: PluginConfig,
+  baseDirectory: string,
+  location: OptionsLocation,
+  system: ts.System = ts.sys,
+): Transformer {
+  const { transform, import: importName = 'default' } = plugin;
+
+  let exported: unknown;
+  let modulePath: string;
+  try {
+    modulePath = require.resolve(transform, { paths: [baseDirectory] });
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const module = require(modulePath);
+    exported = importName === 'default' && module[importName] == null ? module : module[importName];
+  } catch (error) {
+    throw new TransformerLoadError(
+      `Unable to load transformer plugin "${transform}" declared in ${location.fileName}: ${error.message}`,
+      location,
+    );
+  }
+
+  if (exported instanceof Transformer) {
+    return exported;
+  }
+  if (typeof exported === 'function' && exported.prototype instanceof Transformer) {
+    return new (exported as new (config: PluginConfig) => Transformer)(plugin);
+  }
+  if (typeof exported === 'function') {
+    return new PluginTransformer(plugin, exported as PluginFactory, modulePath, system);
+  }
+  throw new TransformerLoadError(
+    `Transformer plugin "${transform}" declared in ${location.fileName} does not export a transformer as "${importName}"`,
+    location,
+  );
+}
+
+/**
+ * Extracts the transformer configuration of a plugin entry.
+ *
+ * @param plugin the plugin entry.
+ *
+ * @returns the properties of the entry that configure its transformer.
+ */
+function pluginOptions(plugin: Partial<PluginConfig>): TransformerOptions {
+  return Object.fromEntries(
+    Object.entries(plugin).filter(([property]) => !PLUGIN_PROPERTIES.has(property)),
+  );
+}
+
+type PluginFactory = (...args: any[]) => PluginResult;
+
+type PluginResult =
+  | ts.TransformerFactory<ts.SourceFile | ts.Bundle>
+  | ts.CustomTransformerFactory
+  | {
+      readonly before?: PluginResult;
+      readonly after?: PluginResult;
+      readonly afterDeclarations?: PluginResult;
+    };
+
+/**
+ * Adapts a `ttypescript`-style transformer factory to the `Transformer` API.
+ * Like with `ttypescript`, the factory is invoked once per program, and the
+ * transformer it provides is created once per transformation. Factories receive
+ * the plugin configuration with the resolved options of the transformer.
+ */
+class PluginTransformer extends Transformer {
+  /* eslint-disable @typescript-eslint/explicit-member-accessibility */
+  readonly #config: PluginConfig;
+  readonly #factory: PluginFactory;
+  readonly #modulePath: string;
+  readonly #system: ts.System;
+  readonly #results = new WeakMap<object, PluginResult>();
+  readonly #transformers = new WeakMap<
+    TransformerContext,
+    ts.Transformer<ts.Node> | ts.CustomTransformer | undefined
+  >();
+  #version?: string;
+  /* eslint-enable @typescript-eslint/explicit-member-accessibility */
+
+  /** The phase designated by the plugin configuration. */
+  public readonly phases: readonly TransformerPhase[];
+
+  protected readonly nodeValidatorFactory = undefined;
+  protected readonly nodeLifterFactory = undefined;
+
+  public constructor(
+    config: PluginConfig,
+    factory: PluginFactory,
+    modulePath: string,
+    system: ts.System,
+  ) {
+    super();
+    this.#config = config;
+    this.#factory = factory;
+    this.#modulePath = modulePath;
+    this.#system = system;
+    this.phases = [
+      config.afterDeclarations
+        ? TransformerPhase.AfterDeclarations
+        : config.after
+        ? TransformerPhase.After
+        : TransformerPhase.Before,
+    ];
+  }
+
+  /**
+   * Plugins are identified by their module, which content (and that of the
+   * modules it imports) is used as their version, and by their configuration.
+   */
+  public cacheKey(): TransformerCacheKey {
+    const { transform, import: importName = 'default' } = this.#config;
+    // Modules are only loaded once, so their content is only hashed once
+    this.#version ??= hash(...moduleVersions(this.#modulePath, this.#system));
+    return {
+      name: `${transform}#${importName}`,
+      version: this.#version,
+      configHash: hashConfiguration(this.#config),
+    };
+  }
+
+  public transform<T extends ts.Node = ts.Node>(node: T, context: TransformerContext): T {
+    if (!this.#transformers.has(context)) {
+      this.#transformers.set(context, this.#createTransformer(context));
+    }
+    const transformer = this.#transformers.get(context);
+    if (transformer == null) {
+      return node;
+    }
+    if (typeof transformer === 'function') {
+      return transformer(node) as T;
+    }
+    if (ts.isBundle(node)) {
+      return transformer.transformBundle(node) as unknown as T;
+    }
+    if (ts.isSourceFile(node)) {
+      return transformer.transformSourceFile(node) as unknown as T;
+    }
+    return node;
+  }
+
+  public visit<T extends ts.Node>(node: T): ts.VisitResult<T> {
+    return node;
+  }
+
+  /**
+   * Creates the transformer of the plugin for a transformation, invoking the
+   * plugin's factory for the program being transformed, unless it already was.
+   */
+  // eslint-disable-next-line @typescript-eslint/explicit-member-accessibility
+  #createTransformer = (
+    context: TransformerContext,
+  ): ts.Transformer<ts.Node> | ts.CustomTransformer | undefined => {
+    const key = context.program ?? context.compilerOptions;
+    if (!this.#results.has(key)) {
+      this.#results.set(key, this.#createFactory(context));
+    }
+    const result = this.#results.get(key)!;
+    // Factories may return an object with phase-specific factories, otherwise
+    // the phase is determined by the plugin configuration.
+    const factory = typeof result === 'object' ? result[context.phase] : result;
+    if (typeof factory !== 'function') {
+      return undefined;
+    }
+    return factory(context.context) as ts.Transformer<ts.Node> | ts.CustomTransformer;
+  };
+
+  // eslint-disable-next-line @typescript-eslint/explicit-member-accessibility
+  #createFactory = (context: TransformerContext): PluginResult => {
+    const config: PluginConfig = { ...this.#config, ...context.options };
+    switch (config.type ?? 'program') {
+      case 'program':
+        return this.#factory(context.program, config, { ts });
+      case 'config':
+        return this.#factory(config);
+      case 'checker':
+        if (context.typeChecker == null) {
+          throw new Error(
+            `Transformer plugin "${
+              this.#config.transform
+            }" requires a type checker, which is not available when outputs are emitted from the build information file`,
+          );
+        }
+        return this.#factory(context.typeChecker, config);
+      case 'raw':
+        return this.#factory as PluginResult;
+      case 'compilerOptions':
+        return this.#factory(context.compilerOptions, config);
+      default:
+        throw new Error(`Unsupported transformer plugin type: ${this.#config.type}`);
+    }
+  };
+}
+
+/**
+ * Identifies a module and the modules it imports: by their content, or by their
+ * package name and version for modules installed in `node_modules`.
+ *
+ * @param modulePath the path to the module.
+ * @param system     the TypeScript system to read files with.
+ *
+ * @returns the identity of each module, with paths relative to the module.
+ */
+function moduleVersions(modulePath: string, system: ts.System): string[] {
+  const versions = new Array<string>();
+  const visited = new Set<string>();
+  const visit = (fileName: string): void => {
+    const packageDir = /^(.*[\\/]node_modules[\\/](?:@[^\\/]+[\\/])?[^\\/]+)[\\/]/.exec(
+      fileName,
+    )?.[1];
+    const key = packageDir ?? fileName;
+    if (visited.has(key)) {
+      return;
+    }
+    visited.add(key);
+    if (packageDir != null) {
+      // Packages are identified by their version, which covers their own imports
+      const { name = basename(packageDir), version = '' } = JSON.parse(
+        system.readFile(join(packageDir, 'package.json')) ?? '{}',
+      );
+      versions.push(`${name}@${version}`);
+      return;
+    }
+    const text = system.readFile(fileName) ?? '';
+    versions.push(relative(dirname(modulePath), fileName).replace(/\\/g, '/'), text);
+    for (const { fileName: specifier } of ts.preProcessFile(text, true, true).importedFiles) {
+      const dependency = resolveModule(specifier, dirname(fileName));
+      if (dependency != null) {
+        visit(dependency);
+      }
+    }
+  };
+  visit(modulePath);
+  return versions;
+}
+
+/**
+ * Resolves a module imported by another one.
+ *
+ * @returns the path to the module, unless it is a built-in module or cannot be
+ *          resolved.
+ */
+function resolveModule(specifier: string, fromDirectory: string): string | undefined {
+  try {
+    const resolved = require.resolve(specifier, { paths: [fromDirectory] });
+    return isAbsolute(resolved) ? resolved : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,373 @@
+import { posix, relative, sep } from 'path';
+import * as ts from 'typescript';
+import { BuildEvent, OutputsSkippedReason, TypeScriptSolution } from './typescript-solution';
+import { version } from './version.generated';
+
+/**
+ * The formats in which build reports can be rendered.
+ */
+export const enum ReporterFormat {
+  /** Human-readable diagnostics, in the same format as `tsc`'s. */
+  Pretty = 'pretty',
+  /** A JSON document containing the `BuildReport`. */
+  Json = 'json',
+  /** A SARIF 2.1.0 log, as consumed by code scanning tools. */
+  Sarif = 'sarif',
+  /** A JUnit XML report, as consumed by test dashboards. */
+  JUnit = 'junit',
+}
+
+/**
+ * A diagnostic, as recorded in a `BuildReport`.
+ */
+export interface ReportedDiagnostic {
+  /** The project being built when the diagnostic was reported, if any. */
+  readonly project?: string;
+  /** The file the diagnostic is about, if any. */
+  readonly file?: string;
+  /** The 1-based line at which the diagnostic starts, if it has a location. */
+  readonly line?: number;
+  /** The 1-based column at which the diagnostic starts, if it has a location. */
+  readonly column?: number;
+  /** The 1-based line at which the diagnostic ends, if it has a location. */
+  readonly endLine?: number;
+  /** The 1-based column at which the diagnostic ends, if it has a location. */
+  readonly endColumn?: number;
+  /** The diagnostic code. */
+  readonly code: number;
+  /** The diagnostic category. */
+  readonly category: 'error' | 'warning' | 'suggestion' | 'message';
+  /** The diagnostic message (with chained messages on separate lines). */
+  readonly message: string;
+  /** The source of the diagnostic (for example, the name of a transformer). */
+  readonly source?: string;
+}
+
+/**
+ * The outcome of building a project, as recorded in a `BuildReport`.
+ */
+export interface ReportedProject {
+  /** The path to the project's configuration file. */
+  readonly project: string;
+  /** Whether outputs were generated or skipped. */
+  readonly outcome: 'generated' | 'skipped';
+  /** The reason why outputs were skipped, if they were. */
+  readonly reason?: OutputsSkippedReason;
+}
+
+/**
+ * A machine-readable report of a build. All paths are relative to the current
+ * directory of the system in use, with `/` as the separator.
+ */
+export interface BuildReport {
+  /** All reported diagnostics, in the order they were reported. */
+  readonly diagnostics: readonly ReportedDiagnostic[];
+  /** The outcome of each built project, in build order. */
+  readonly projects: readonly ReportedProject[];
+  /** The number of error diagnostics. */
+  readonly errorCount: number;
+  /** The number of warning diagnostics. */
+  readonly warningCount: number;
+}
+
+/**
+ * Collects a `BuildReport` from the events emitted by a `TypeScriptSolution`.
+ */
+export class BuildReportCollector {
+  /* eslint-disable @typescript-eslint/explicit-member-accessibility */
+  readonly #currentDirectory: string;
+  readonly #diagnostics = new Array<ReportedDiagnostic>();
+  readonly #projects = new Array<ReportedProject>();
+  #currentProject?: string;
+  /* eslint-enable @typescript-eslint/explicit-member-accessibility */
+
+  /**
+   * @param solution         the solution which build is to be reported on.
+   * @param currentDirectory the directory paths are reported relative to.
+   */
+  public constructor(
+    solution: TypeScriptSolution<any>,
+    currentDirectory: string = ts.sys.getCurrentDirectory(),
+  ) {
+    this.#currentDirectory = currentDirectory;
+    solution
+      .on(BuildEvent.BeforeProject, (project) => (this.#currentProject = project.project))
+      .on(BuildEvent.AfterProject, () => (this.#currentProject = undefined))
+      .on(BuildEvent.Diagnostic, (diag) => this.#diagnostics.push(this.#toReported(diag)))
+      .on(BuildEvent.OutputsGenerated, (project) =>
+        this.#projects.push({ project: this.#relative(project.project), outcome: 'generated' }),
+      )
+      .on(BuildEvent.OutputsSkipped, (project, reason) =>
+        this.#projects.push({
+          project: this.#relative(project.project),
+          outcome: 'skipped',
+          reason,
+        }),
+      );
+  }
+
+  /**
+   * The report of everything that happened since the collector was created, or
+   * last reset.
+   */
+  public get report(): BuildReport {
+    const count = (category: ReportedDiagnostic['category']) =>
+      this.#diagnostics.filter((diag) => diag.category === category).length;
+    return {
+      diagnostics: [...this.#diagnostics],
+      projects: [...this.#projects],
+      errorCount: count('error'),
+      warningCount: count('warning'),
+    };
+  }
+
+  /**
+   * Forgets everything collected so far, for example before a watch re-build.
+   */
+  public reset(): void {
+    this.#diagnostics.length = 0;
+    this.#projects.length = 0;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/explicit-member-accessibility
+  #relative = (path: string): string => {
+    return relative(this.#currentDirectory, path)
+      .split(sep)
+      .join(posix.sep);
+  };
+
+  // eslint-disable-next-line @typescript-eslint/explicit-member-accessibility
+  #toReported = (diag: ts.Diagnostic): ReportedDiagnostic => {
+    const location =
+      diag.file != null && diag.start != null
+        ? {
+            start: diag.file.getLineAndCharacterOfPosition(diag.start),
+            end: diag.file.getLineAndCharacterOfPosition(diag.start + (diag.length ?? 0)),
+          }
+        : undefined;
+    return {
+      project: this.#currentProject && this.#relative(this.#currentProject),
+      file: diag.file && this.#relative(diag.file.fileName),
+      line: location && location.start.line + 1,
+      column: location && location.start.character + 1,
+      endLine: location && location.end.line + 1,
+      endColumn: location && location.end.character + 1,
+      code: diag.code,
+      category: CATEGORIES[diag.category],
+      message: ts.flattenDiagnosticMessageText(diag.messageText, '\n'),
+      source: diag.source,
+    };
+  };
+}
+
+const CATEGORIES: { readonly [category in ts.DiagnosticCategory]: ReportedDiagnostic['category'] } =
+  {
+    [ts.DiagnosticCategory.Error]: 'error',
+    [ts.DiagnosticCategory.Warning]: 'warning',
+    [ts.DiagnosticCategory.Suggestion]: 'suggestion',
+    [ts.DiagnosticCategory.Message]: 'message',
+  };
+
+/**
+ * Renders a build report in the requested format.
+ *
+ * @param report the report to be rendered.
+ * @param format the format to render the report in.
+ *
+ * @returns the rendered report.
+ */
+export function formatBuildReport(report: BuildReport, format: ReporterFormat): string {
+  switch (format) {
+    case ReporterFormat.Pretty:
+      return formatPretty(report);
+    case ReporterFormat.Json:
+      return `${JSON.stringify(report, undefined, 2)}\n`;
+    case ReporterFormat.Sarif:
+      return `${JSON.stringify(toSarif(report), undefined, 2)}\n`;
+    case ReporterFormat.JUnit:
+      return formatJUnit(report);
+    default:
+      throw new Error(`Unsupported report format: ${format}`);
+  }
+}
+
+/**
+ * Renders a report in the same format as `tsc` (without colors).
+ */
+function formatPretty({ diagnostics, projects, errorCount, warningCount }: BuildReport): string {
+  const lines = diagnostics.map(
+    (diag) => `${diagnosticPrefix(diag)}${diag.category} TS${diag.code}: ${diag.message}`,
+  );
+  for (const { project, outcome, reason } of projects) {
+    lines.push(`${project}: outputs ${outcome}${reason != null ? ` (${reason})` : ''}`);
+  }
+  lines.push(`Found ${errorCount} error(s) and ${warningCount} warning(s).`);
+  return `${lines.join('\n')}\n`;
+}
+
+function diagnosticPrefix({ file, line, column }: ReportedDiagnostic): string {
+  if (file == null) {
+    return '';
+  }
+  return line != null ? `${file}(${line},${column}): ` : `${file}: `;
+}
+
+/**
+ * Converts a report to a SARIF 2.1.0 log. Files are located relative to the
+ * `%SRCROOT%` base, which consumers resolve to the directory paths are
+ * reported relative to (usually, the root of the repository).
+ */
+function toSarif({ diagnostics, projects, errorCount, warningCount }: BuildReport): unknown {
+  const ruleIds = Array.from(new Set(diagnostics.map(({ code }) => `TS${code}`))).sort();
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'tsc-tk',
+            version,
+            informationUri: 'https://github.com/RomainMuller/tsc-transform-kit',
+            rules: ruleIds.map((id) => ({ id })),
+          },
+        },
+        invocations: [{ executionSuccessful: errorCount === 0 }],
+        originalUriBaseIds: {
+          [SARIF_SRCROOT]: {
+            description: { text: 'The directory paths are reported relative to.' },
+          },
+        },
+        results: diagnostics.map((diag) => ({
+          ruleId: `TS${diag.code}`,
+          ruleIndex: ruleIds.indexOf(`TS${diag.code}`),
+          level: SARIF_LEVELS[diag.category],
+          message: { text: diag.message },
+          locations:
+            diag.file != null
+              ? [
+                  {
+                    physicalLocation: {
+                      artifactLocation: { uri: diag.file, uriBaseId: SARIF_SRCROOT },
+                      region:
+                        diag.line != null
+                          ? {
+                              startLine: diag.line,
+                              startColumn: diag.column,
+                              endLine: diag.endLine,
+                              endColumn: diag.endColumn,
+                            }
+                          : undefined,
+                    },
+                  },
+                ]
+              : undefined,
+          properties: { project: diag.project, source: diag.source },
+        })),
+        properties: { projects, errorCount, warningCount },
+      },
+    ],
+  };
+}
+
+/**
+ * The URI base files are located relative to in SARIF logs, which is the
+ * conventional base of source files.
+ */
+const SARIF_SRCROOT = '%SRCROOT%';
+
+const SARIF_LEVELS: { readonly [category in ReportedDiagnostic['category']]: string } = {
+  error: 'error',
+  warning: 'warning',
+  suggestion: 'note',
+  message: 'note',
+};
+
+/**
+ * Renders a report as JUnit XML. Each project is a test suite, in which each
+ * file with diagnostics is a test case (failed if it has errors), and the
+ * project's outcome is an additional "outputs" test case (failed if outputs
+ * were skipped). Diagnostics reported outside of any project are in a
+ * "tsc-tk" test suite.
+ */
+function formatJUnit(report: BuildReport): string {
+  const suites = new Map<string, Map<string, ReportedDiagnostic[]>>();
+  const suite = (name: string) => {
+    let result = suites.get(name);
+    if (result == null) {
+      result = new Map();
+      suites.set(name, result);
+    }
+    return result;
+  };
+  for (const { project } of report.projects) {
+    suite(project);
+  }
+  for (const diag of report.diagnostics) {
+    const cases = suite(diag.project ?? 'tsc-tk');
+    const file = diag.file ?? '<global>';
+    cases.set(file, [...(cases.get(file) ?? []), diag]);
+  }
+
+  let totalTests = 0;
+  let totalFailures = 0;
+  const lines = new Array<string>();
+  for (const [name, cases] of suites) {
+    const testCases = new Array<string>();
+    let failures = 0;
+    for (const [file, diagnostics] of cases) {
+      const errors = diagnostics.filter(({ category }) => category === 'error');
+      const text = escapeXml(
+        diagnostics
+          .map(
+            (diag) => `${diagnosticPrefix(diag)}${diag.category} TS${diag.code}: ${diag.message}`,
+          )
+          .join('\n'),
+      );
+      testCases.push(
+        errors.length > 0
+          ? `    <testcase classname="${escapeXml(name)}" name="${escapeXml(file)}">\n` +
+              `      <failure message="${errors.length} error(s)">${text}</failure>\n` +
+              '    </testcase>'
+          : `    <testcase classname="${escapeXml(name)}" name="${escapeXml(file)}">\n` +
+              `      <system-out>${text}</system-out>\n` +
+              '    </testcase>',
+      );
+      failures += errors.length > 0 ? 1 : 0;
+    }
+    for (const { outcome, reason } of report.projects.filter(({ project }) => project === name)) {
+      testCases.push(
+        outcome === 'skipped'
+          ? `    <testcase classname="${escapeXml(name)}" name="outputs">\n` +
+              `      <failure message="Outputs skipped: ${reason}"/>\n` +
+              '    </testcase>'
+          : `    <testcase classname="${escapeXml(name)}" name="outputs"/>`,
+      );
+      failures += outcome === 'skipped' ? 1 : 0;
+    }
+    totalTests += testCases.length;
+    totalFailures += failures;
+    lines.push(
+      `  <testsuite name="${escapeXml(name)}" tests="${testCases.length}" failures="${failures}">`,
+      ...testCases,
+      '  </testsuite>',
+    );
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="tsc-tk" tests="${totalTests}" failures="${totalFailures}">`,
+    ...lines,
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
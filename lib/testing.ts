@@ -0,0 +1,446 @@
+import { posix } from 'path';
+import * as ts from 'typescript';
+import { TransformerPhase } from './transformer';
+import { Transformers } from './transformers';
+
+/**
+ * Options for `transformSource`.
+ */
+export interface TransformSourceOptions {
+  /**
+   * The transformers to apply.
+   *
+   * @default - no transformers
+   */
+  readonly transformers?: Transformers;
+
+  /**
+   * The phases in which transformers are to be run. Transformers registered for
+   * other phases are ignored.
+   *
+   * @default - all phases
+   */
+  readonly phases?: readonly TransformerPhase[];
+
+  /**
+   * The compiler options to use. These are merged on top of the defaults,
+   * which are `{ declaration: true, module: CommonJS, strict: true, target: ES2019 }`.
+   */
+  readonly compilerOptions?: ts.CompilerOptions;
+
+  /**
+   * The name of the file holding the source text, when a single source text is
+   * provided.
+   *
+   * @default 'index.ts'
+   */
+  readonly fileName?: string;
+
+  /**
+   * The virtual directory in which files are located.
+   *
+   * @default '/'
+   */
+  readonly currentDirectory?: string;
+
+  /**
+   * The virtual path to the configuration file (as seen by transformers).
+   *
+   * @default '<currentDirectory>/tsconfig.json'
+   */
+  readonly configFilePath?: string;
+
+  /**
+   * Whether the emitted source maps are verified. This enables `sourceMap`,
+   * and reports an error diagnostic (with code `SOURCE_MAP_MISMATCH_CODE`) for
+   * each mapping that points outside of its source file, and for each source
+   * position that is mapped when emitting without transformers, but no longer
+   * is once transformers have run. The latter typically happens when nodes are
+   * replaced without carrying over their location (see
+   * `TransformerContext#replaceNode`), which makes breakpoints drift. Nodes that
+   * are removed by transformers are reported too.
+   *
+   * @default false
+   */
+  readonly verifySourceMaps?: boolean;
+}
+
+/**
+ * The code of diagnostics reporting source map mismatches, when using the
+ * `verifySourceMaps` option of `transformSource`.
+ */
+export const SOURCE_MAP_MISMATCH_CODE = 19002;
+
+/**
+ * The result of `transformSource`.
+ */
+export interface TransformSourceResult {
+  /**
+   * All emitted files (including those registered by transformers using
+   * `ProjectContext#addOutputFile`), keyed by their path relative to the
+   * virtual directory.
+   */
+  readonly outputs: { readonly [path: string]: string };
+
+  /**
+   * The JavaScript emitted for the entry file (the single source text, or the
+   * first of the provided files).
+   */
+  readonly js?: string;
+
+  /**
+   * The declarations emitted for the entry file.
+   */
+  readonly declaration?: string;
+
+  /**
+   * The source map emitted for the entry file's JavaScript.
+   */
+  readonly sourceMap?: string;
+
+  /**
+   * All diagnostics produced by the compilation, including those reported by
+   * transformers.
+   */
+  readonly diagnostics: readonly ts.Diagnostic[];
+}
+
+/**
+ * Compiles source text in memory, applying the provided transformers, and
+ * returns the emitted files and diagnostics. This does not write anything to
+ * the file system, and is intended for unit-testing transformers.
+ *
+ * @param source  the source text of the entry file, or a map of virtual files
+ *                (keyed by path relative to `currentDirectory`).
+ * @param options options for the transformation.
+ *
+ * @returns the transformation result.
+ */
+export function transformSource(
+  source: string | { readonly [path: string]: string },
+  {
+    transformers = new Transformers(),
+    phases,
+    compilerOptions,
+    fileName = 'index.ts',
+    currentDirectory = '/',
+    configFilePath = posix.join(currentDirectory, 'tsconfig.json'),
+    verifySourceMaps = false,
+  }: TransformSourceOptions = {},
+): TransformSourceResult {
+  const files = new Map<string, string>(
+    Object.entries(typeof source === 'string' ? { [fileName]: source } : source).map(
+      ([path, text]) => [posix.resolve(currentDirectory, path), text],
+    ),
+  );
+  const [entryFile] = files.keys();
+  const options: ts.CompilerOptions = {
+    declaration: true,
+    module: ts.ModuleKind.CommonJS,
+    strict: true,
+    target: ts.ScriptTarget.ES2019,
+    ...compilerOptions,
+    ...(verifySourceMaps ? { sourceMap: true, inlineSourceMap: false } : {}),
+    noEmit: false,
+  };
+  // Relative paths would otherwise be resolved from the process' working directory
+  for (const key of PATH_OPTIONS) {
+    const value = options[key];
+    if (typeof value === 'string') {
+      options[key] = posix.resolve(currentDirectory, value);
+    }
+  }
+
+  const outputs: { [path: string]: string } = {};
+  let js: string | undefined;
+  let declaration: string | undefined;
+  let sourceMap: string | undefined;
+
+  const host = createVirtualCompilerHost(files, currentDirectory);
+  host.writeFile = (path, data, _writeByteOrderMark, _onError, sourceFiles) => {
+    outputs[posix.relative(currentDirectory, path)] = data;
+    if (!sourceFiles?.some((sourceFile) => sourceFile.fileName === entryFile)) {
+      return;
+    }
+    if (path.endsWith('.d.ts')) {
+      declaration = data;
+    } else if (/\.[cm]?jsx?$/.test(path)) {
+      js = data;
+    } else if (/\.[cm]?jsx?\.map$/.test(path)) {
+      sourceMap = data;
+    }
+  };
+
+  const program = ts.createProgram({ rootNames: Array.from(files.keys()), options, host });
+  const diagnostics = [...ts.getPreEmitDiagnostics(program)];
+  const report = (diag: ts.Diagnostic) => diagnostics.push(diag);
+  const customTransformers = transformers.forProgram(program, configFilePath, {
+    reportDiagnostic: report,
+    reportFailure: report,
+    addOutputFile: (path, data) => {
+      outputs[posix.relative(currentDirectory, path)] = data;
+    },
+  });
+  const emitResult = program.emit(undefined, undefined, undefined, false, {
+    before: inPhase(TransformerPhase.Before, customTransformers.before),
+    after: inPhase(TransformerPhase.After, customTransformers.after),
+    afterDeclarations: inPhase(
+      TransformerPhase.AfterDeclarations,
+      customTransformers.afterDeclarations,
+    ),
+  });
+  diagnostics.push(...emitResult.diagnostics);
+
+  if (verifySourceMaps) {
+    // The positions mapped without transformers are those that should remain mapped
+    const baseline = new Map<string, string>();
+    program.emit(undefined, (path, data) => baseline.set(path, data));
+    for (const [path, data] of baseline) {
+      if (path.endsWith('.map')) {
+        const output = outputs[posix.relative(currentDirectory, path)];
+        diagnostics.push(...verifySourceMap(path, output, data, program));
+      }
+    }
+  }
+
+  return { outputs, js, declaration, sourceMap, diagnostics };
+
+  function inPhase<T>(phase: TransformerPhase, factories: T[] | undefined): T[] | undefined {
+    return phases == null || phases.includes(phase) ? factories : undefined;
+  }
+}
+
+/**
+ * Verifies a source map emitted with transformers against the one emitted
+ * without transformers.
+ *
+ * @param path     the path to the source map.
+ * @param actual   the source map emitted with transformers, if any.
+ * @param baseline the source map emitted without transformers.
+ * @param program  the program that was emitted.
+ *
+ * @returns diagnostics describing the mismatches.
+ */
+function verifySourceMap(
+  path: string,
+  actual: string | undefined,
+  baseline: string,
+  program: ts.Program,
+): ts.Diagnostic[] {
+  const mapName = posix.basename(path);
+  const diagnostics = new Array<ts.Diagnostic>();
+  const report = (file: ts.SourceFile | undefined, start: number | undefined, message: string) =>
+    diagnostics.push({
+      category: ts.DiagnosticCategory.Error,
+      code: SOURCE_MAP_MISMATCH_CODE,
+      file,
+      start,
+      length: start != null ? 0 : undefined,
+      messageText: message,
+    });
+
+  const actualPositions = new Set<string>();
+  for (const { sourceFile, line, character } of sourceMapPositions(path, actual ?? '{}')) {
+    const lineStarts =
+      sourceFile != null ? program.getSourceFile(sourceFile)?.getLineStarts() : undefined;
+    const lineLength =
+      lineStarts != null && line < lineStarts.length
+        ? (lineStarts[line + 1] ?? Number.POSITIVE_INFINITY) - lineStarts[line]
+        : undefined;
+    if (lineLength == null || character > lineLength) {
+      report(
+        undefined,
+        undefined,
+        `${mapName} maps to ${sourceFile}:${line + 1}:${character + 1}, which does not exist`,
+      );
+    }
+    actualPositions.add(`${sourceFile}:${line}:${character}`);
+  }
+
+  for (const { sourceFile, line, character } of sourceMapPositions(path, baseline)) {
+    const file = sourceFile != null ? program.getSourceFile(sourceFile) : undefined;
+    if (file == null || actualPositions.has(`${sourceFile}:${line}:${character}`)) {
+      continue;
+    }
+    const start = file.getPositionOfLineAndCharacter(line, character);
+    const [token] = /^[\w$]+|^\S/.exec(file.text.slice(start)) ?? [''];
+    report(
+      file,
+      start,
+      `${posix.basename(file.fileName)}:${line + 1}:${
+        character + 1
+      } ("${token}") is no longer mapped in ${mapName}`,
+    );
+  }
+  return diagnostics;
+}
+
+/**
+ * A source position referenced by a source map.
+ */
+interface SourceMapPosition {
+  /** The absolute path to the source file, if the mapping has one. */
+  readonly sourceFile?: string;
+  /** The zero-based line in the source file. */
+  readonly line: number;
+  /** The zero-based character in the line. */
+  readonly character: number;
+}
+
+/**
+ * Decodes the source positions referenced by a source map.
+ *
+ * @param path the path to the source map.
+ * @param text the content of the source map.
+ *
+ * @returns the source positions of all mappings, in order.
+ */
+function* sourceMapPositions(path: string, text: string): Generator<SourceMapPosition> {
+  const {
+    mappings = '',
+    sources = [],
+    sourceRoot = '',
+  } = JSON.parse(text) as {
+    readonly mappings?: string;
+    readonly sources?: readonly string[];
+    readonly sourceRoot?: string;
+  };
+  const resolvedSources = sources.map((source) =>
+    posix.resolve(posix.dirname(path), sourceRoot, source),
+  );
+  // Source index, line and character are relative to the previous segment's
+  let [source, line, character] = [0, 0, 0];
+  for (const segment of mappings.split(/[;,]/)) {
+    const fields = decodeVlq(segment);
+    if (fields.length < 4) {
+      continue;
+    }
+    source += fields[1];
+    line += fields[2];
+    character += fields[3];
+    yield { sourceFile: resolvedSources[source], line, character };
+  }
+}
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Decodes a source map segment, made of base64 VLQ-encoded numbers.
+ */
+function decodeVlq(segment: string): number[] {
+  const values = new Array<number>();
+  let value = 0;
+  let shift = 0;
+  for (const char of segment) {
+    const digit = BASE64.indexOf(char);
+    value += (digit & 0b11111) << shift;
+    if ((digit & 0b100000) !== 0) {
+      shift += 5;
+      continue;
+    }
+    values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+    value = 0;
+    shift = 0;
+  }
+  return values;
+}
+
+/**
+ * Compiler options which values are paths.
+ */
+const PATH_OPTIONS = ['baseUrl', 'declarationDir', 'outDir', 'outFile', 'rootDir'] as const;
+
+/**
+ * Renders a transformation result as a stable, human-readable string, suitable
+ * for snapshot testing.
+ *
+ * @param result the result to render.
+ *
+ * @returns the rendered result.
+ */
+export function formatTransformResult(result: TransformSourceResult): string {
+  const sections = Object.keys(result.outputs)
+    .sort()
+    .map((path) => `// ${path}\n${result.outputs[path]}`);
+  if (result.diagnostics.length > 0) {
+    const diagnostics = ts.formatDiagnostics(result.diagnostics, {
+      getCanonicalFileName: (fileName) => fileName,
+      getCurrentDirectory: () => '/',
+      getNewLine: () => '\n',
+    });
+    sections.push(`// diagnostics\n${diagnostics}`);
+  }
+  return sections.join('\n');
+}
+
+/**
+ * A jest snapshot serializer for transformation results. Register it with
+ * `expect.addSnapshotSerializer(transformResultSerializer)`, then use
+ * `expect(transformSource(...)).toMatchSnapshot()`.
+ */
+export const transformResultSerializer = {
+  test(value: unknown): boolean {
+    return (
+      value != null &&
+      typeof value === 'object' &&
+      'outputs' in (value as object) &&
+      Array.isArray((value as TransformSourceResult).diagnostics)
+    );
+  },
+  print(value: unknown): string {
+    return formatTransformResult(value as TransformSourceResult);
+  },
+};
+
+/**
+ * Parsed default library files, which are shared across compilations, as
+ * parsing them is expensive.
+ */
+const defaultLibraryCache = new Map<string, ts.SourceFile>();
+
+/**
+ * Creates a compiler host that reads source files from memory. The default
+ * library files are read from the TypeScript installation.
+ *
+ * @param files            the virtual files, keyed by absolute path.
+ * @param currentDirectory the virtual current directory.
+ *
+ * @returns the compiler host.
+ */
+function createVirtualCompilerHost(
+  files: ReadonlyMap<string, string>,
+  currentDirectory: string,
+): ts.CompilerHost {
+  const libraryDirectory = posix.dirname(ts.getDefaultLibFilePath({}));
+  const isLibraryFile = (fileName: string) => posix.dirname(fileName) === libraryDirectory;
+  const readFile = (fileName: string) =>
+    files.get(fileName) ?? (isLibraryFile(fileName) ? ts.sys.readFile(fileName) : undefined);
+
+  return {
+    fileExists: (fileName) => readFile(fileName) != null,
+    getCanonicalFileName: (fileName) => fileName,
+    getCurrentDirectory: () => currentDirectory,
+    getDefaultLibFileName: (options) => ts.getDefaultLibFilePath(options),
+    getDirectories: () => [],
+    getNewLine: () => '\n',
+    getSourceFile: (fileName, languageVersion) => {
+      const cacheKey = `${languageVersion}:${fileName}`;
+      const cached = defaultLibraryCache.get(cacheKey);
+      if (cached != null) {
+        return cached;
+      }
+      const text = readFile(fileName);
+      if (text == null) {
+        return undefined;
+      }
+      const sourceFile = ts.createSourceFile(fileName, text, languageVersion);
+      if (isLibraryFile(fileName)) {
+        defaultLibraryCache.set(cacheKey, sourceFile);
+      }
+      return sourceFile;
+    },
+    readFile,
+    useCaseSensitiveFileNames: () => true,
+    writeFile: () => undefined,
+  };
+}
@@ -0,0 +1,628 @@
+import { createHash, randomBytes } from 'crypto';
+import { renameSync } from 'fs';
+import { basename, dirname, isAbsolute, join, relative, resolve } from 'path';
+import * as ts from 'typescript';
+import { parseConfiguration } from './configuration';
+import { ProjectGraph, projectGraph } from './parallel';
+import { TransformerCacheKey } from './transformer';
+import { Transformers } from './transformers';
+
+/**
+ * Hashes the configuration of a transformer, for use as the `configHash` of
+ * its cache key. Object properties are sorted, so the hash does not depend on
+ * the order in which they were declared.
+ *
+ * @param configuration the configuration to hash (must be JSON-serializable).
+ *
+ * @returns the hash of the configuration, or `''` if it is `undefined`.
+ */
+export function hashConfiguration(configuration: unknown): string {
+  return configuration === undefined ? '' : hash(stableStringify(configuration));
+}
+
+/**
+ * Hashes a sequence of strings.
+ *
+ * @internal
+ */
+export function hash(...parts: readonly string[]): string {
+  const result = createHash('sha256');
+  for (const part of parts) {
+    result.update(part).update('\0');
+  }
+  return result.digest('hex');
+}
+
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, item) =>
+    item != null && typeof item === 'object' && !Array.isArray(item)
+      ? Object.fromEntries(
+          Object.entries(item).sort(([left], [right]) =>
+            left < right ? -1 : left > right ? 1 : 0,
+          ),
+        )
+      : item,
+  );
+}
+
+/**
+ * Where the outputs of a project are stored in the output cache.
+ *
+ * @internal
+ */
+export interface OutputCacheEntry {
+  /** The configuration file of the project. */
+  readonly configFilePath: string;
+  /** The path to the cache entry file. */
+  readonly path: string;
+  /** The directory of the project, which output paths are relative to. */
+  readonly projectDir: string;
+  /** Whether the project is about to be emitted completely. */
+  readonly complete: boolean;
+}
+
+/**
+ * A file emitted for a project.
+ *
+ * @internal
+ */
+export interface EmittedFile {
+  readonly fileName: string;
+  readonly data: string;
+  readonly writeByteOrderMark: boolean;
+  /** Whether the file was registered by a transformer (rather than emitted by TypeScript). */
+  readonly additional?: boolean;
+}
+
+/**
+ * The files written for a project.
+ *
+ * @internal
+ */
+export interface WrittenOutputs {
+  /**
+   * The files written that TypeScript does not know about (files registered by
+   * transformers, and renamed outputs).
+   */
+  readonly extraFiles: readonly string[];
+  /**
+   * Where each output emitted by TypeScript was written, by the path it was
+   * emitted to (`undefined` for suppressed outputs).
+   */
+  readonly destinations: ReadonlyMap<string, string | undefined>;
+}
+
+/**
+ * Keeps track of the transformers used to emit the projects of a solution.
+ *
+ * The cache keys of transformers are recorded for each project, next to its
+ * `.tsbuildinfo` file (or in its `outDir`). When they change, the project is
+ * rebuilt from scratch (without using its previous build information), so all
+ * of its outputs are re-emitted. The files written for the project that
+ * TypeScript does not know about (files registered by transformers, or renamed
+ * outputs) are recorded as well, so they can be cleaned. So are the outputs
+ * that were renamed or suppressed: TypeScript finds renamed outputs where they
+ * were written, and suppressed outputs as existing (but unreadable) files as
+ * old as the record, so that projects remain up-to-date.
+ *
+ * When an output cache directory is configured, the outputs of projects that
+ * were fully emitted are also stored there, keyed by a hash of the project's
+ * inputs, compiler options, references and transformers. Later builds (for
+ * example, on other machines) restore those outputs instead of running the
+ * transformers again. When the cached outputs include build information, the
+ * program of the project is created from it, so that TypeScript neither checks
+ * nor emits the project again.
+ *
+ * @internal
+ */
+export class TransformerCache {
+  /* eslint-disable @typescript-eslint/explicit-member-accessibility */
+  readonly #system: ts.System;
+  readonly #transformers: Transformers;
+  readonly #outputCacheDirectory?: string;
+  readonly #outputsEntries = new Map<string, OutputCacheEntry>();
+  /** Projects which must be rebuilt as the declarations of a reference were restored. */
+  readonly #outdated = new Set<string>();
+  #projects?: Map<string, ProjectCacheState>;
+  #graph?: ProjectGraph;
+  /* eslint-enable @typescript-eslint/explicit-member-accessibility */
+
+  /**
+   * @param system               the TypeScript system in use.
+   * @param transformers         the transformers in use.
+   * @param outputCacheDirectory the directory in which outputs are cached, if any.
+   */
+  public constructor(system: ts.System, transformers: Transformers, outputCacheDirectory?: string) {
+    this.#system = system;
+    this.#transformers = transformers;
+    this.#outputCacheDirectory =
+      outputCacheDirectory && resolve(system.getCurrentDirectory(), outputCacheDirectory);
+  }
+
+  /**
+   * Makes a solution builder host rebuild projects which transformers changed
+   * from scratch: their configuration file appears to be newer than any of
+   * their outputs, and their build information cannot be read. Projects which
+   * outputs are cached are created from the build information of the cached
+   * outputs.
+   *
+   * @param host      the host to be modified.
+   * @param rootNames the root names of the solution.
+   */
+  public wrapHost<T extends ts.BuilderProgram>(
+    host: ts.SolutionBuilderHost<T>,
+    rootNames: readonly string[],
+  ): void {
+    const { createProgram, fileExists, getModifiedTime, readFile } = host;
+    const isStale = (fileName: string, key: 'configFilePath' | 'buildInfoPath') => {
+      const path = this.#resolve(fileName);
+      for (const state of this.#projectStates(rootNames).values()) {
+        if (state.stale && state[key] === path) {
+          return true;
+        }
+      }
+      return false;
+    };
+    // Renamed outputs are found where they were written, and suppressed outputs
+    // exist (but cannot be read) as of when they were suppressed.
+    const redirect = (fileName: string) => {
+      const path = this.#resolve(fileName);
+      for (const { redirects, recordPath } of this.#projectStates(rootNames).values()) {
+        if (redirects.has(path)) {
+          const destination = redirects.get(path);
+          return destination != null
+            ? { path: destination, suppressed: false }
+            : { path: recordPath!, suppressed: true };
+        }
+      }
+      return { path: fileName, suppressed: false };
+    };
+    host.fileExists = (fileName) => fileExists(redirect(fileName).path);
+    host.getModifiedTime = (fileName) =>
+      isStale(fileName, 'configFilePath') || this.#outdated.has(this.#resolve(fileName))
+        ? FAR_FUTURE
+        : getModifiedTime(redirect(fileName).path);
+    host.readFile = (fileName, encoding) => {
+      if (isStale(fileName, 'buildInfoPath')) {
+        return undefined;
+      }
+      const { path, suppressed } = redirect(fileName);
+      return suppressed ? undefined : readFile(path, encoding);
+    };
+    if (this.#outputCacheDirectory == null) {
+      return;
+    }
+    host.createProgram = (rootNames, options, compilerHost, oldProgram, ...rest) => {
+      const builderProgram = createProgram(rootNames, options, compilerHost, oldProgram, ...rest);
+      const configFilePath = options?.configFilePath;
+      if (typeof configFilePath !== 'string' || compilerHost == null) {
+        return builderProgram;
+      }
+      const entry = this.#outputsEntry(configFilePath, builderProgram.getProgram());
+      this.#outputsEntries.set(entry.configFilePath, entry);
+      const buildInfoPath = ts.getTsBuildInfoEmitOutputFilePath(options!);
+      const buildInfo = buildInfoPath
+        ? this.lookupOutputs(entry)?.find(
+            ({ fileName }) => fileName === this.#resolve(buildInfoPath),
+          )
+        : undefined;
+      if (buildInfo == null) {
+        return builderProgram;
+      }
+      // The program is created again, as if it had been emitted with the cached
+      // outputs: TypeScript then knows nothing needs to be checked nor emitted.
+      const cachedProgram = ts.readBuilderProgram(options!, {
+        useCaseSensitiveFileNames: () => compilerHost.useCaseSensitiveFileNames(),
+        getCurrentDirectory: () => compilerHost.getCurrentDirectory(),
+        readFile: (fileName) =>
+          this.#resolve(fileName) === buildInfo.fileName ? buildInfo.data : undefined,
+      });
+      return cachedProgram != null
+        ? createProgram(rootNames, options, compilerHost, cachedProgram as unknown as T, ...rest)
+        : builderProgram;
+    };
+  }
+
+  /**
+   * Forgets the state of all projects, which is re-evaluated when needed. This
+   * must be called before each build.
+   */
+  public reset(): void {
+    this.#projects = undefined;
+    this.#graph = undefined;
+    this.#outputsEntries.clear();
+    this.#outdated.clear();
+  }
+
+  /**
+   * Records the cache keys of the transformers a project was emitted with, the
+   * files written for it that TypeScript does not know about, and the outputs
+   * that were renamed or suppressed. What was recorded by previous builds is
+   * kept, as long as the files still exist and the outputs were not emitted
+   * again.
+   *
+   * @param configFilePath the configuration file of the project.
+   * @param written        the files written for the project.
+   */
+  public recordKeys(
+    configFilePath: string,
+    { extraFiles, destinations }: WrittenOutputs = { extraFiles: [], destinations: new Map() },
+  ): void {
+    let state = this.#projectState(configFilePath);
+    if (state.recordPath != null) {
+      const recordDir = dirname(state.recordPath);
+      const outputs = new Set(
+        (readRecord(state.recordPath, this.#system).outputs ?? [])
+          .map((output) => resolve(recordDir, output))
+          .filter((output) => this.#system.fileExists(output)),
+      );
+      for (const extraFile of extraFiles) {
+        outputs.add(this.#resolve(extraFile));
+      }
+      const redirects = new Map(state.redirects);
+      for (const [original, destination] of destinations) {
+        const path = this.#resolve(original);
+        if (destination != null && this.#resolve(destination) === path) {
+          redirects.delete(path);
+        } else {
+          redirects.set(path, destination && this.#resolve(destination));
+        }
+      }
+      if (
+        state.keys.length > 0 ||
+        outputs.size > 0 ||
+        redirects.size > 0 ||
+        this.#system.fileExists(state.recordPath)
+      ) {
+        const record: KeysRecord = {
+          transformers: state.keys,
+          outputs:
+            outputs.size > 0
+              ? Array.from(outputs, (output) => relative(recordDir, output)).sort()
+              : undefined,
+          redirects:
+            redirects.size > 0
+              ? Object.fromEntries(
+                  Array.from(redirects.keys())
+                    .sort()
+                    .map((original) => {
+                      const destination = redirects.get(original);
+                      return [
+                        relative(recordDir, original),
+                        destination != null ? relative(recordDir, destination) : null,
+                      ];
+                    }),
+                )
+              : undefined,
+        };
+        this.#system.writeFile(state.recordPath, `${JSON.stringify(record, undefined, 2)}\n`);
+      }
+      state = { ...state, redirects };
+    }
+    this.#projects?.set(state.configFilePath, { ...state, stale: false });
+    this.#outdated.delete(state.configFilePath);
+  }
+
+  /**
+   * Makes the projects that reference a project be rebuilt, as declarations
+   * restored from the output cache changed, but TypeScript does not know it.
+   *
+   * @param configFilePath the configuration file of the project.
+   */
+  public outdateReferencingProjects(configFilePath: string): void {
+    const path = this.#resolve(configFilePath);
+    for (const [project, references] of this.#graph?.references ?? []) {
+      if (references.includes(path)) {
+        this.#outdated.add(project);
+      }
+    }
+  }
+
+  /**
+   * Lists the existing files of a project that only this cache knows about:
+   * the files recorded by `recordKeys`, and the record itself. Those must be
+   * deleted when the project is cleaned.
+   *
+   * @param configFilePath the configuration file of the project.
+   *
+   * @returns the paths to the files.
+   */
+  public recordedFiles(configFilePath: string): string[] {
+    const { recordPath } = this.#projectState(configFilePath);
+    if (recordPath == null || !this.#system.fileExists(recordPath)) {
+      return [];
+    }
+    const recordDir = dirname(recordPath);
+    return [
+      ...(readRecord(recordPath, this.#system).outputs ?? [])
+        .map((output) => resolve(recordDir, output))
+        .filter((output) => this.#system.fileExists(output)),
+      recordPath,
+    ];
+  }
+
+  /**
+   * Obtains where the outputs of a project are stored in the output cache, as
+   * determined when its program is created.
+   *
+   * @param project the project about to be emitted.
+   *
+   * @returns the output cache entry of the project, if outputs are cached.
+   */
+  public outputsEntry(
+    project: ts.InvalidatedProject<ts.BuilderProgram>,
+  ): OutputCacheEntry | undefined {
+    // Makes sure the program of the project is created
+    if (project.kind !== ts.InvalidatedProjectKind.Build || project.getProgram() == null) {
+      return undefined;
+    }
+    return this.#outputsEntries.get(this.#resolve(project.project));
+  }
+
+  /**
+   * Looks up the outputs of a project in the output cache.
+   *
+   * @param entry the output cache entry of the project.
+   *
+   * @returns the cached outputs, if any (corrupted entries are ignored).
+   */
+  public lookupOutputs({ path, projectDir }: OutputCacheEntry): EmittedFile[] | undefined {
+    const text = this.#system.readFile(path);
+    if (text == null) {
+      return undefined;
+    }
+    let entry: CacheEntry;
+    try {
+      entry = JSON.parse(text);
+    } catch {
+      // A corrupted entry is as good as no entry
+      return undefined;
+    }
+    if (!Array.isArray(entry?.outputs)) {
+      return undefined;
+    }
+    return entry.outputs.map((output) => ({
+      fileName: resolve(projectDir, output.path),
+      data: output.data,
+      writeByteOrderMark: output.writeByteOrderMark,
+      additional: output.additional,
+    }));
+  }
+
+  /**
+   * Stores the outputs of a project in the output cache, provided they are all
+   * of the project's outputs (and not only those of the files that changed).
+   *
+   * @param entry   the output cache entry of the project.
+   * @param outputs the outputs of the project.
+   */
+  public storeOutputs(
+    { path, projectDir, complete }: OutputCacheEntry,
+    outputs: readonly EmittedFile[],
+  ): void {
+    if (!complete) {
+      return;
+    }
+    const content: CacheEntry = {
+      outputs: outputs.map(({ fileName, data, writeByteOrderMark, additional }) => ({
+        path: relative(projectDir, this.#resolve(fileName)),
+        data,
+        writeByteOrderMark,
+        additional,
+      })),
+    };
+    const data = JSON.stringify(content);
+    if (this.#system !== ts.sys) {
+      this.#system.writeFile(path, data);
+      return;
+    }
+    // Entries are written to a temporary file, then renamed, so that concurrent
+    // builds (such as parallel workers) never read an incomplete entry
+    const temporaryPath = `${path}.${randomBytes(8).toString('hex')}.tmp`;
+    this.#system.writeFile(temporaryPath, data);
+    renameSync(temporaryPath, path);
+  }
+
+  /**
+   * Determines where the outputs of a project are stored in the output cache.
+   * The key covers everything the outputs depend on: the transformers, the
+   * resolved compiler options (including those from extended configurations),
+   * the options of referenced projects (and their prepended outputs), and the
+   * source files. Paths are made portable, so the key does not depend on where
+   * the project (or its dependencies) is installed.
+   */
+  // eslint-disable-next-line @typescript-eslint/explicit-member-accessibility
+  #outputsEntry = (project: string, program: ts.Program): OutputCacheEntry => {
+    const configFilePath = this.#resolve(project);
+    const projectDir = dirname(configFilePath);
+    const portable = (path: string) => portablePath(projectDir, path);
+    const references = program.getProjectReferences() ?? [];
+    const key = hash(
+      ts.version,
+      stableStringify(this.#projectState(configFilePath).keys),
+      portableOptions(program.getCompilerOptions(), portable),
+      ...(program.getResolvedProjectReferences() ?? []).flatMap((ref, index) => {
+        if (ref == null) {
+          return [];
+        }
+        const { outFile } = ref.commandLine.options;
+        return [
+          portable(ref.sourceFile.fileName),
+          portableOptions(ref.commandLine.options, portable),
+          // Prepended outputs are part of the outputs of the project
+          references[index]?.prepend && outFile != null ? this.#system.readFile(outFile) ?? '' : '',
+        ];
+      }),
+      ...program.getSourceFiles().flatMap(({ fileName, text }) => [portable(fileName), text]),
+    );
+    return {
+      configFilePath,
+      path: join(this.#outputCacheDirectory!, `${key}.json`),
+      projectDir,
+      complete: this.#isCompleteEmit(configFilePath),
+    };
+  };
+
+  /**
+   * Determines whether a project is about to be emitted completely, rather
+   * than incrementally.
+   */
+  // eslint-disable-next-line @typescript-eslint/explicit-member-accessibility
+  #isCompleteEmit = (configFilePath: string): boolean => {
+    const { stale, buildInfoPath } = this.#projectState(configFilePath);
+    return stale || buildInfoPath == null || !this.#system.fileExists(buildInfoPath);
+  };
+
+  // eslint-disable-next-line @typescript-eslint/explicit-member-accessibility
+  #projectStates = (rootNames: readonly string[]): ReadonlyMap<string, ProjectCacheState> => {
+    if (this.#projects == null) {
+      this.#projects = new Map();
+      this.#graph = projectGraph(rootNames, this.#system);
+      for (const project of this.#graph?.order ?? []) {
+        this.#projectState(project);
+      }
+    }
+    return this.#projects;
+  };
+
+  // eslint-disable-next-line @typescript-eslint/explicit-member-accessibility
+  #projectState = (project: string): ProjectCacheState => {
+    const configFilePath = this.#resolve(project);
+    let state = this.#projects?.get(configFilePath);
+    if (state == null) {
+      const options = parseConfiguration(configFilePath, this.#system)?.options ?? {};
+      const keys = this.#transformers.cacheKeys(configFilePath, options, this.#system);
+      const buildInfoPath = ts.getTsBuildInfoEmitOutputFilePath(options);
+      const recordPath = keysRecordPath(configFilePath, options);
+      const record = recordPath != null ? readRecord(recordPath, this.#system) : undefined;
+      const recordDir = recordPath != null ? dirname(recordPath) : '';
+      state = {
+        configFilePath,
+        keys,
+        buildInfoPath: buildInfoPath && this.#resolve(buildInfoPath),
+        recordPath,
+        redirects: new Map(
+          Object.entries(record?.redirects ?? {}).map(([original, destination]) => [
+            resolve(recordDir, original),
+            destination != null ? resolve(recordDir, destination) : undefined,
+          ]),
+        ),
+        stale:
+          recordPath != null && stableStringify(record?.transformers) !== stableStringify(keys),
+      };
+      this.#projects ??= new Map();
+      this.#projects.set(configFilePath, state);
+    }
+    return state;
+  };
+
+  // eslint-disable-next-line @typescript-eslint/explicit-member-accessibility
+  #resolve = (path: string): string => {
+    return resolve(this.#system.getCurrentDirectory(), path);
+  };
+}
+
+/**
+ * A modification time that is more recent than that of any file.
+ */
+const FAR_FUTURE = new Date(8_640_000_000_000_000);
+
+interface ProjectCacheState {
+  readonly configFilePath: string;
+  readonly keys: readonly TransformerCacheKey[];
+  readonly buildInfoPath?: string;
+  readonly recordPath?: string;
+  /** Where renamed outputs are (`undefined` for suppressed outputs), by original path. */
+  readonly redirects: ReadonlyMap<string, string | undefined>;
+  readonly stale: boolean;
+}
+
+interface CacheEntry {
+  readonly outputs: ReadonlyArray<{
+    readonly path: string;
+    readonly data: string;
+    readonly writeByteOrderMark: boolean;
+    readonly additional?: boolean;
+  }>;
+}
+
+interface KeysRecord {
+  readonly transformers: readonly TransformerCacheKey[];
+  /** The files TypeScript does not know about, relative to the record. */
+  readonly outputs?: readonly string[];
+  /** Where renamed outputs are (`null` for suppressed outputs), relative to the record. */
+  readonly redirects?: { readonly [original: string]: string | null };
+}
+
+/**
+ * Makes a path portable across machines: files installed in a `node_modules`
+ * directory (including TypeScript's lib files) are identified by their path in
+ * that directory, and other files by their path relative to the project.
+ *
+ * @param projectDir the directory of the project.
+ * @param path       the absolute path.
+ *
+ * @returns the portable path.
+ */
+function portablePath(projectDir: string, path: string): string {
+  const normalized = path.replace(/\\/g, '/');
+  const nodeModules = normalized.lastIndexOf('/node_modules/');
+  return nodeModules >= 0
+    ? normalized.slice(nodeModules + '/node_modules/'.length)
+    : relative(projectDir, path).replace(/\\/g, '/');
+}
+
+/**
+ * Serializes compiler options, with portable paths. The parsed configuration
+ * file is left out, as the options already reflect it.
+ *
+ * @param options  the compiler options.
+ * @param portable makes a path portable.
+ *
+ * @returns the serialized options.
+ */
+function portableOptions(options: ts.CompilerOptions, portable: (path: string) => string): string {
+  const { configFile: _configFile, ...rest } = options;
+  return stableStringify(
+    JSON.parse(
+      JSON.stringify(rest, (_key, value) =>
+        typeof value === 'string' && isAbsolute(value) ? portable(value) : value,
+      ),
+    ),
+  );
+}
+
+/**
+ * Determines where the transformer cache keys of a project are recorded: next
+ * to its `.tsbuildinfo` file, or in its `outDir`. Projects that have neither
+ * cannot have their keys recorded.
+ *
+ * @param configFilePath the configuration file of the project.
+ * @param options        the compiler options of the project.
+ *
+ * @returns the path to the record file, if any.
+ */
+function keysRecordPath(configFilePath: string, options: ts.CompilerOptions): string | undefined {
+  const buildInfoPath = ts.getTsBuildInfoEmitOutputFilePath(options);
+  if (buildInfoPath != null) {
+    return buildInfoPath.replace(/\.tsbuildinfo$/, '.tsc-tk.json');
+  }
+  if (options.outDir != null) {
+    return join(options.outDir, `${basename(configFilePath, '.json')}.tsc-tk.json`);
+  }
+  return undefined;
+}
+
+function readRecord(recordPath: string, system: ts.System): KeysRecord {
+  try {
+    const record = JSON.parse(system.readFile(recordPath) ?? '{}');
+    return {
+      transformers: record.transformers ?? [],
+      outputs: record.outputs,
+      redirects: record.redirects,
+    };
+  } catch {
+    // A corrupted record is as good as no record
+    return { transformers: [] };
+  }
+}
@@ -0,0 +1,341 @@
+import * as ts from 'typescript';
+
+/**
+ * The options of a transformer, as provided when registering it.
+ */
+export interface TransformerOptions {
+  readonly [option: string]: unknown;
+}
+
+/**
+ * The types of values an option may have.
+ */
+export type OptionType = 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object' | 'null';
+
+/**
+ * Describes the options of a transformer, or the value of one of them, using a
+ * subset of JSON Schema. Properties are allowed unless `additionalProperties`
+ * is `false`, like in JSON Schema.
+ */
+export interface OptionsSchema {
+  /** The type of the value. */
+  readonly type?: OptionType;
+  /** A description of the value, for documentation purposes. */
+  readonly description?: string;
+  /** The values the value may be. */
+  readonly enum?: ReadonlyArray<string | number | boolean | null>;
+  /** The default value, used when the value is not provided. */
+  readonly default?: unknown;
+  /** The minimum value of numbers. */
+  readonly minimum?: number;
+  /** The maximum value of numbers. */
+  readonly maximum?: number;
+  /** A regular expression strings must match. */
+  readonly pattern?: string;
+  /** The schema of the items of arrays. */
+  readonly items?: OptionsSchema;
+  /** The schemas of the properties of objects. */
+  readonly properties?: { readonly [name: string]: OptionsSchema };
+  /** The properties objects must have. */
+  readonly required?: readonly string[];
+  /** Whether (or which) properties other than those in `properties` are allowed. */
+  readonly additionalProperties?: boolean | OptionsSchema;
+}
+
+/**
+ * An error found while validating options.
+ */
+export interface OptionsError {
+  /** The path to the invalid value, as property names and array indices. */
+  readonly path: ReadonlyArray<string | number>;
+  /** The error message, which follows the path to the value. */
+  readonly message: string;
+}
+
+/**
+ * The result of the validation of options.
+ */
+export interface ResolvedOptions {
+  /** The options, with the default values of those that were not provided. */
+  readonly options: TransformerOptions;
+  /** The errors found in the options, if any. */
+  readonly errors: readonly OptionsError[];
+}
+
+/**
+ * Where options are declared: a path within a JSON configuration file.
+ */
+export interface OptionsLocation {
+  /** The path to the configuration file. */
+  readonly fileName: string;
+  /** The path to the options within the file, as property names and array indices. */
+  readonly path: ReadonlyArray<string | number>;
+}
+
+/**
+ * The code of diagnostics reporting invalid transformer options.
+ */
+export const INVALID_OPTIONS_CODE = 19003;
+
+/**
+ * Validates options against a schema, and applies the default values of the
+ * options that are not provided.
+ *
+ * @param schema  the schema of the options.
+ * @param options the options to validate.
+ *
+ * @returns the options with default values, and the errors found in them.
+ */
+export function resolveOptions(schema: OptionsSchema, options: unknown = {}): ResolvedOptions {
+  const errors = new Array<OptionsError>();
+  const resolved = resolveValue(schema, options, [], errors);
+  return { options: (resolved ?? {}) as TransformerOptions, errors };
+}
+
+/**
+ * Formats the path to an option, like `exclude[1]` or `output.format`.
+ *
+ * @param path the path to the option.
+ *
+ * @returns the formatted path, or `options` for the options themselves.
+ */
+export function formatOptionPath(path: ReadonlyArray<string | number>): string {
+  if (path.length === 0) {
+    return 'options';
+  }
+  return path
+    .map((segment, index) =>
+      typeof segment === 'number' ? `[${segment}]` : index > 0 ? `.${segment}` : segment,
+    )
+    .join('');
+}
+
+/**
+ * Creates the diagnostics reporting invalid options of a transformer. When the
+ * options are declared in a JSON file, diagnostics point at the invalid values
+ * (or at the closest value that exists, for missing ones).
+ *
+ * @param transformer the name of the transformer.
+ * @param errors      the errors found in its options.
+ * @param location    where the options are declared, if known.
+ * @param system      the TypeScript system used to read the configuration file.
+ *
+ * @returns the diagnostics.
+ *
+ * @internal
+ */
+export function optionsDiagnostics(
+  transformer: string,
+  errors: readonly OptionsError[],
+  location: OptionsLocation | undefined,
+  system: ts.System,
+): ts.Diagnostic[] {
+  return errors.map(({ path, message }) =>
+    locatedDiagnostic(
+      {
+        category: ts.DiagnosticCategory.Error,
+        code: INVALID_OPTIONS_CODE,
+        messageText: `Invalid options for transformer ${transformer}: ${formatOptionPath(
+          path,
+        )} ${message}`,
+        source: transformer,
+      },
+      location != null
+        ? { fileName: location.fileName, path: [...location.path, ...path] }
+        : undefined,
+      system,
+    ),
+  );
+}
+
+/**
+ * Creates a diagnostic about a value of a configuration file. When the file is
+ * a JSON file, the diagnostic points at the value (or at the closest value that
+ * exists, for missing ones). Otherwise, its message mentions the file.
+ *
+ * @param diagnostic the diagnostic, without its location.
+ * @param location   where the value is declared, if known.
+ * @param system     the TypeScript system used to read the configuration file.
+ *
+ * @returns the located diagnostic.
+ *
+ * @internal
+ */
+export function locatedDiagnostic(
+  diagnostic: Omit<ts.Diagnostic, 'file' | 'start' | 'length'>,
+  location: OptionsLocation | undefined,
+  system: ts.System,
+): ts.Diagnostic {
+  const file = location != null ? readJsonFile(location.fileName, system) : undefined;
+  const node = file != null ? findValue(file, location!.path) : undefined;
+  if (file == null || node == null) {
+    return {
+      ...diagnostic,
+      file: undefined,
+      start: undefined,
+      length: undefined,
+      messageText:
+        location != null
+          ? `${diagnostic.messageText} (in ${location.fileName})`
+          : diagnostic.messageText,
+    };
+  }
+  const start = node.getStart(file);
+  return { ...diagnostic, file, start, length: node.getEnd() - start };
+}
+
+/**
+ * Validates a value against a schema, recording errors for invalid values.
+ *
+ * @param schema the schema of the value.
+ * @param value  the value to validate.
+ * @param path   the path to the value in the options.
+ * @param errors the errors found so far.
+ *
+ * @returns the value, with the default values of the properties of objects.
+ */
+function resolveValue(
+  schema: OptionsSchema,
+  value: unknown,
+  path: ReadonlyArray<string | number>,
+  errors: OptionsError[],
+): unknown {
+  const fail = (message: string) => {
+    errors.push({ path, message });
+    return value;
+  };
+
+  if (schema.type != null && !hasType(value, schema.type)) {
+    return fail(`must be ${/^[aeiou]/.test(schema.type) ? 'an' : 'a'} ${schema.type}`);
+  }
+  if (schema.enum != null && !schema.enum.includes(value as string)) {
+    return fail(`must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(', ')}`);
+  }
+  if (typeof value === 'number') {
+    if (schema.minimum != null && value < schema.minimum) {
+      return fail(`must be greater than or equal to ${schema.minimum}`);
+    }
+    if (schema.maximum != null && value > schema.maximum) {
+      return fail(`must be less than or equal to ${schema.maximum}`);
+    }
+  }
+  if (
+    typeof value === 'string' &&
+    schema.pattern != null &&
+    !new RegExp(schema.pattern).test(value)
+  ) {
+    return fail(`must match /${schema.pattern}/`);
+  }
+  if (Array.isArray(value) && schema.items != null) {
+    const items = schema.items;
+    return value.map((item, index) => resolveValue(items, item, [...path, index], errors));
+  }
+  if (isObject(value)) {
+    return resolveProperties(schema, value, path, errors);
+  }
+  return value;
+}
+
+/**
+ * Validates the properties of an object against a schema, recording errors for
+ * invalid values.
+ *
+ * @param schema the schema of the object.
+ * @param value  the object to validate.
+ * @param path   the path to the object in the options.
+ * @param errors the errors found so far.
+ *
+ * @returns the object, with the default values of its properties.
+ */
+function resolveProperties(
+  { properties = {}, required = [], additionalProperties = true }: OptionsSchema,
+  value: { readonly [name: string]: unknown },
+  path: ReadonlyArray<string | number>,
+  errors: OptionsError[],
+): { readonly [name: string]: unknown } {
+  const result: { [name: string]: unknown } = {};
+  for (const [name, property] of Object.entries(properties)) {
+    if (name in value) {
+      result[name] = resolveValue(property, value[name], [...path, name], errors);
+    } else if (property.default !== undefined) {
+      result[name] = property.default;
+    } else if (required.includes(name)) {
+      errors.push({ path: [...path, name], message: 'is required' });
+    }
+  }
+  for (const [name, property] of Object.entries(value)) {
+    if (name in properties) {
+      continue;
+    }
+    if (additionalProperties === false) {
+      errors.push({ path: [...path, name], message: 'is not a known option' });
+    } else if (additionalProperties === true) {
+      result[name] = property;
+    } else {
+      result[name] = resolveValue(additionalProperties, property, [...path, name], errors);
+    }
+  }
+  return result;
+}
+
+function hasType(value: unknown, type: OptionType): boolean {
+  switch (type) {
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'null':
+      return value === null;
+    case 'object':
+      return isObject(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function isObject(value: unknown): value is { readonly [name: string]: unknown } {
+  return typeof value === 'object' && value != null && !Array.isArray(value);
+}
+
+/**
+ * Reads and parses a JSON file, to locate values in it.
+ *
+ * @param fileName the path to the file.
+ * @param system   the TypeScript system to use.
+ *
+ * @returns the parsed file, unless it is not a JSON file or cannot be read.
+ */
+function readJsonFile(fileName: string, system: ts.System): ts.JsonSourceFile | undefined {
+  const text = /\.json$/i.test(fileName) ? system.readFile(fileName) : undefined;
+  return text != null ? ts.parseJsonText(fileName, text) : undefined;
+}
+
+/**
+ * Finds the node of a value in a JSON file.
+ *
+ * @param file the JSON file.
+ * @param path the path to the value, as property names and array indices.
+ *
+ * @returns the node of the value, or of the closest of its parents that exists.
+ */
+function findValue(
+  file: ts.JsonSourceFile,
+  path: ReadonlyArray<string | number>,
+): ts.Expression | undefined {
+  let node: ts.Expression | undefined = file.statements[0]?.expression;
+  for (const segment of path) {
+    let child: ts.Expression | undefined;
+    if (node != null && ts.isObjectLiteralExpression(node)) {
+      child = node.properties
+        .filter(ts.isPropertyAssignment)
+        .find(({ name }) => ts.isStringLiteral(name) && name.text === segment)?.initializer;
+    } else if (node != null && ts.isArrayLiteralExpression(node) && typeof segment === 'number') {
+      child = node.elements[segment];
+    }
+    if (child == null) {
+      break;
+    }
+    node = child;
+  }
+  return node;
+}
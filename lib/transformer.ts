@@ -1,10 +1,78 @@
+import { dirname, resolve } from 'path';
 import * as ts from 'typescript';
+import { OptionsSchema, TransformerOptions } from './transformer-options';
 
 /**
  * Transformers encapsulate the logic to transform TypeScript AST nodes during
  * the compilation phases.
  */
 export abstract class Transformer {
+  /**
+   * The phases in which this transformer participates. If not specified, the
+   * transformer runs in all phases. Transformers only run in the phases they
+   * participate in, which avoids walking the AST needlessly.
+   */
+  public declare readonly phases?: readonly TransformerPhase[];
+
+  /**
+   * The names of transformers this transformer must run before, in each phase
+   * they both participate in. Transformers are named after their class, unless
+   * registered with an explicit name.
+   */
+  public declare readonly runsBefore?: readonly string[];
+
+  /**
+   * The names of transformers this transformer must run after, in each phase
+   * they both participate in.
+   */
+  public declare readonly runsAfter?: readonly string[];
+
+  /**
+   * The priority of this transformer. Transformers with no ordering constraint
+   * between them run by priority, then in registration order.
+   */
+  public declare readonly priority?: TransformerPriority;
+
+  /**
+   * The version of this transformer. It should change whenever the outputs of
+   * the transformer change for a given input, so that projects get re-emitted.
+   */
+  public declare readonly version?: string;
+
+  /**
+   * The schema of the options of this transformer. Options provided when
+   * registering the transformer are validated against it (invalid options are
+   * reported as error diagnostics when building), and default values are
+   * applied to them. The resulting options are available as
+   * `ProjectContext#options`.
+   */
+  public declare readonly optionsSchema?: OptionsSchema;
+
+  /**
+   * An optional hook to perform asynchronous work (such as reading files or
+   * querying services) before a project is emitted. It is invoked once for
+   * each source file to be emitted, before any transformation happens. This is
+   * only supported by `TypeScriptSolution#buildAsync`; transformers that have
+   * this hook fail when used in synchronous builds. Long-running work should
+   * observe `context.signal` to stop when the build is aborted.
+   *
+   * @param sourceFile the source file that is about to be emitted.
+   * @param context    the context of the project being emitted.
+   */
+  public prepare?(sourceFile: ts.SourceFile, context: ProjectContext): Promise<void>;
+
+  /**
+   * Identifies this transformer in build caches. The cache keys of transformers
+   * are recorded for each project, and projects are re-emitted whenever they
+   * change. Transformers which outputs depend on their configuration should
+   * override this method to provide a `configHash` (see `hashConfiguration`).
+   *
+   * @returns the cache key of this transformer.
+   */
+  public cacheKey(): TransformerCacheKey {
+    return { name: this.constructor.name, version: this.version ?? '0.0.0', configHash: '' };
+  }
+
   /**
    * Transforms a node, possibly returning another node of the same type.
    *
@@ -16,7 +84,7 @@ export abstract class Transformer {
   public transform<T extends ts.Node = ts.Node>(node: T, context: TransformerContext): T {
     return ts.visitNode<T>(
       node,
-      (node: ts.Node) => this.visit(node, context),
+      visitorFor(this, context),
       this.nodeValidatorFactory?.(context),
       this.nodeLifterFactory?.(context),
     );
@@ -32,7 +100,7 @@ export abstract class Transformer {
    * @returns the result of the children transformation.
    */
   public transformChildren<T extends ts.Node>(node: T, context: TransformerContext): T {
-    return ts.visitEachChild(node, (node: ts.Node) => this.visit(node, context), context.context);
+    return ts.visitEachChild(node, visitorFor(this, context), context.context);
   }
 
   /**
@@ -70,10 +138,231 @@ export abstract class Transformer {
   ): <T extends ts.Node = ts.Node>(nodes: readonly ts.Node[]) => T;
 }
 
+/**
+ * Identifies a transformer (and its configuration) in build caches.
+ */
+export interface TransformerCacheKey {
+  /** The name of the transformer. */
+  readonly name: string;
+  /** The version of the transformer. */
+  readonly version: string;
+  /** A hash of the transformer's configuration, or `''` if it has none. */
+  readonly configHash: string;
+}
+
+/**
+ * The context of the project being transformed.
+ */
+export class ProjectContext {
+  /* eslint-disable @typescript-eslint/explicit-member-accessibility */
+  readonly #project: TransformedProject;
+  readonly #reportDiagnostic: ts.DiagnosticReporter;
+  readonly #source: string | undefined;
+  readonly #options: TransformerOptions;
+  /* eslint-enable @typescript-eslint/explicit-member-accessibility */
+
+  /** @internal */
+  public constructor(
+    project: TransformedProject,
+    reportDiagnostic: ts.DiagnosticReporter = () => undefined,
+    source?: string,
+    options: TransformerOptions = {},
+  ) {
+    this.#project = project;
+    this.#reportDiagnostic = reportDiagnostic;
+    this.#source = source;
+    this.#options = options;
+  }
+
+  /**
+   * The options the transformer was registered with, with the default values
+   * of its `optionsSchema` applied.
+   */
+  public get options(): TransformerOptions {
+    return this.#options;
+  }
+
+  /**
+   * Compiler options of the current project.
+   */
+  public get compilerOptions(): ts.CompilerOptions {
+    return this.#project.compilerOptions;
+  }
+
+  /**
+   * The directory in which the compiler is currently operating.
+   */
+  public get currentDirectory(): string {
+    return this.#project.currentDirectory;
+  }
+
+  /**
+   * The path to the configuration file of the current project.
+   */
+  public get projectConfiguration(): string {
+    return this.#project.configFilePath;
+  }
+
+  /**
+   * The signal used to abort the build, if it is abortable (see
+   * `TypeScriptSolution#buildAsync`). Long-running `prepare` hooks can check
+   * it to stop early once the build is aborted.
+   */
+  public get signal(): AbortSignalLike | undefined {
+    return this.#project.signal;
+  }
+
+  /**
+   * The TypeScript program being transformed. For "Build" invalidated
+   * projects, this is the program being emitted. For "UpdateBundle"
+   * invalidated projects (where outputs are emitted from the build information
+   * file), a program is created from the project's configuration the first
+   * time it is requested; the nodes being transformed do not belong to it.
+   */
+  public get program(): ts.Program | undefined {
+    return this.#project.getProgram();
+  }
+
+  /**
+   * The type checker for the program being transformed. It is `undefined` for
+   * "UpdateBundle" invalidated projects: their nodes are read from the build
+   * information file, and do not belong to `program` (which is created
+   * separately), so a checker of that program knows nothing about them.
+   */
+  public get typeChecker(): ts.TypeChecker | undefined {
+    return this.#project.isBundleUpdate ? undefined : this.program?.getTypeChecker();
+  }
+
+  /**
+   * Registers an additional output file for the current project, such as a
+   * manifest, or a stylesheet extracted from template literals. Additional
+   * files are written alongside the project's outputs (unless those are
+   * skipped), and are not mistaken for inputs in watch mode.
+   *
+   * @param fileName the path to the file. Relative paths are resolved from the
+   *                 project's `outDir` (or from its directory if it has none).
+   * @param data     the content of the file.
+   */
+  public addOutputFile(fileName: string, data: string): void {
+    const outDir = this.compilerOptions.outDir ?? dirname(this.projectConfiguration);
+    this.#project.addOutputFile?.(resolve(this.currentDirectory, outDir, fileName), data);
+  }
+
+  /**
+   * Obtains the original node from which a (possibly synthesized) node was
+   * created. Nodes from the program being transformed are their own original.
+   * Use this to obtain a node that can be used with the `typeChecker`.
+   *
+   * @param node     the node which original is needed.
+   * @param nodeTest an optional test the original node must satisfy.
+   *
+   * @returns the original node, or `undefined` if it does not satisfy `nodeTest`.
+   */
+  public getOriginalNode(node: ts.Node): ts.Node;
+  public getOriginalNode<T extends ts.Node>(
+    node: ts.Node,
+    nodeTest: (node: ts.Node) => node is T,
+  ): T | undefined;
+  public getOriginalNode(
+    node: ts.Node,
+    nodeTest?: (node: ts.Node) => node is ts.Node,
+  ): ts.Node | undefined {
+    return nodeTest != null ? ts.getOriginalNode(node, nodeTest) : ts.getOriginalNode(node);
+  }
+
+  /**
+   * Reports a diagnostic attached to a node. Diagnostics are emitted through
+   * the `BuildEvent.Diagnostic` event. If any error is reported while
+   * transforming a project, its outputs are not written.
+   *
+   * @param node        the node the diagnostic is about. If this is a
+   *                    synthesized node, the diagnostic is attached to its
+   *                    original node.
+   * @param category    the category of the diagnostic.
+   * @param code        a transformer-specific diagnostic code.
+   * @param messageText the message of the diagnostic.
+   */
+  public reportDiagnostic(
+    node: ts.Node,
+    category: ts.DiagnosticCategory,
+    code: number,
+    messageText: string | ts.DiagnosticMessageChain,
+  ): void {
+    const original = ts.getOriginalNode(node);
+    const file = original.pos >= 0 ? original.getSourceFile() : undefined;
+    const start = file != null ? original.getStart(file) : undefined;
+    this.#reportDiagnostic({
+      category,
+      code,
+      file,
+      start,
+      length: start != null ? original.getEnd() - start : undefined,
+      messageText,
+      source: this.#source,
+    });
+  }
+
+  /**
+   * Reports an error attached to a node.
+   *
+   * @param node        the node the error is about.
+   * @param code        a transformer-specific diagnostic code.
+   * @param messageText the message of the error.
+   */
+  public error(node: ts.Node, code: number, messageText: string | ts.DiagnosticMessageChain): void {
+    this.reportDiagnostic(node, ts.DiagnosticCategory.Error, code, messageText);
+  }
+
+  /**
+   * Reports a warning attached to a node.
+   *
+   * @param node        the node the warning is about.
+   * @param code        a transformer-specific diagnostic code.
+   * @param messageText the message of the warning.
+   */
+  public warning(
+    node: ts.Node,
+    code: number,
+    messageText: string | ts.DiagnosticMessageChain,
+  ): void {
+    this.reportDiagnostic(node, ts.DiagnosticCategory.Warning, code, messageText);
+  }
+
+  /**
+   * Reports a suggestion attached to a node.
+   *
+   * @param node        the node the suggestion is about.
+   * @param code        a transformer-specific diagnostic code.
+   * @param messageText the message of the suggestion.
+   */
+  public suggestion(
+    node: ts.Node,
+    code: number,
+    messageText: string | ts.DiagnosticMessageChain,
+  ): void {
+    this.reportDiagnostic(node, ts.DiagnosticCategory.Suggestion, code, messageText);
+  }
+
+  /**
+   * Reports an informational message attached to a node.
+   *
+   * @param node        the node the message is about.
+   * @param code        a transformer-specific diagnostic code.
+   * @param messageText the message.
+   */
+  public message(
+    node: ts.Node,
+    code: number,
+    messageText: string | ts.DiagnosticMessageChain,
+  ): void {
+    this.reportDiagnostic(node, ts.DiagnosticCategory.Message, code, messageText);
+  }
+}
+
 /**
  * The context of a transformation.
  */
-export class TransformerContext {
+export class TransformerContext extends ProjectContext {
   /**
    * The TypeScript transformation context.
    */
@@ -84,51 +373,114 @@ export class TransformerContext {
    */
   public readonly phase: TransformerPhase;
 
-  // eslint-disable-next-line @typescript-eslint/explicit-member-accessibility
-  readonly #invalidatedProject: ts.InvalidatedProject<ts.BuilderProgram>;
+  /**
+   * The node currently being visited, used to locate transformer failures.
+   *
+   * @internal
+   */
+  public currentNode?: ts.Node;
 
   /** @internal */
   public constructor(
     phase: TransformerPhase,
     context: ts.TransformationContext,
-    invalidatedProject: ts.InvalidatedProject<ts.BuilderProgram>,
+    project: TransformedProject,
+    reportDiagnostic?: ts.DiagnosticReporter,
+    source?: string,
+    options?: TransformerOptions,
   ) {
+    super(project, reportDiagnostic, source, options);
     this.context = context;
     this.phase = phase;
-    this.#invalidatedProject = invalidatedProject;
   }
 
   /**
-   * Compiler options used for the current transformation.
+   * Replaces a node with another one (typically created using `ts.factory`),
+   * so that the replacement is attributed to the original node's location:
+   * the original node is recorded (for the type checker and diagnostics), and
+   * the text range, source map range, comments and emit flags of the original
+   * node are carried over. This keeps source maps (and breakpoints) pointing at
+   * the code that was transformed.
+   *
+   * Nodes updated using `ts.factory.update*` functions already carry all of
+   * this over, and do not need to go through this method.
+   *
+   * @param original    the node being replaced.
+   * @param replacement the replacement node.
+   *
+   * @returns the replacement node.
    */
-  public get compilerOptions(): ts.CompilerOptions {
-    return this.#invalidatedProject.getCompilerOptions();
+  public replaceNode<T extends ts.Node>(original: ts.Node, replacement: T): T {
+    // This also carries over emit flags and synthetic comments
+    ts.setOriginalNode(replacement, original);
+    ts.setTextRange(replacement, original);
+    ts.setSourceMapRange(replacement, ts.getSourceMapRange(original));
+    ts.setCommentRange(replacement, ts.getCommentRange(original));
+    return replacement;
   }
 
   /**
-   * The directory in which the compiler is currently operating.
+   * Replaces a node with several nodes (for example, a statement expanded into
+   * multiple statements), attributing all of them to the original node's
+   * location (see `replaceNode`).
+   *
+   * @param original     the node being replaced.
+   * @param replacements the replacement nodes.
+   *
+   * @returns the replacement nodes.
    */
-  public get currentDirectory(): string {
-    return this.#invalidatedProject.getCurrentDirectory();
+  public replaceNodes<T extends ts.Node>(original: ts.Node, replacements: readonly T[]): T[] {
+    return replacements.map((replacement) => this.replaceNode(original, replacement));
   }
+}
 
-  /**
-   * The path to the configuration file of the current project.
-   */
-  public get projectConfiguration(): string {
-    return this.#invalidatedProject.project;
-  }
+/**
+ * Creates a visitor that delegates to a transformer's `visit` method, keeping
+ * track of the node being visited so that failures can be located.
+ *
+ * @param transformer the transformer to delegate to.
+ * @param context     the context of the transformation.
+ *
+ * @returns the visitor function.
+ */
+function visitorFor(transformer: Transformer, context: TransformerContext): ts.Visitor {
+  return (node) => {
+    const parent = context.currentNode;
+    context.currentNode = node;
+    const result = transformer.visit(node, context);
+    // This is deliberately not restored if `visit` throws.
+    context.currentNode = parent;
+    return result;
+  };
+}
 
-  /**
-   * The TypeScript program being transformed. This is only available if the
-   * invalidated project that triggered the transformation is of "Build" kind.
-   */
-  public get program(): ts.Program | undefined {
-    if (this.#invalidatedProject.kind === ts.InvalidatedProjectKind.Build) {
-      this.#invalidatedProject.getProgram();
-    }
-    return undefined;
-  }
+/**
+ * The subset of the `AbortSignal` interface used to abort asynchronous builds.
+ */
+export interface AbortSignalLike {
+  /** Whether the operation has been aborted. */
+  readonly aborted: boolean;
+  /** Registers a listener to be called when the operation is aborted. */
+  addEventListener?(type: 'abort', listener: () => void): void;
+  /** Unregisters a listener registered using `addEventListener`. */
+  removeEventListener?(type: 'abort', listener: () => void): void;
+}
+
+/**
+ * The project being transformed.
+ *
+ * @internal
+ */
+export interface TransformedProject {
+  readonly configFilePath: string;
+  readonly compilerOptions: ts.CompilerOptions;
+  readonly currentDirectory: string;
+  /** Whether outputs are emitted from the build information file. */
+  readonly isBundleUpdate?: boolean;
+  /** The signal used to abort the build, if any. */
+  readonly signal?: AbortSignalLike;
+  getProgram(): ts.Program | undefined;
+  addOutputFile?(fileName: string, data: string): void;
 }
 
 /**
@@ -153,3 +505,14 @@ export const enum TransformerPhase {
    */
   AfterDeclarations = 'afterDeclarations',
 }
+
+/**
+ * Named priorities of transformers, from the earliest to the latest running.
+ */
+export const enum TransformerPriority {
+  First = 'first',
+  Early = 'early',
+  Normal = 'normal',
+  Late = 'late',
+  Last = 'last',
+}
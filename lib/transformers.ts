@@ -1,60 +1,1133 @@
+import { dirname } from 'path';
 import * as ts from 'typescript';
-import { Transformer, TransformerContext, TransformerPhase } from './transformer';
+import { parseConfiguration } from './configuration';
+import { globRegExp } from './glob';
+import { hashConfiguration } from './transformer-cache';
+import {
+  locatedDiagnostic,
+  OptionsError,
+  OptionsLocation,
+  optionsDiagnostics,
+  resolveOptions,
+  TransformerOptions,
+} from './transformer-options';
+import {
+  AbortSignalLike,
+  ProjectContext,
+  TransformedProject,
+  Transformer,
+  TransformerCacheKey,
+  TransformerContext,
+  TransformerPhase,
+  TransformerPriority,
+} from './transformer';
+import {
+  FusedTransformerFailure,
+  isFusible,
+  transformFused,
+  VisitorTransformer,
+} from './visitor-transformer';
+
+/**
+ * A function that provides additional transformers for a given project. This
+ * makes it possible for each project in a solution to have its own set of
+ * transformers (for example, loaded from its `tsconfig.json` file).
+ *
+ * @param configFilePath  the path to the project's configuration file.
+ * @param compilerOptions the compiler options of the project.
+ * @param system          the TypeScript system in use, to read files.
+ *
+ * @returns the transformers to apply to the project, optionally with their
+ *          registration options.
+ */
+export type TransformerProvider = (
+  configFilePath: string,
+  compilerOptions: ts.CompilerOptions,
+  system: ts.System,
+) => ReadonlyArray<Transformer | ProvidedTransformer>;
+
+/**
+ * The error thrown by a `TransformerProvider` when it cannot load one of the
+ * transformers of a project. Such errors are reported as transformer failures
+ * of the project, located where the transformer is declared, and the project's
+ * outputs are skipped.
+ */
+export class TransformerLoadError extends Error {
+  /**
+   * @param message  the error message.
+   * @param location where the transformer that cannot be loaded is declared.
+   */
+  public constructor(message: string, public readonly location: OptionsLocation) {
+    super(message);
+    this.name = 'TransformerLoadError';
+  }
+}
+
+/**
+ * A transformer returned by a `TransformerProvider`, with its registration
+ * options.
+ */
+export interface ProvidedTransformer extends TransformerRegistrationOptions {
+  /** The transformer to register. */
+  readonly transformer: Transformer;
+}
+
+/**
+ * Options for registering a transformer.
+ */
+export interface TransformerRegistrationOptions {
+  /**
+   * The phases in which the transformer participates. This overrides the
+   * transformer's own `phases` property.
+   *
+   * @default - the transformer's `phases`, or all phases.
+   */
+  readonly phases?: readonly TransformerPhase[];
+
+  /**
+   * The name of the transformer, which other transformers refer to in their
+   * ordering constraints.
+   *
+   * @default - the name of the transformer's class.
+   */
+  readonly name?: string;
+
+  /**
+   * The names of transformers this transformer must run before. This overrides
+   * the transformer's own `runsBefore` property.
+   *
+   * @default - the transformer's `runsBefore`.
+   */
+  readonly runsBefore?: readonly string[];
+
+  /**
+   * The names of transformers this transformer must run after. This overrides
+   * the transformer's own `runsAfter` property.
+   *
+   * @default - the transformer's `runsAfter`.
+   */
+  readonly runsAfter?: readonly string[];
+
+  /**
+   * The priority of the transformer. This overrides the transformer's own
+   * `priority` property.
+   *
+   * @default - the transformer's `priority`, or `TransformerPriority.Normal`.
+   */
+  readonly priority?: TransformerPriority;
+
+  /**
+   * Glob patterns matching the projects the transformer applies to, by the path
+   * to their configuration file (or its directory). Relative patterns match the
+   * end of paths (for example, `packages/api` or `packages/api/**`).
+   *
+   * @default - all projects.
+   */
+  readonly projects?: readonly string[];
+
+  /**
+   * Glob patterns matching the files the transformer applies to. Relative
+   * patterns match the end of paths (for example, `*.test.ts`).
+   *
+   * @default - all files.
+   */
+  readonly include?: readonly string[];
+
+  /**
+   * Glob patterns matching files the transformer does not apply to, even if
+   * they match `include`.
+   *
+   * @default - no files are excluded.
+   */
+  readonly exclude?: readonly string[];
+
+  /**
+   * The kinds of files the transformer applies to.
+   *
+   * @default - all kinds of files.
+   */
+  readonly fileKinds?: readonly FileKind[];
+
+  /**
+   * The options of the transformer, which are validated against its
+   * `optionsSchema` (if it has one), and available as `ProjectContext#options`.
+   *
+   * @default {}
+   */
+  readonly options?: TransformerOptions;
+
+  /**
+   * Where the options are declared, so that invalid options are reported there.
+   *
+   * @default - invalid options are not attributed to a file.
+   */
+  readonly optionsLocation?: OptionsLocation;
+}
+
+/**
+ * The kinds of files transformers can apply to.
+ */
+export const enum FileKind {
+  /** TypeScript and JavaScript source files. */
+  Source = 'source',
+  /** Declaration files, as emitted in the `afterDeclarations` phase. */
+  Declaration = 'declaration',
+  /** JSON files (when `resolveJsonModule` is enabled). */
+  Json = 'json',
+}
+
+/**
+ * The resolved execution order of transformers, as names, for each phase.
+ */
+export type ExecutionOrder = { readonly [phase in TransformerPhase]: readonly string[] };
+
+/**
+ * Options for creating the custom transformers of an invalidated project.
+ */
+export interface ProjectTransformationOptions {
+  /**
+   * The TypeScript system in use, for example to create a program for an
+   * invalidated project that does not provide one.
+   *
+   * @default ts.sys
+   */
+  readonly system?: ts.System;
+
+  /**
+   * The reporter for diagnostics emitted by transformers.
+   */
+  readonly reportDiagnostic?: ts.DiagnosticReporter;
+
+  /**
+   * The reporter for transformer failures (exceptions thrown by transformers).
+   * Failures are reported as error diagnostics, and the node being transformed
+   * is left unchanged.
+   *
+   * @default - failures are reported to `reportDiagnostic`.
+   */
+  readonly reportFailure?: ts.DiagnosticReporter;
+
+  /**
+   * The receiver of additional output files registered by transformers (see
+   * `ProjectContext#addOutputFile`), with absolute paths.
+   *
+   * @default - additional output files are ignored.
+   */
+  readonly addOutputFile?: (fileName: string, data: string) => void;
+
+  /**
+   * The signal used to abort the build, made available to transformers (see
+   * `ProjectContext#signal`).
+   *
+   * @default - the build cannot be aborted.
+   */
+  readonly signal?: AbortSignalLike;
+}
+
+/**
+ * The code of diagnostics reporting transformer failures.
+ */
+export const TRANSFORMER_FAILURE_CODE = 19001;
+
+/**
+ * The code of diagnostics reporting transformers that cannot be loaded.
+ */
+export const TRANSFORMER_LOAD_FAILURE_CODE = 19004;
 
 export class Transformers {
-  // eslint-disable-next-line @typescript-eslint/explicit-member-accessibility
-  readonly #transformers: Transformer[];
+  /* eslint-disable @typescript-eslint/explicit-member-accessibility */
+  readonly #providers = new Array<TransformerProvider>();
+  readonly #registrations: Registration[];
+  #fusion = false;
+  /* eslint-enable @typescript-eslint/explicit-member-accessibility */
 
   public constructor(...transformers: readonly Transformer[]) {
-    this.#transformers = Array.from(transformers);
+    this.#registrations = transformers.map((transformer) => registration(transformer));
+  }
+
+  /**
+   * Registers a transformer.
+   *
+   * @param transformer the transformer to register.
+   * @param options     registration options.
+   *
+   * @throws if the scope of the transformer has invalid glob patterns.
+   * @throws if the ordering constraints of registered transformers form a cycle.
+   */
+  public addTransformer(
+    transformer: Transformer,
+    options: TransformerRegistrationOptions = {},
+  ): this {
+    this.#registrations.push(registration(transformer, options));
+    try {
+      resolveOrder(this.#registrations);
+    } catch (error) {
+      this.#registrations.pop();
+      throw error;
+    }
+    return this;
   }
 
-  public addTransformer(transformer: Transformer): this {
-    this.#transformers.push(transformer);
+  /**
+   * Registers a provider of project-specific transformers. Transformers
+   * returned by providers are applied after those registered with
+   * `addTransformer`, in the order in which providers were added.
+   *
+   * @param provider the provider to register.
+   */
+  public addTransformerProvider(provider: TransformerProvider): this {
+    this.#providers.push(provider);
     return this;
   }
 
+  /**
+   * Resolves the order in which transformers run in each phase, taking their
+   * ordering constraints and priorities into account.
+   *
+   * @param configFilePath  the configuration file of a project, for which
+   *                        transformers from providers are to be included.
+   * @param compilerOptions the compiler options of this project.
+   * @param system          the TypeScript system in use.
+   *
+   * @returns the names of transformers, in execution order, for each phase.
+   *
+   * @throws if a transformer provider cannot load the transformers of the
+   *         project (see `TransformerLoadError`).
+   * @throws if the ordering constraints of transformers form a cycle.
+   */
+  public executionOrder(
+    configFilePath?: string,
+    compilerOptions: ts.CompilerOptions = {},
+    system: ts.System = ts.sys,
+  ): ExecutionOrder {
+    const { registrations, loadErrors } = this.#registrationsFor(
+      configFilePath,
+      compilerOptions,
+      system,
+    );
+    if (loadErrors.length > 0) {
+      throw loadErrors[0];
+    }
+    const order = resolveOrder(registrations);
+    const names = (phase: TransformerPhase) => order[phase].map(({ name }) => name);
+    return {
+      [TransformerPhase.Before]: names(TransformerPhase.Before),
+      [TransformerPhase.After]: names(TransformerPhase.After),
+      [TransformerPhase.AfterDeclarations]: names(TransformerPhase.AfterDeclarations),
+    };
+  }
+
+  /**
+   * Obtains the cache keys of the transformers that apply to a project.
+   *
+   * @param configFilePath  the configuration file of a project, for which
+   *                        transformers from providers are to be included.
+   * @param compilerOptions the compiler options of this project.
+   * @param system          the TypeScript system in use.
+   *
+   * @returns the cache keys of the transformers with valid options, in
+   *          execution order, followed by keys for the transformers that
+   *          cannot be loaded.
+   */
+  public cacheKeys(
+    configFilePath?: string,
+    compilerOptions: ts.CompilerOptions = {},
+    system: ts.System = ts.sys,
+  ): readonly TransformerCacheKey[] {
+    const { registrations, loadErrors } = this.#registrationsFor(
+      configFilePath,
+      compilerOptions,
+      system,
+    );
+    // Transformers with invalid options are left out of the emit
+    const order = resolveOrder(
+      registrations.filter(({ optionsErrors }) => optionsErrors.length === 0),
+    );
+    // Projects with transformers that cannot be loaded are never emitted, so
+    // their keys must not match those of outputs emitted without them.
+    return [
+      ...participants(order).map(registeredCacheKey),
+      ...loadErrors.map(({ message }) => ({
+        name: TransformerLoadError.name,
+        version: '',
+        configHash: hashConfiguration({ message }),
+      })),
+    ];
+  }
+
+  /**
+   * Enables fused execution: consecutive transformers that can be combined
+   * (`VisitorTransformer`s that do not override the way nodes are visited)
+   * run in a single AST traversal per phase, instead of one traversal each.
+   *
+   * Within a fused traversal, each node goes through the `enter` hooks of all
+   * fused transformers (in order), then its children are visited, then it goes
+   * through their `exit` hooks (in order). Nodes replaced by a transformer are
+   * only visited by the transformers that follow it, and removed nodes are not
+   * seen by subsequent transformers. If any fused transformer fails, the whole
+   * fused traversal is abandoned for that file, and the failure is reported
+   * for the transformer that threw.
+   *
+   * @param enabled whether fused execution is enabled.
+   */
+  public enableFusion(enabled = true): this {
+    this.#fusion = enabled;
+    return this;
+  }
+
+  /**
+   * Creates the custom transformers to use when emitting an invalidated project.
+   *
+   * @param project the invalidated project being emitted.
+   * @param options options for the transformation.
+   *
+   * @returns the custom transformers to pass to `ts.InvalidatedProject#done`.
+   */
   public forInvalidatedProject<T extends ts.BuilderProgram>(
     project: ts.InvalidatedProject<T>,
+    options: ProjectTransformationOptions = {},
   ): ts.CustomTransformers {
-    return {
-      before: this.#transformers.map((tx) => customTransformerFactory(tx, TransformerPhase.Before)),
-      after: this.#transformers.map((tx) => customTransformerFactory(tx, TransformerPhase.After)),
-      afterDeclarations: this.#transformers.map((tx) =>
-        customTransformerFactory(tx, TransformerPhase.AfterDeclarations),
+    return this.#synchronousTransformers(transformedProject(project, options), options);
+  }
+
+  /**
+   * Prepares the transformers for emitting an invalidated project, by running
+   * their `prepare` hooks on each source file to be emitted, then creates the
+   * custom transformers to use when emitting it.
+   *
+   * @param project the invalidated project about to be emitted.
+   * @param options options for the transformation.
+   *
+   * @returns the custom transformers to pass to `ts.InvalidatedProject#done`.
+   */
+  public async prepareInvalidatedProject<T extends ts.BuilderProgram>(
+    project: ts.InvalidatedProject<T>,
+    options: ProjectTransformationOptions = {},
+  ): Promise<ts.CustomTransformers> {
+    const transformed = transformedProject(project, options);
+    const order = this.#projectOrder(transformed, options);
+    await prepareTransformers(transformed, order, options);
+    return this.#customTransformers(transformed, order, options);
+  }
+
+  /**
+   * Creates the custom transformers to use when emitting a program.
+   *
+   * @param program        the program being emitted.
+   * @param configFilePath the path to the configuration file of the program.
+   * @param options        options for the transformation.
+   *
+   * @returns the custom transformers to pass to `ts.Program#emit`.
+   */
+  public forProgram(
+    program: ts.Program,
+    configFilePath: string,
+    options: ProjectTransformationOptions = {},
+  ): ts.CustomTransformers {
+    return this.#synchronousTransformers(
+      {
+        configFilePath,
+        compilerOptions: program.getCompilerOptions(),
+        currentDirectory: program.getCurrentDirectory(),
+        getProgram: () => program,
+        addOutputFile: options.addOutputFile,
+      },
+      options,
+    );
+  }
+
+  /**
+   * Registers the transformers that apply to a project. Providers that cannot
+   * load the transformers of the project provide none.
+   */
+  // eslint-disable-next-line @typescript-eslint/explicit-member-accessibility
+  #registrationsFor = (
+    configFilePath: string | undefined,
+    compilerOptions: ts.CompilerOptions,
+    system: ts.System,
+  ): ProjectRegistrations => {
+    if (configFilePath == null) {
+      return { registrations: this.#registrations, loadErrors: [] };
+    }
+    const provided = new Array<Transformer | ProvidedTransformer>();
+    const loadErrors = new Array<TransformerLoadError>();
+    for (const provider of this.#providers) {
+      try {
+        provided.push(...provider(configFilePath, compilerOptions, system));
+      } catch (error) {
+        if (!(error instanceof TransformerLoadError)) {
+          throw error;
+        }
+        loadErrors.push(error);
+      }
+    }
+    const registrations = [
+      ...this.#registrations,
+      ...provided.map((transformer) =>
+        transformer instanceof Transformer
+          ? registration(transformer)
+          : registration(transformer.transformer, transformer),
       ),
+    ].filter(({ scope }) => appliesToProject(scope, configFilePath));
+    return { registrations, loadErrors };
+  };
+
+  /**
+   * Resolves the execution order of the transformers that apply to a project
+   * being emitted. Transformers that cannot be loaded are reported as failures,
+   * and transformers with invalid options are reported, and left out.
+   */
+  // eslint-disable-next-line @typescript-eslint/explicit-member-accessibility
+  #projectOrder = (
+    project: TransformedProject,
+    {
+      system = ts.sys,
+      reportDiagnostic,
+      reportFailure = reportDiagnostic,
+    }: ProjectTransformationOptions,
+  ): ResolvedOrder => {
+    const { registrations, loadErrors } = this.#registrationsFor(
+      project.configFilePath,
+      project.compilerOptions,
+      system,
+    );
+    for (const { message, location } of loadErrors) {
+      reportFailure?.(
+        locatedDiagnostic(
+          {
+            category: ts.DiagnosticCategory.Error,
+            code: TRANSFORMER_LOAD_FAILURE_CODE,
+            messageText: message,
+          },
+          location,
+          system,
+        ),
+      );
+    }
+    for (const { name, optionsErrors, optionsLocation } of registrations) {
+      if (optionsErrors.length > 0) {
+        optionsDiagnostics(name, optionsErrors, optionsLocation, system).forEach((diag) =>
+          reportDiagnostic?.(diag),
+        );
+      }
+    }
+    return resolveOrder(registrations.filter(({ optionsErrors }) => optionsErrors.length === 0));
+  };
+
+  /**
+   * Creates custom transformers for a synchronous emit, where `prepare` hooks
+   * cannot run. Transformers that have such a hook are reported as failed.
+   */
+  // eslint-disable-next-line @typescript-eslint/explicit-member-accessibility
+  #synchronousTransformers = (
+    project: TransformedProject,
+    options: ProjectTransformationOptions,
+  ): ts.CustomTransformers => {
+    const order = this.#projectOrder(project, options);
+    const { reportDiagnostic, reportFailure = reportDiagnostic } = options;
+    for (const { transformer } of participants(order)) {
+      if (transformer.prepare != null) {
+        reportFailure?.({
+          category: ts.DiagnosticCategory.Error,
+          code: TRANSFORMER_FAILURE_CODE,
+          file: undefined,
+          start: undefined,
+          length: undefined,
+          messageText: `Transformer ${transformer.constructor.name} has a "prepare" hook, which requires an asynchronous build`,
+          source: transformer.constructor.name,
+        });
+      }
+    }
+    return this.#customTransformers(project, order, options);
+  };
+
+  // eslint-disable-next-line @typescript-eslint/explicit-member-accessibility
+  #customTransformers = (
+    project: TransformedProject,
+    order: ResolvedOrder,
+    options: ProjectTransformationOptions,
+  ): ts.CustomTransformers => {
+    const fusion = this.#fusion;
+
+    return {
+      before: forPhase(TransformerPhase.Before),
+      after: forPhase(TransformerPhase.After),
+      afterDeclarations: forPhase(TransformerPhase.AfterDeclarations),
     };
 
+    function forPhase(phase: TransformerPhase): ts.CustomTransformerFactory[] {
+      const groups = new Array<Registration[]>();
+      for (const reg of order[phase]) {
+        const lastGroup = groups[groups.length - 1];
+        if (
+          fusion &&
+          lastGroup != null &&
+          isFusible(lastGroup[0].transformer) &&
+          isFusible(reg.transformer)
+        ) {
+          lastGroup.push(reg);
+        } else {
+          groups.push([reg]);
+        }
+      }
+      return groups.map((group) => customTransformerFactory(group, phase));
+    }
+
     function customTransformerFactory(
-      tx: Transformer,
+      regs: readonly Registration[],
       phase: TransformerPhase,
     ): ts.CustomTransformerFactory {
-      return (ctx) => new CustomTransformerFactory(tx, project, ctx, phase);
+      return (ctx) => new CustomTransformerFactory(regs, project, ctx, phase, options);
     }
-  }
+  };
 }
 
-class CustomTransformerFactory<T extends ts.BuilderProgram> implements ts.CustomTransformer {
+/**
+ * Applies one transformer, or several fused transformers, to emitted nodes.
+ */
+class CustomTransformerFactory implements ts.CustomTransformer {
   /* eslint-disable @typescript-eslint/explicit-member-accessibility */
-  readonly #delegate: Transformer;
-  readonly #transformerContext: TransformerContext;
+  readonly #delegates: readonly Transformer[];
+  readonly #scopes: readonly Scope[];
+  readonly #reportFailure?: ts.DiagnosticReporter;
+  readonly #transformerContexts: readonly TransformerContext[];
   /* eslint-enable @typescript-eslint/explicit-member-accessibility */
 
   public constructor(
-    delegate: Transformer,
-    invalidatedProject: ts.InvalidatedProject<T>,
+    registrations: readonly Registration[],
+    project: TransformedProject,
     context: ts.TransformationContext,
     phase: TransformerPhase,
+    { reportDiagnostic, reportFailure = reportDiagnostic }: ProjectTransformationOptions,
   ) {
-    this.#delegate = delegate;
-    this.#transformerContext = new TransformerContext(phase, context, invalidatedProject);
+    this.#delegates = registrations.map(({ transformer }) => transformer);
+    this.#scopes = registrations.map(({ scope }) => scope);
+    this.#reportFailure = reportFailure;
+    this.#transformerContexts = registrations.map(
+      ({ transformer, options }) =>
+        new TransformerContext(
+          phase,
+          context,
+          project,
+          reportDiagnostic,
+          transformer.constructor.name,
+          options,
+        ),
+    );
   }
 
   public transformBundle(node: ts.Bundle): ts.Bundle {
-    return this.#delegate.transform(node, this.#transformerContext);
+    return this.#safeTransform(node);
   }
 
   public transformSourceFile(node: ts.SourceFile): ts.SourceFile {
-    return this.#delegate.transform(node, this.#transformerContext);
+    return this.#safeTransform(node);
+  }
+
+  /**
+   * Transforms a node with the delegates which scope includes it, turning any
+   * exception they throw into an error diagnostic. The node is returned
+   * unchanged in such cases.
+   */
+  // eslint-disable-next-line @typescript-eslint/explicit-member-accessibility
+  #safeTransform = <N extends ts.SourceFile | ts.Bundle>(node: N): N => {
+    if (ts.isBundle(node) && this.#scopes.some(hasFileScope)) {
+      // Bundles are transformed file by file, for each to only go through the
+      // delegates which scope includes it
+      return ts.factory.updateBundle(
+        node,
+        node.sourceFiles.map((sourceFile) => this.#safeTransform(sourceFile)),
+        node.prepends,
+      ) as N;
+    }
+    // Files outside of the scope of a delegate are not walked at all
+    const applicable = this.#delegates
+      .map((_, index) => index)
+      .filter((index) => !ts.isSourceFile(node) || appliesToFile(this.#scopes[index], node));
+    if (applicable.length === 0) {
+      return node;
+    }
+    for (const context of this.#transformerContexts) {
+      context.currentNode = undefined;
+    }
+    try {
+      if (applicable.length === 1) {
+        return this.#delegates[applicable[0]].transform(
+          node,
+          this.#transformerContexts[applicable[0]],
+        );
+      }
+      return transformFused(
+        node,
+        applicable.map((index) => ({
+          transformer: this.#delegates[index] as VisitorTransformer,
+          context: this.#transformerContexts[index],
+        })),
+      );
+    } catch (caught) {
+      const [member, error] =
+        caught instanceof FusedTransformerFailure ? [caught.member, caught.cause] : [0, caught];
+      const index = applicable[member];
+      const delegate = this.#delegates[index];
+      const context = this.#transformerContexts[index];
+      const failedNode = ts.getOriginalNode(context.currentNode ?? node);
+      const file = ts.isSourceFile(node) ? node : failedNode.getSourceFile?.();
+      const located = file != null && failedNode.pos >= 0 && !ts.isSourceFile(failedNode);
+      const start = located ? failedNode.getStart(file) : file != null ? 0 : undefined;
+      this.#reportFailure?.({
+        category: ts.DiagnosticCategory.Error,
+        code: TRANSFORMER_FAILURE_CODE,
+        file,
+        start,
+        length: located ? failedNode.getEnd() - start! : file != null ? 0 : undefined,
+        messageText: `Transformer ${delegate.constructor.name} failed during the "${
+          context.phase
+        }" phase while transforming ${file?.fileName ?? 'a bundle'}: ${error?.message ?? error}`,
+        source: delegate.constructor.name,
+      });
+      return node;
+    }
+  };
+}
+
+/**
+ * The transformers that apply to a project.
+ */
+interface ProjectRegistrations {
+  readonly registrations: readonly Registration[];
+  /** The errors of the providers that could not load the transformers of the project. */
+  readonly loadErrors: readonly TransformerLoadError[];
+}
+
+interface Registration {
+  readonly transformer: Transformer;
+  readonly name: string;
+  readonly phases?: readonly TransformerPhase[];
+  readonly runsBefore: readonly string[];
+  readonly runsAfter: readonly string[];
+  readonly priority: TransformerPriority;
+  readonly scope: Scope;
+  /** The options of the transformer, with default values applied. */
+  readonly options: TransformerOptions;
+  /** The errors found in the options of the transformer, if any. */
+  readonly optionsErrors: readonly OptionsError[];
+  readonly optionsLocation?: OptionsLocation;
+}
+
+/**
+ * The projects and files a transformer applies to.
+ */
+interface Scope {
+  readonly projects?: readonly RegExp[];
+  readonly include?: readonly RegExp[];
+  readonly exclude: readonly RegExp[];
+  readonly fileKinds?: readonly FileKind[];
+  /** The scope as it was declared, for use in cache keys (if not all-encompassing). */
+  readonly declared?: Pick<
+    TransformerRegistrationOptions,
+    'projects' | 'include' | 'exclude' | 'fileKinds'
+  >;
+}
+
+/**
+ * Creates a registration for a transformer, where registration options take
+ * precedence over the transformer's own properties. Options are validated
+ * against the transformer's schema here, but errors are only reported when the
+ * transformer is used to build a project.
+ *
+ * @param transformer the registered transformer.
+ * @param options     the registration options.
+ *
+ * @returns the registration.
+ */
+function registration(
+  transformer: Transformer,
+  {
+    name = transformer.constructor.name,
+    phases = transformer.phases,
+    runsBefore = transformer.runsBefore ?? [],
+    runsAfter = transformer.runsAfter ?? [],
+    priority = transformer.priority ?? TransformerPriority.Normal,
+    projects,
+    include,
+    exclude = [],
+    fileKinds,
+    options = {},
+    optionsLocation,
+  }: TransformerRegistrationOptions = {},
+): Registration {
+  const scoped = projects != null || include != null || exclude.length > 0 || fileKinds != null;
+  const scope: Scope = {
+    projects: projects?.map(globRegExp),
+    include: include?.map(globRegExp),
+    exclude: exclude.map(globRegExp),
+    fileKinds,
+    declared: scoped ? { projects, include, exclude, fileKinds } : undefined,
+  };
+  const resolved =
+    transformer.optionsSchema != null
+      ? resolveOptions(transformer.optionsSchema, options)
+      : { options, errors: [] };
+  return {
+    transformer,
+    name,
+    phases,
+    runsBefore,
+    runsAfter,
+    priority,
+    scope,
+    options: resolved.options,
+    optionsErrors: resolved.errors,
+    optionsLocation,
+  };
+}
+
+/**
+ * Determines whether a transformer applies to a project.
+ *
+ * @param scope          the scope of the transformer.
+ * @param configFilePath the path to the project's configuration file.
+ *
+ * @returns `true` if the transformer applies to the project.
+ */
+function appliesToProject({ projects }: Scope, configFilePath: string): boolean {
+  const path = normalizePath(configFilePath);
+  return projects?.some((pattern) => pattern.test(path) || pattern.test(dirname(path))) ?? true;
+}
+
+/**
+ * Determines whether a transformer applies to a file.
+ *
+ * @param scope the scope of the transformer.
+ * @param file  the file being transformed.
+ *
+ * @returns `true` if the transformer applies to the file.
+ */
+function appliesToFile({ include, exclude, fileKinds }: Scope, file: ts.SourceFile): boolean {
+  const path = normalizePath(file.fileName);
+  return (
+    (fileKinds?.includes(fileKind(file)) ?? true) &&
+    (include?.some((pattern) => pattern.test(path)) ?? true) &&
+    !exclude.some((pattern) => pattern.test(path))
+  );
+}
+
+/**
+ * Determines whether the scope of a transformer depends on the files.
+ *
+ * @param scope the scope of the transformer.
+ *
+ * @returns `true` if the transformer does not apply to every file.
+ */
+function hasFileScope({ include, exclude, fileKinds }: Scope): boolean {
+  return include != null || exclude.length > 0 || fileKinds != null;
+}
+
+/**
+ * Determines the kind of a file being transformed.
+ *
+ * @param file the file being transformed.
+ *
+ * @returns the kind of the file.
+ */
+function fileKind(file: ts.SourceFile): FileKind {
+  if (file.isDeclarationFile) {
+    return FileKind.Declaration;
+  }
+  return /\.json$/i.test(file.fileName) ? FileKind.Json : FileKind.Source;
+}
+
+/**
+ * Uses `/` as the separator of a path, which glob patterns are matched against.
+ */
+function normalizePath(path: string): string {
+  return path.replace(/\\/g, '/');
+}
+
+/**
+ * Obtains the cache key of a registered transformer. The scope of transformers
+ * that do not apply to all files, and the options of transformers registered
+ * with some, are part of their configuration, as changing them changes the
+ * outputs.
+ *
+ * @param registration the registration of the transformer.
+ *
+ * @returns the cache key.
+ */
+function registeredCacheKey({ transformer, scope, options }: Registration): TransformerCacheKey {
+  const key = transformer.cacheKey();
+  const configured = Object.keys(options).length > 0;
+  if (scope.declared == null && !configured) {
+    return key;
+  }
+  return {
+    ...key,
+    configHash: hashConfiguration({
+      ...scope.declared,
+      options: configured ? options : undefined,
+      config: key.configHash,
+    }),
+  };
+}
+
+const PRIORITY_RANKS: { readonly [priority in TransformerPriority]: number } = {
+  [TransformerPriority.First]: 0,
+  [TransformerPriority.Early]: 1,
+  [TransformerPriority.Normal]: 2,
+  [TransformerPriority.Late]: 3,
+  [TransformerPriority.Last]: 4,
+};
+
+/**
+ * The registrations participating in each phase, in execution order.
+ */
+type ResolvedOrder = { readonly [phase in TransformerPhase]: readonly Registration[] };
+
+/**
+ * Resolves the execution order of registrations in each phase.
+ *
+ * @param registrations the registrations, in registration order.
+ *
+ * @returns the registrations participating in each phase, in execution order.
+ *
+ * @throws if the ordering constraints of registrations form a cycle.
+ */
+function resolveOrder(registrations: readonly Registration[]): ResolvedOrder {
+  const inPhase = (phase: TransformerPhase) =>
+    orderPhase(registrations.filter(({ phases }) => phases?.includes(phase) ?? true));
+  return {
+    [TransformerPhase.Before]: inPhase(TransformerPhase.Before),
+    [TransformerPhase.After]: inPhase(TransformerPhase.After),
+    [TransformerPhase.AfterDeclarations]: inPhase(TransformerPhase.AfterDeclarations),
+  };
+}
+
+/**
+ * Sorts registrations so that all `runsBefore`/`runsAfter` constraints are
+ * satisfied. Among registrations that are not constrained relative to each
+ * other, those with an earlier priority come first, then those registered
+ * first. Constraints naming transformers that are not registered are ignored.
+ *
+ * @param registrations the registrations to sort, in registration order.
+ *
+ * @returns the sorted registrations.
+ *
+ * @throws if the ordering constraints form a cycle.
+ */
+function orderPhase(registrations: readonly Registration[]): readonly Registration[] {
+  // successors.get(a) contains b if a must run before b
+  const successors = new Map(registrations.map((reg) => [reg, new Set<Registration>()]));
+  for (const reg of registrations) {
+    for (const other of registrations) {
+      if (reg.runsBefore.includes(other.name) || other.runsAfter.includes(reg.name)) {
+        successors.get(reg)!.add(other);
+      }
+    }
+  }
+
+  const predecessorCounts = new Map(registrations.map((reg) => [reg, 0]));
+  for (const next of successors.values()) {
+    for (const reg of next) {
+      predecessorCounts.set(reg, predecessorCounts.get(reg)! + 1);
+    }
+  }
+
+  const result = new Array<Registration>();
+  while (result.length < registrations.length) {
+    const ready = registrations.filter(
+      (reg) => predecessorCounts.get(reg) === 0 && !result.includes(reg),
+    );
+    if (ready.length === 0) {
+      const cycle = findCycle(
+        registrations.filter((reg) => !result.includes(reg)),
+        successors,
+      );
+      throw new Error(
+        `Transformer ordering constraints form a cycle: ${cycle
+          .map(({ name }) => name)
+          .join(' -> ')}`,
+      );
+    }
+    // Array.prototype.sort is stable, so registration order breaks ties
+    const [next] = ready.sort((l, r) => PRIORITY_RANKS[l.priority] - PRIORITY_RANKS[r.priority]);
+    result.push(next);
+    for (const reg of successors.get(next)!) {
+      predecessorCounts.set(reg, predecessorCounts.get(reg)! - 1);
+    }
+  }
+  return result;
+}
+
+/**
+ * Finds a cycle among registrations that could not be ordered.
+ *
+ * @param remaining  the registrations that could not be ordered (all of which
+ *                   have at least one unordered predecessor).
+ * @param successors the successors of each registration.
+ *
+ * @returns the registrations forming a cycle, with the first one repeated last.
+ */
+function findCycle(
+  remaining: readonly Registration[],
+  successors: ReadonlyMap<Registration, ReadonlySet<Registration>>,
+): readonly Registration[] {
+  // Walking backwards along predecessors from any remaining node eventually
+  // loops, since every remaining node has a remaining predecessor.
+  const path = new Array<Registration>();
+  let current = remaining[0];
+  while (!path.includes(current)) {
+    path.push(current);
+    current = remaining.find((reg) => successors.get(reg)!.has(path[path.length - 1]))!;
+  }
+  return [...path.slice(path.indexOf(current)), current].reverse();
+}
+
+/**
+ * Lists the registrations of transformers that participate in at least one
+ * phase.
+ *
+ * @param order the resolved execution order of transformers.
+ *
+ * @returns the participating registrations, in execution order.
+ */
+function participants(order: ResolvedOrder): readonly Registration[] {
+  const result = new Map<Transformer, Registration>();
+  for (const phase of [
+    TransformerPhase.Before,
+    TransformerPhase.After,
+    TransformerPhase.AfterDeclarations,
+  ]) {
+    for (const reg of order[phase]) {
+      if (!result.has(reg.transformer)) {
+        result.set(reg.transformer, reg);
+      }
+    }
+  }
+  return Array.from(result.values());
+}
+
+/**
+ * Runs the `prepare` hooks of transformers on each source file of a project
+ * that is to be emitted. Transformers are prepared one after the other, in
+ * execution order, while the files of a given transformer are prepared
+ * concurrently. Exceptions thrown by hooks are reported as failures.
+ *
+ * @param project the project about to be emitted.
+ * @param order   the resolved execution order of transformers.
+ * @param options options for the transformation.
+ */
+async function prepareTransformers(
+  project: TransformedProject,
+  order: ResolvedOrder,
+  { reportDiagnostic, reportFailure = reportDiagnostic }: ProjectTransformationOptions,
+): Promise<void> {
+  const program = project.getProgram();
+  if (program == null) {
+    return;
+  }
+  const sourceFiles = program
+    .getSourceFiles()
+    .filter(
+      (sourceFile) =>
+        !sourceFile.isDeclarationFile &&
+        !program.isSourceFileDefaultLibrary(sourceFile) &&
+        !program.isSourceFileFromExternalLibrary(sourceFile),
+    );
+
+  for (const { transformer, scope, options } of participants(order)) {
+    if (transformer.prepare == null) {
+      continue;
+    }
+    const name = transformer.constructor.name;
+    const context = new ProjectContext(project, reportDiagnostic, name, options);
+    // Transformers may depend on the preparation of those running before them
+    // eslint-disable-next-line no-await-in-loop
+    await Promise.all(
+      sourceFiles
+        .filter((sourceFile) => appliesToFile(scope, sourceFile))
+        .map(async (sourceFile) => {
+          try {
+            await transformer.prepare!(sourceFile, context);
+          } catch (error) {
+            reportFailure?.({
+              category: ts.DiagnosticCategory.Error,
+              code: TRANSFORMER_FAILURE_CODE,
+              file: sourceFile,
+              start: 0,
+              length: 0,
+              messageText: `Transformer ${name} failed while preparing ${sourceFile.fileName}: ${
+                error?.message ?? error
+              }`,
+              source: name,
+            });
+          }
+        }),
+    );
+  }
+}
+
+/**
+ * Describes an invalidated project for transformers.
+ *
+ * @param invalidatedProject the invalidated project.
+ * @param options            options for the transformation.
+ *
+ * @returns the project being transformed.
+ */
+function transformedProject<T extends ts.BuilderProgram>(
+  invalidatedProject: ts.InvalidatedProject<T>,
+  { system = ts.sys, addOutputFile, signal }: ProjectTransformationOptions,
+): TransformedProject {
+  return {
+    configFilePath: invalidatedProject.project,
+    compilerOptions: invalidatedProject.getCompilerOptions(),
+    currentDirectory: invalidatedProject.getCurrentDirectory(),
+    isBundleUpdate: invalidatedProject.kind === ts.InvalidatedProjectKind.UpdateBundle,
+    getProgram: () => programFor(invalidatedProject, system),
+    addOutputFile,
+    signal,
+  };
+}
+
+/**
+ * Programs created for invalidated projects that do not provide one.
+ */
+const createdPrograms = new WeakMap<ts.InvalidatedProject<ts.BuilderProgram>, ts.Program>();
+
+/**
+ * Obtains the program for an invalidated project.
+ *
+ * @param invalidatedProject the invalidated project.
+ * @param system             the TypeScript system to use if a program needs to be created.
+ *
+ * @returns the program, if any.
+ */
+function programFor<T extends ts.BuilderProgram>(
+  invalidatedProject: ts.InvalidatedProject<T>,
+  system: ts.System,
+): ts.Program | undefined {
+  switch (invalidatedProject.kind) {
+    case ts.InvalidatedProjectKind.Build:
+      return invalidatedProject.getProgram();
+    case ts.InvalidatedProjectKind.UpdateBundle: {
+      let program = createdPrograms.get(invalidatedProject);
+      if (program == null) {
+        const config = parseConfiguration(invalidatedProject.project, system);
+        if (config == null) {
+          return undefined;
+        }
+        program = ts.createProgram({
+          rootNames: config.fileNames,
+          options: config.options,
+          projectReferences: config.projectReferences,
+          host: ts.createIncrementalCompilerHost(config.options, system),
+          configFileParsingDiagnostics: ts.getConfigFileParsingDiagnostics(config),
+        });
+        createdPrograms.set(invalidatedProject, program);
+      }
+      return program;
+    }
+    default:
+      return undefined;
   }
 }
@@ -1,69 +1,308 @@
 import { EventEmitter } from 'events';
-import { existsSync } from 'fs';
-import { resolve } from 'path';
+import { cpus } from 'os';
+import { relative, resolve, sep } from 'path';
 import * as ts from 'typescript';
-import { Transformers } from './transformers';
-import { IWatch, Watch } from './watch';
+import { parseConfiguration } from './configuration';
+import {
+  abortError,
+  buildInParallel,
+  deserializeDiagnostic,
+  ProjectOutcome,
+  projectGraph,
+} from './parallel';
+import { PluginConfig } from './plugins';
+import { AbortSignalLike } from './transformer';
+import { EmittedFile, TransformerCache, WrittenOutputs } from './transformer-cache';
+import { ProjectTransformationOptions, Transformers } from './transformers';
+import { FileChange, IWatch, SolutionWatchOptions, Watch } from './watch';
 
 export class TypeScriptSolution<T extends ts.BuilderProgram> {
   /* eslint-disable @typescript-eslint/explicit-member-accessibility */
   readonly #createProgram?: ts.CreateProgram<T>;
   readonly #eventEmitter = new EventEmitter();
-  readonly #reportDiagnostic: ts.DiagnosticReporter = (diag) =>
-    this.emit(BuildEvent.Diagnostic, diag);
+  readonly #reportDiagnostic: ts.DiagnosticReporter = (diag) => {
+    if (!this.#muted) {
+      this.emit(BuildEvent.Diagnostic, diag);
+    }
+  };
+  readonly #reportStatus: ts.DiagnosticReporter = (status) => {
+    this.emit(BuildEvent.Status, status);
+  };
+  readonly #reportErrorSummary: ts.ReportEmitErrorSummary = (errorCount) => {
+    this.emit(BuildEvent.ErrorSummary, errorCount);
+  };
   readonly #system: ts.System;
+  readonly #outputCacheDirectory?: string;
+  #muted = false;
   /* eslint-enable @typescript-eslint/explicit-member-accessibility */
 
   /**
    * Creates a new TypeScript project.
    *
-   * @param tsconfigPath  the path to the tsconfig.json for the project.
-   * @param transformers  custom transformers to apply.
-   * @param createProgram the createProgram function to use.
-   * @param system        the TypeScript system to use.
+   * @param tsconfigPath         the path to the tsconfig.json for the project.
+   * @param transformers         custom transformers to apply.
+   * @param createProgram        the createProgram function to use.
+   * @param system               the TypeScript system to use.
+   * @param outputCacheDirectory a directory in which to cache transformed outputs.
    */
   public constructor(
     public readonly tsconfigPath: string,
     public readonly transformers: Transformers = new Transformers(),
-    { createProgram, system = ts.sys }: TypeScriptProjectOptions<T> = {},
+    { createProgram, system = ts.sys, outputCacheDirectory }: TypeScriptProjectOptions<T> = {},
   ) {
-    if (!existsSync(tsconfigPath)) {
+    if (!system.fileExists(tsconfigPath)) {
       throw new Error(`${tsconfigPath} does not exist!`);
     }
     this.#system = system;
     this.#createProgram = createProgram;
+    this.#outputCacheDirectory = outputCacheDirectory;
   }
 
   /**
-   * Builds this TypeScript project once, then returns.
+   * Builds this TypeScript project once, then returns. If `defaultOptions.clean`
+   * is set, the outputs of the projects are deleted instead (see `clean`). If
+   * `defaultOptions.dry` is set, nothing is emitted nor written, and what the
+   * build would have done is reported as `BuildEvent.Status` events.
    *
    * @param rootNames         the root names to be compiled.
    * @param defaultOptions    custom build options.
    * @param cancellationToken a cancellation token.
+   *
+   * @returns the result of the build.
    */
   public build(
     rootNames: readonly string[] = [this.tsconfigPath],
     defaultOptions: ts.BuildOptions = { incremental: true },
     cancellationToken?: ts.CancellationToken,
-  ): void {
-    const host = ts.createSolutionBuilderHost(
-      this.#system,
-      this.#createProgram,
-      this.#reportDiagnostic,
-      undefined, // reportSolutionBuilderStatus,
-      undefined, // reportErrorSummary,
-    );
+  ): BuildResult {
+    if (defaultOptions.clean) {
+      return this.clean(rootNames, defaultOptions);
+    }
+    const cache = this.#transformerCache();
+    const host = this.#solutionBuilderHost(rootNames, cache);
+    const builder = ts.createSolutionBuilder(host, rootNames, defaultOptions);
+    const result = defaultOptions.dry
+      ? this.#dryRun(builder, cache, cancellationToken)
+      : this.consumeBuilder(builder, cache, cancellationToken);
+    // Projects are built one by one, so the builder cannot report the summary
+    host.reportErrorSummary?.(result.errorCount);
+    return result;
+  }
+
+  /**
+   * Builds this TypeScript project once, running the asynchronous `prepare`
+   * hooks of transformers before each project is emitted. The `clean` and
+   * `dry` build options behave like they do for `build`.
+   *
+   * @param rootNames      the root names to be compiled.
+   * @param defaultOptions custom build options.
+   * @param options        options to cancel the build.
+   *
+   * @returns a promise of the result of the build, which is rejected with an
+   *          `AbortError` if the build is aborted using `options.signal`.
+   */
+  public async buildAsync(
+    rootNames: readonly string[] = [this.tsconfigPath],
+    defaultOptions: ts.BuildOptions = { incremental: true },
+    { signal, cancellationToken, onlyProject }: BuildAsyncOptions = {},
+  ): Promise<BuildResult> {
+    if (defaultOptions.clean) {
+      return this.clean(rootNames, defaultOptions);
+    }
+    const cache = this.#transformerCache();
+    const host = this.#solutionBuilderHost(rootNames, cache);
     const builder = ts.createSolutionBuilder(host, rootNames, defaultOptions);
-    this.consumeBuilder(builder, cancellationToken);
+    const result = defaultOptions.dry
+      ? this.#dryRun(builder, cache, abortableToken(signal, cancellationToken))
+      : await this.consumeBuilderAsync(
+          builder,
+          cache,
+          signal,
+          abortableToken(signal, cancellationToken),
+          onlyProject,
+        );
+    host.reportErrorSummary?.(result.errorCount);
+    return result;
+  }
+
+  /**
+   * Deletes the outputs of the projects of this solution, like `tsc -b --clean`
+   * does (including their `.tsbuildinfo` files), as well as the files that were
+   * written for them but TypeScript does not know about (files registered by
+   * transformers using `addOutputFile`, and outputs renamed by
+   * `BuildEvent.BeforeWriteFile` listeners). If `defaultOptions.dry` is set,
+   * the files that would be deleted are reported as `BuildEvent.Status` events
+   * instead.
+   *
+   * @param rootNames      the root names to be cleaned.
+   * @param defaultOptions custom build options.
+   *
+   * @returns the result of the clean.
+   */
+  public clean(
+    rootNames: readonly string[] = [this.tsconfigPath],
+    defaultOptions: ts.BuildOptions = { incremental: true },
+  ): BuildResult {
+    const cache = this.#transformerCache();
+    const host = this.#solutionBuilderHost(rootNames, cache);
+    const builder = ts.createSolutionBuilder(host, rootNames, defaultOptions);
+    const build = this.#startBuild(cache);
+    try {
+      const extraFiles = (projectGraph(rootNames, this.#system)?.order ?? []).flatMap((project) =>
+        cache.recordedFiles(project),
+      );
+      if (!defaultOptions.dry) {
+        for (const extraFile of extraFiles) {
+          this.#system.deleteFile?.(extraFile);
+        }
+      } else if (extraFiles.length > 0) {
+        this.emit(BuildEvent.Status, wouldDeleteStatus(extraFiles));
+      }
+      const exitStatus = builder.clean();
+      return { ...build.result, exitStatus };
+    } finally {
+      this.#stopBuild(build);
+    }
+  }
+
+  /**
+   * Determines what building this TypeScript project would do, without
+   * emitting nor writing anything.
+   *
+   * @param rootNames      the root names to be planned.
+   * @param defaultOptions custom build options (such as `force`).
+   *
+   * @returns the projects of the solution in build order, with their status.
+   */
+  public plan(
+    rootNames: readonly string[] = [this.tsconfigPath],
+    defaultOptions: ts.BuildOptions = { incremental: true },
+  ): ProjectPlan[] {
+    const statuses = new Array<ts.Diagnostic>();
+    const cache = this.#transformerCache();
+    const host = this.#solutionBuilderHost(rootNames, cache);
+    host.reportSolutionBuilderStatus = (status) => statuses.push(status);
+    const builder = ts.createSolutionBuilder(host, rootNames, {
+      ...defaultOptions,
+      dry: true,
+      verbose: true,
+    });
+    this.#dryRun(builder, cache);
+
+    // The builder names the project each status is about (projects that are
+    // containers of other projects are not reported about).
+    const order = projectGraph(rootNames, this.#system)?.order ?? [];
+    const currentDirectory = this.#system.getCurrentDirectory();
+    const projectStatuses = new Map(order.map((project) => [project, new Array<ts.Diagnostic>()]));
+    for (const status of statuses) {
+      const project =
+        status.code !== BUILD_QUEUE_STATUS
+          ? statusProject(status, order, currentDirectory)
+          : undefined;
+      if (project != null) {
+        projectStatuses.get(project)!.push(status);
+      }
+    }
+    return order.map((project) => projectPlan(project, projectStatuses.get(project) ?? []));
+  }
+
+  /**
+   * Builds this TypeScript project once, building independent projects of the
+   * solution concurrently in worker threads. Each worker loads its own copy of
+   * the transformers from `options.transformers` and `options.configFile` (and
+   * from the projects' `plugins` if `options.loadPlugins` is set); the
+   * transformers registered in `this.transformers` are not used. Events are
+   * emitted on the calling thread, in the order in which a serial build would
+   * have emitted them.
+   *
+   * Projects referencing a project which outputs were skipped are not built,
+   * like `tsc -b` does. Unlike `tsc -b`, no project is built if project
+   * references form a cycle, which is reported as an error. The `clean` and
+   * `dry` build options behave like they do for `build`, without workers.
+   * Parallel builds always use the file system (`ts.sys`). Outputs are written
+   * by the workers, so `BuildEvent.BeforeWriteFile` is not emitted.
+   *
+   * @param rootNames      the root names to be compiled.
+   * @param defaultOptions custom build options.
+   * @param options        options for the parallel build.
+   *
+   * @returns a promise of the result of the build.
+   */
+  public async buildParallel(
+    rootNames: readonly string[] = [this.tsconfigPath],
+    defaultOptions: ts.BuildOptions = { incremental: true },
+    {
+      maxWorkers = cpus().length,
+      transformers = [],
+      configFile,
+      loadPlugins = false,
+      signal,
+      workerScript,
+    }: ParallelBuildOptions = {},
+  ): Promise<BuildResult> {
+    if (this.#system !== ts.sys) {
+      throw new Error('Parallel builds can only use the default TypeScript system (ts.sys)');
+    }
+    if (defaultOptions.clean || defaultOptions.dry) {
+      // Nothing is transformed, so there is nothing to build in parallel
+      return this.build(rootNames, defaultOptions);
+    }
+    const graph = projectGraph(rootNames, this.#system);
+    if (graph == null) {
+      return this.#reportReferenceCycle(rootNames, defaultOptions);
+    }
+
+    const build = this.#startBuild(this.#transformerCache());
+    try {
+      const sourceFiles = new Map<string, ts.SourceFile>();
+      const getFile = (fileName: string) => {
+        let sourceFile = sourceFiles.get(fileName);
+        if (sourceFile == null) {
+          const text = this.#system.readFile(fileName) ?? '';
+          sourceFile = ts.createSourceFile(fileName, text, ts.ScriptTarget.Latest);
+          sourceFiles.set(fileName, sourceFile);
+        }
+        return sourceFile;
+      };
+      await buildInParallel(
+        graph,
+        {
+          transformers,
+          baseDirectory: this.#system.getCurrentDirectory(),
+          configFile,
+          loadPlugins,
+          defaultOptions,
+          outputCacheDirectory: this.#outputCacheDirectory,
+        },
+        Math.max(1, maxWorkers),
+        (project, outcome) => this.#replayProject(build, project, outcome, getFile),
+        signal,
+        workerScript,
+      );
+    } finally {
+      this.#stopBuild(build);
+    }
+    this.#reportErrorSummary(build.result.errorCount);
+    return build.result;
   }
 
   /**
    * Compiles this project once, then watches for input file changes and
    * re-compiles when needed.
    *
+   * The same solution builder is used throughout the watch, so the programs of
+   * projects are kept alive: rebuilds only re-check and re-emit the projects
+   * (and files) affected by a change.
+   *
+   * File changes are debounced: builds start once no file changed for a while
+   * (see `options.debounce`), and changes happening during a build trigger a
+   * single new build once it completes. The changes that triggered a build are
+   * passed to `BuildEvent.BeforeSolution` listeners.
+   *
    * @param rootNames         the root names to be compiled.
    * @param defaultOptions    custom build options.
    * @param cancellationToken a cancellation token.
+   * @param options           options for the watch.
    *
    * @returns an `IWatch` that can be used to stop the process.
    */
@@ -71,21 +310,77 @@ export class TypeScriptSolution<T extends ts.BuilderProgram> {
     rootNames: readonly string[] = [this.tsconfigPath],
     defaultOptions: ts.BuildOptions = { incremental: true },
     cancellationToken?: ts.CancellationToken,
+    options?: SolutionWatchOptions,
   ): IWatch {
-    const host = ts.createSolutionBuilderHost(
-      this.#system,
-      this.#createProgram,
-      this.#reportDiagnostic,
-      undefined, // reportSolutionBuilderStatus,
-    );
-    const createBuilder = () => ts.createSolutionBuilder(host, rootNames, defaultOptions);
-    // Work off a new builder, as the tsc API doesn't expose any way to invalidate/revalidate projects
-    const watch = new Watch(this.#system, (watch) =>
-      this.consumeBuilder(createBuilder(), cancellationToken, watch),
-    );
-    watch.watchConfigFile(this.tsconfigPath);
+    const cache = this.#transformerCache();
+    // Projects which outputs were skipped are emitted from scratch next time, as
+    // the builder's program believes they were written.
+    const skippedProjects = new Set<string>();
+    const createBuilder = (watch: Watch) => {
+      const host = ts.createSolutionBuilderWithWatchHost(
+        this.#system,
+        this.#createProgram,
+        this.#reportDiagnostic,
+        this.#reportStatus,
+        () => undefined, // reportWatchStatus
+      );
+      const { createProgram } = host;
+      host.createProgram = (fileNames, compilerOptions, compilerHost, oldProgram, ...rest) =>
+        createProgram(
+          fileNames,
+          compilerOptions,
+          compilerHost,
+          compilerOptions?.configFilePath != null &&
+            skippedProjects.delete(`${compilerOptions.configFilePath}`)
+            ? undefined
+            : oldProgram,
+          ...rest,
+        );
+      cache.wrapHost(host, rootNames);
+      watch.wrapHost(host);
+      return ts.createSolutionBuilderWithWatch(host, rootNames, defaultOptions);
+    };
 
-    this.consumeBuilder(createBuilder(), cancellationToken, watch);
+    let builder: ts.SolutionBuilder<T> | undefined;
+    let watching = false;
+    const buildSolution = (watch: Watch, changes: readonly FileChange[] = []) => {
+      // The builder keeps watching the projects of the solution as their
+      // configurations change, except for the projects that are added to it:
+      // those are neither built nor watched, so the builder is replaced. Only
+      // configuration files add projects, so other changes are not checked.
+      if (
+        builder == null ||
+        (changes.some(({ fileName }) => /\.json$/i.test(fileName)) &&
+          projectGraph(rootNames, this.#system)?.order.some(
+            (project) => !watch.isWatching(project),
+          ))
+      ) {
+        watch.closeWatchers();
+        builder = createBuilder(watch);
+        watching = false;
+      }
+      for (const { project, exitStatus } of this.consumeBuilder(
+        builder,
+        cache,
+        cancellationToken,
+        watch,
+        changes,
+      ).projects) {
+        if (
+          exitStatus !== ts.ExitStatus.Success &&
+          exitStatus !== ts.ExitStatus.DiagnosticsPresent_OutputsGenerated
+        ) {
+          skippedProjects.add(project);
+        }
+      }
+      if (!watching) {
+        watch.start(builder);
+        watching = true;
+      }
+    };
+
+    const watch = new Watch(this.#system, buildSolution, options);
+    buildSolution(watch);
 
     return watch;
   }
@@ -108,11 +403,11 @@ export class TypeScriptSolution<T extends ts.BuilderProgram> {
 
   public on(
     event: BuildEvent.BeforeSolution,
-    listener: (solution: TypeScriptSolution<T>) => void,
+    listener: (solution: TypeScriptSolution<T>, changes: readonly FileChange[]) => void,
   ): this;
   public on(
     event: BuildEvent.AfterSolution,
-    listener: (solution: TypeScriptSolution<T>, errorCount: number) => void,
+    listener: (solution: TypeScriptSolution<T>, errorCount: number, result: BuildResult) => void,
   ): this;
   public on(
     event: BuildEvent.BeforeProject,
@@ -123,6 +418,8 @@ export class TypeScriptSolution<T extends ts.BuilderProgram> {
     listener: (project: ts.InvalidatedProject<T>) => void,
   ): this;
   public on(event: BuildEvent.Diagnostic, listener: (diagnostic: ts.Diagnostic) => void): this;
+  public on(event: BuildEvent.Status, listener: (status: ts.Diagnostic) => void): this;
+  public on(event: BuildEvent.ErrorSummary, listener: (errorCount: number) => void): this;
   public on(
     event: BuildEvent.OutputsGenerated,
     listener: (project: ts.InvalidatedProject<T>) => void,
@@ -131,6 +428,10 @@ export class TypeScriptSolution<T extends ts.BuilderProgram> {
     event: BuildEvent.OutputsSkipped,
     listener: (project: ts.InvalidatedProject<T>, reason: OutputsSkippedReason) => void,
   ): this;
+  public on(
+    event: BuildEvent.BeforeWriteFile,
+    listener: (file: OutputFile, project: ts.InvalidatedProject<T>) => void,
+  ): this;
   public on(event: BuildEvent, listener: (...any: readonly any[]) => void): this {
     this.#eventEmitter.on(event, listener);
     return this;
@@ -138,11 +439,11 @@ export class TypeScriptSolution<T extends ts.BuilderProgram> {
 
   public once(
     event: BuildEvent.BeforeSolution,
-    listener: (solution: TypeScriptSolution<T>) => void,
+    listener: (solution: TypeScriptSolution<T>, changes: readonly FileChange[]) => void,
   ): this;
   public once(
     event: BuildEvent.AfterSolution,
-    listener: (solution: TypeScriptSolution<T>, errorCount: number) => void,
+    listener: (solution: TypeScriptSolution<T>, errorCount: number, result: BuildResult) => void,
   ): this;
   public once(
     event: BuildEvent.BeforeProject,
@@ -153,6 +454,8 @@ export class TypeScriptSolution<T extends ts.BuilderProgram> {
     listener: (project: ts.InvalidatedProject<T>) => void,
   ): this;
   public once(event: BuildEvent.Diagnostic, listener: (diagnostic: ts.Diagnostic) => void): this;
+  public once(event: BuildEvent.Status, listener: (status: ts.Diagnostic) => void): this;
+  public once(event: BuildEvent.ErrorSummary, listener: (errorCount: number) => void): this;
   public once(
     event: BuildEvent.OutputsGenerated,
     listener: (project: ts.InvalidatedProject<T>) => void,
@@ -161,6 +464,10 @@ export class TypeScriptSolution<T extends ts.BuilderProgram> {
     event: BuildEvent.OutputsSkipped,
     listener: (project: ts.InvalidatedProject<T>, reason: OutputsSkippedReason) => void,
   ): this;
+  public once(
+    event: BuildEvent.BeforeWriteFile,
+    listener: (file: OutputFile, project: ts.InvalidatedProject<T>) => void,
+  ): this;
   public once(event: BuildEvent, listener: (...args: readonly any[]) => void): this {
     this.#eventEmitter.once(event, listener);
     return this;
@@ -178,93 +485,515 @@ export class TypeScriptSolution<T extends ts.BuilderProgram> {
 
   private consumeBuilder(
     builder: ts.SolutionBuilder<T>,
+    cache: TransformerCache,
     cancellationToken?: ts.CancellationToken,
     watch?: Watch,
-  ): void {
+    changes: readonly FileChange[] = [],
+  ): BuildResult {
     if (watch != null) {
-      this.emit(BuildEvent.BeforeSolution, this);
+      this.emit(BuildEvent.BeforeSolution, this, changes);
     }
 
     const next = () => builder.getNextInvalidatedProject(cancellationToken);
 
-    let errorCount = 0;
-    const incrementErrorCounter = (diag: ts.Diagnostic) => {
-      if (diag.category === ts.DiagnosticCategory.Error) {
-        errorCount++;
+    const build = this.#startBuild(cache);
+    try {
+      for (
+        let invalidatedProject = next();
+        invalidatedProject != null;
+        invalidatedProject = next()
+      ) {
+        this.emit(BuildEvent.BeforeProject, invalidatedProject);
+        try {
+          if (
+            !this.#skipUpstreamFailure(build, invalidatedProject, cancellationToken) &&
+            !this.#restoreProject(build, invalidatedProject, cancellationToken)
+          ) {
+            const transformation = new ProjectTransformation(this.#system, this.#reportDiagnostic);
+            const customTransformers = this.transformers.forInvalidatedProject(
+              invalidatedProject,
+              transformation.options,
+            );
+            this.#completeProject(
+              build,
+              invalidatedProject,
+              cancellationToken,
+              transformation,
+              customTransformers,
+            );
+          }
+        } finally {
+          if (watch != null) {
+            watch.addOutputFiles(build.outputFiles);
+          }
+          this.emit(BuildEvent.AfterProject, invalidatedProject);
+        }
       }
-    };
-    if (watch != null) {
-      this.on(BuildEvent.Diagnostic, incrementErrorCounter);
+    } finally {
+      this.#stopBuild(build);
     }
 
-    for (let invalidatedProject = next(); invalidatedProject != null; invalidatedProject = next()) {
-      this.emit(BuildEvent.BeforeProject, invalidatedProject);
-      try {
-        const exitStatus = invalidatedProject.done(
-          cancellationToken,
-          this.#system.writeFile,
-          this.transformers.forInvalidatedProject(invalidatedProject),
-        );
-        switch (exitStatus) {
-          case ts.ExitStatus.Success:
-            this.emit(BuildEvent.OutputsGenerated, invalidatedProject);
-            break;
-          case ts.ExitStatus.DiagnosticsPresent_OutputsGenerated:
-            this.emit(BuildEvent.OutputsGenerated, invalidatedProject);
-            break;
-          case ts.ExitStatus.DiagnosticsPresent_OutputsSkipped:
-            this.emit(
-              BuildEvent.OutputsSkipped,
-              invalidatedProject,
-              OutputsSkippedReason.DiagnosticsPresent,
-            );
-            break;
-          case ts.ExitStatus.InvalidProject_OutputsSkipped:
-            this.emit(
-              BuildEvent.OutputsSkipped,
+    const result = build.result;
+    if (watch) {
+      this.emit(BuildEvent.AfterSolution, this, result.errorCount, result);
+    }
+    return result;
+  }
+
+  private async consumeBuilderAsync(
+    builder: ts.SolutionBuilder<T>,
+    cache: TransformerCache,
+    signal?: AbortSignalLike,
+    cancellationToken?: ts.CancellationToken,
+    onlyProject?: string,
+  ): Promise<BuildResult> {
+    const next = () => {
+      throwIfAborted(signal);
+      let invalidatedProject = builder.getNextInvalidatedProject(cancellationToken);
+      while (
+        invalidatedProject != null &&
+        onlyProject != null &&
+        invalidatedProject.project !== onlyProject
+      ) {
+        this.#discardProject(invalidatedProject, cancellationToken);
+        invalidatedProject = builder.getNextInvalidatedProject(cancellationToken);
+      }
+      return invalidatedProject;
+    };
+
+    const build = this.#startBuild(cache);
+    try {
+      for (
+        let invalidatedProject = next();
+        invalidatedProject != null;
+        invalidatedProject = next()
+      ) {
+        this.emit(BuildEvent.BeforeProject, invalidatedProject);
+        try {
+          if (
+            !this.#skipUpstreamFailure(build, invalidatedProject, cancellationToken) &&
+            !this.#restoreProject(build, invalidatedProject, cancellationToken)
+          ) {
+            const transformation = new ProjectTransformation(this.#system, this.#reportDiagnostic);
+            // Projects must be built in order, as each depends on the outputs of its references
+            // eslint-disable-next-line no-await-in-loop
+            const customTransformers = await this.transformers.prepareInvalidatedProject(
               invalidatedProject,
-              OutputsSkippedReason.InvalidProject,
+              { ...transformation.options, signal },
             );
-            break;
-          case ts.ExitStatus.ProjectReferenceCycle_OutputsSkipped:
-          case ts.ExitStatus.ProjectReferenceCycle_OutputsSkupped:
-            this.emit(
-              BuildEvent.OutputsSkipped,
+            throwIfAborted(signal);
+            this.#completeProject(
+              build,
               invalidatedProject,
-              OutputsSkippedReason.ProjectReferenceCycle,
+              cancellationToken,
+              transformation,
+              customTransformers,
             );
-            break;
-          default:
-            throw new Error(`Unsupported exitStatus: ${ts.ExitStatus[exitStatus]}`);
+          }
+        } finally {
+          this.emit(BuildEvent.AfterProject, invalidatedProject);
         }
-      } finally {
-        if (watch != null) {
-          watch.watchConfigFile(invalidatedProject.project);
+      }
+    } catch (error) {
+      if (signal?.aborted && error instanceof ts.OperationCanceledException) {
+        throw abortError();
+      }
+      throw error;
+    } finally {
+      this.#stopBuild(build);
+    }
+
+    return build.result;
+  }
+
+  /**
+   * Emits the events of a project built in a parallel build.
+   */
+  // eslint-disable-next-line @typescript-eslint/explicit-member-accessibility
+  #replayProject = (
+    build: SolutionBuild,
+    project: string,
+    outcome: ProjectOutcome,
+    getFile: (fileName: string) => ts.SourceFile,
+  ): void => {
+    const projects = new Map<string, ts.InvalidatedProject<T>>();
+    const invalidatedProject = (project: string) => {
+      let result = projects.get(project);
+      if (result == null) {
+        result = builtProject(project, this.#system) as ts.InvalidatedProject<T>;
+        projects.set(project, result);
+      }
+      return result;
+    };
+
+    switch (outcome.kind) {
+      case 'blocked':
+      case 'upstreamFailure':
+        this.emit(BuildEvent.BeforeProject, invalidatedProject(project));
+        this.emit(
+          BuildEvent.OutputsSkipped,
+          invalidatedProject(project),
+          outcome.kind === 'blocked'
+            ? OutputsSkippedReason.UpstreamErrors
+            : OutputsSkippedReason.UpstreamTransformerFailure,
+        );
+        this.emit(BuildEvent.AfterProject, invalidatedProject(project));
+        return;
+      case 'built':
+        for (const event of outcome.events) {
+          switch (event.event) {
+            case BuildEvent.BeforeProject:
+              this.emit(BuildEvent.BeforeProject, invalidatedProject(event.project));
+              break;
+            case BuildEvent.AfterProject:
+              this.emit(BuildEvent.AfterProject, invalidatedProject(event.project));
+              break;
+            case BuildEvent.Diagnostic:
+              this.emit(BuildEvent.Diagnostic, deserializeDiagnostic(event.diagnostic, getFile));
+              break;
+            case BuildEvent.OutputsGenerated:
+              build.projects.push({ project: event.project, exitStatus: event.exitStatus });
+              this.emit(BuildEvent.OutputsGenerated, invalidatedProject(event.project));
+              break;
+            case BuildEvent.OutputsSkipped:
+              this.emit(BuildEvent.OutputsSkipped, invalidatedProject(event.project), event.reason);
+              break;
+          }
         }
-        this.emit(BuildEvent.AfterProject, invalidatedProject);
+    }
+  };
+
+  /**
+   * Reports the project reference cycle of a solution, which projects cannot
+   * be scheduled in parallel. Nothing is built: cleaning a solution that has
+   * a cycle only reports it, so a dry clean is used.
+   */
+  // eslint-disable-next-line @typescript-eslint/explicit-member-accessibility
+  #reportReferenceCycle = (
+    rootNames: readonly string[],
+    defaultOptions: ts.BuildOptions,
+  ): BuildResult => {
+    const cache = this.#transformerCache();
+    const host = this.#solutionBuilderHost(rootNames, cache);
+    const builder = ts.createSolutionBuilder(host, rootNames, { ...defaultOptions, dry: true });
+    const build = this.#startBuild(cache);
+    let exitStatus: ts.ExitStatus;
+    try {
+      exitStatus = builder.clean();
+    } finally {
+      this.#stopBuild(build);
+    }
+    this.#reportErrorSummary(build.result.errorCount);
+    return { ...build.result, exitStatus };
+  };
+
+  // eslint-disable-next-line @typescript-eslint/explicit-member-accessibility
+  #transformerCache = (): TransformerCache => {
+    return new TransformerCache(this.#system, this.transformers, this.#outputCacheDirectory);
+  };
+
+  // eslint-disable-next-line @typescript-eslint/explicit-member-accessibility
+  #solutionBuilderHost = (
+    rootNames: readonly string[],
+    cache: TransformerCache,
+  ): ts.SolutionBuilderHost<T> => {
+    const host = ts.createSolutionBuilderHost(
+      this.#system,
+      this.#createProgram,
+      this.#reportDiagnostic,
+      this.#reportStatus,
+      this.#reportErrorSummary,
+    );
+    cache.wrapHost(host, rootNames);
+    return host;
+  };
+
+  /**
+   * Goes through the invalidated projects of a `dry` solution builder, which
+   * reports what it would do instead of doing it. Transformers are not used,
+   * and nothing is written (not even from the output cache).
+   */
+  // eslint-disable-next-line @typescript-eslint/explicit-member-accessibility
+  #dryRun = (
+    builder: ts.SolutionBuilder<T>,
+    cache: TransformerCache,
+    cancellationToken?: ts.CancellationToken,
+  ): BuildResult => {
+    const build = this.#startBuild(cache);
+    try {
+      for (
+        let invalidatedProject = builder.getNextInvalidatedProject(cancellationToken);
+        invalidatedProject != null;
+        invalidatedProject = builder.getNextInvalidatedProject(cancellationToken)
+      ) {
+        invalidatedProject.done(cancellationToken, () => undefined);
       }
+    } finally {
+      this.#stopBuild(build);
     }
-    if (watch) {
-      this.emit(BuildEvent.AfterSolution, this, errorCount);
-      this.removeListener(BuildEvent.Diagnostic, incrementErrorCounter);
+    return build.result;
+  };
+
+  // eslint-disable-next-line @typescript-eslint/explicit-member-accessibility
+  #startBuild = (cache: TransformerCache): SolutionBuild => {
+    cache.reset();
+    const build = new SolutionBuild(cache);
+    this.on(BuildEvent.Diagnostic, build.countDiagnostic);
+    this.on(BuildEvent.OutputsSkipped, build.recordSkipped);
+    return build;
+  };
+
+  // eslint-disable-next-line @typescript-eslint/explicit-member-accessibility
+  #stopBuild = (build: SolutionBuild): void => {
+    this.removeListener(BuildEvent.Diagnostic, build.countDiagnostic);
+    this.removeListener(BuildEvent.OutputsSkipped, build.recordSkipped);
+  };
+
+  /**
+   * Completes a project without transforming it nor writing any of its outputs.
+   */
+  // eslint-disable-next-line @typescript-eslint/explicit-member-accessibility
+  #discardProject = (
+    invalidatedProject: ts.InvalidatedProject<T>,
+    cancellationToken: ts.CancellationToken | undefined,
+  ): ts.ExitStatus => {
+    // The project must be completed for the builder to move on, but its
+    // outputs and diagnostics are irrelevant.
+    this.#muted = true;
+    try {
+      return invalidatedProject.done(cancellationToken, () => undefined);
+    } finally {
+      this.#muted = false;
     }
-  }
+  };
+
+  /**
+   * Skips a project if any of the projects it references was skipped due to a
+   * transformer failure, or had its outputs withheld due to transformer errors.
+   *
+   * @returns `true` if the project was skipped.
+   */
+  // eslint-disable-next-line @typescript-eslint/explicit-member-accessibility
+  #skipUpstreamFailure = (
+    build: SolutionBuild,
+    invalidatedProject: ts.InvalidatedProject<T>,
+    cancellationToken: ts.CancellationToken | undefined,
+  ): boolean => {
+    const reason =
+      build.failedProjects.size > 0
+        ? projectReferences(invalidatedProject, this.#system)
+            .map((ref) => build.failedProjects.get(ref))
+            .find((upstreamReason) => upstreamReason != null)
+        : undefined;
+    if (reason == null) {
+      return false;
+    }
+    build.failedProjects.set(invalidatedProject.project, reason);
+    this.#discardProject(invalidatedProject, cancellationToken);
+    this.emit(BuildEvent.OutputsSkipped, invalidatedProject, reason);
+    return true;
+  };
+
+  /**
+   * Completes a project using outputs from the output cache, if there are any.
+   * When the cached outputs include build information, the program of the
+   * project was created from it, so the project is neither checked nor emitted
+   * again.
+   *
+   * @returns `true` if the project was completed.
+   */
+  // eslint-disable-next-line @typescript-eslint/explicit-member-accessibility
+  #restoreProject = (
+    build: SolutionBuild,
+    invalidatedProject: ts.InvalidatedProject<T>,
+    cancellationToken: ts.CancellationToken | undefined,
+  ): boolean => {
+    const entry = build.cache.outputsEntry(invalidatedProject);
+    const outputs = entry && build.cache.lookupOutputs(entry);
+    if (outputs == null) {
+      return false;
+    }
+    // Whatever the builder emits is replaced by the cached outputs.
+    const exitStatus = invalidatedProject.done(cancellationToken, () => undefined);
+    // The builder does not know the declarations it did not emit changed, so
+    // referencing projects are explicitly rebuilt.
+    if (
+      outputs.some(
+        ({ fileName, data }) =>
+          fileName.endsWith('.d.ts') && this.#system.readFile(fileName) !== data,
+      )
+    ) {
+      build.cache.outdateReferencingProjects(invalidatedProject.project);
+    }
+    const written = this.#writeOutputs(build, invalidatedProject, outputs);
+    build.cache.recordKeys(invalidatedProject.project, written);
+    this.#reportExitStatus(build, invalidatedProject, exitStatus);
+    return true;
+  };
+
+  /**
+   * Emits a project with the provided custom transformers, then writes its
+   * outputs unless a transformer reported an error or failed.
+   */
+  // eslint-disable-next-line @typescript-eslint/explicit-member-accessibility
+  #completeProject = (
+    build: SolutionBuild,
+    invalidatedProject: ts.InvalidatedProject<T>,
+    cancellationToken: ts.CancellationToken | undefined,
+    transformation: ProjectTransformation,
+    customTransformers: ts.CustomTransformers,
+  ): void => {
+    const cacheEntry = build.cache.outputsEntry(invalidatedProject);
+    // Outputs are held until the project is done, so they can be discarded
+    // if a transformer reported an error or failed.
+    const outputs = new Array<EmittedFile>();
+    const exitStatus = transformation.failed
+      ? // A transformer failed while being prepared, so the project is not emitted
+        this.#discardProject(invalidatedProject, cancellationToken)
+      : invalidatedProject.done(
+          cancellationToken,
+          (fileName, data, writeByteOrderMark) =>
+            outputs.push({ fileName, data, writeByteOrderMark: !!writeByteOrderMark }),
+          customTransformers,
+        );
+    // Nothing is written (not even the .tsbuildinfo file) in the following
+    // cases, so the project will be re-built (and the errors reported
+    // again) next time.
+    if (transformation.failed) {
+      build.failedProjects.set(
+        invalidatedProject.project,
+        OutputsSkippedReason.UpstreamTransformerFailure,
+      );
+      this.emit(
+        BuildEvent.OutputsSkipped,
+        invalidatedProject,
+        OutputsSkippedReason.TransformerFailure,
+      );
+      return;
+    }
+    if (transformation.errorCount > 0) {
+      // The builder does not know the outputs are missing, so it would build
+      // the referencing projects against them
+      build.failedProjects.set(invalidatedProject.project, OutputsSkippedReason.UpstreamErrors);
+      this.emit(
+        BuildEvent.OutputsSkipped,
+        invalidatedProject,
+        OutputsSkippedReason.DiagnosticsPresent,
+      );
+      return;
+    }
+    outputs.push(...transformation.additionalOutputs);
+    const written = this.#writeOutputs(build, invalidatedProject, outputs);
+    build.cache.recordKeys(invalidatedProject.project, written);
+    // Outputs are only cached if restoring them does not lose any diagnostic
+    if (
+      cacheEntry != null &&
+      exitStatus === ts.ExitStatus.Success &&
+      transformation.diagnosticCount === 0
+    ) {
+      build.cache.storeOutputs(cacheEntry, outputs);
+    }
+    this.#reportExitStatus(build, invalidatedProject, exitStatus);
+  };
+
+  /**
+   * Writes the outputs of a project, giving `BuildEvent.BeforeWriteFile`
+   * listeners a chance to rewrite, rename or suppress each of them.
+   *
+   * @returns the files written, which must be recorded for the project to be
+   *          cleaned, and for renamed or suppressed outputs to be up-to-date.
+   */
+  // eslint-disable-next-line @typescript-eslint/explicit-member-accessibility
+  #writeOutputs = (
+    build: SolutionBuild,
+    invalidatedProject: ts.InvalidatedProject<T>,
+    outputs: readonly EmittedFile[],
+  ): WrittenOutputs => {
+    const extraFiles = new Array<string>();
+    const destinations = new Map<string, string | undefined>();
+    for (const output of outputs) {
+      const file = new OutputFile(output);
+      this.emit(BuildEvent.BeforeWriteFile, file, invalidatedProject);
+      if (!output.additional) {
+        destinations.set(file.originalFileName, file.suppressed ? undefined : file.fileName);
+      }
+      if (!file.suppressed) {
+        this.#system.writeFile(file.fileName, file.data, file.writeByteOrderMark);
+        build.outputFiles.add(file.fileName);
+        if (output.additional || file.fileName !== file.originalFileName) {
+          extraFiles.push(file.fileName);
+        }
+      }
+    }
+    return { extraFiles, destinations };
+  };
+
+  // eslint-disable-next-line @typescript-eslint/explicit-member-accessibility
+  #reportExitStatus = (
+    build: SolutionBuild,
+    invalidatedProject: ts.InvalidatedProject<T>,
+    exitStatus: ts.ExitStatus,
+  ): void => {
+    switch (exitStatus) {
+      case ts.ExitStatus.Success:
+      case ts.ExitStatus.DiagnosticsPresent_OutputsGenerated:
+        build.projects.push({ project: invalidatedProject.project, exitStatus });
+        this.emit(BuildEvent.OutputsGenerated, invalidatedProject);
+        break;
+      case ts.ExitStatus.DiagnosticsPresent_OutputsSkipped:
+        this.emit(
+          BuildEvent.OutputsSkipped,
+          invalidatedProject,
+          OutputsSkippedReason.DiagnosticsPresent,
+        );
+        break;
+      case ts.ExitStatus.InvalidProject_OutputsSkipped:
+        this.emit(
+          BuildEvent.OutputsSkipped,
+          invalidatedProject,
+          OutputsSkippedReason.InvalidProject,
+        );
+        break;
+      case ts.ExitStatus.ProjectReferenceCycle_OutputsSkipped:
+      case ts.ExitStatus.ProjectReferenceCycle_OutputsSkupped:
+        this.emit(
+          BuildEvent.OutputsSkipped,
+          invalidatedProject,
+          OutputsSkippedReason.ProjectReferenceCycle,
+        );
+        break;
+      default:
+        throw new Error(`Unsupported exitStatus: ${ts.ExitStatus[exitStatus]}`);
+    }
+  };
 
-  private emit(event: BuildEvent.BeforeSolution, solution: TypeScriptSolution<T>): boolean;
+  private emit(
+    event: BuildEvent.BeforeSolution,
+    solution: TypeScriptSolution<T>,
+    changes: readonly FileChange[],
+  ): boolean;
   private emit(
     event: BuildEvent.AfterSolution,
     solution: TypeScriptSolution<T>,
     errorCount: number,
+    result: BuildResult,
   ): boolean;
   private emit(event: BuildEvent.BeforeProject, project: ts.InvalidatedProject<T>): boolean;
   private emit(event: BuildEvent.AfterProject, project: ts.InvalidatedProject<T>): boolean;
   private emit(event: BuildEvent.Diagnostic, diagnostic: ts.Diagnostic): boolean;
+  private emit(event: BuildEvent.Status, status: ts.Diagnostic): boolean;
+  private emit(event: BuildEvent.ErrorSummary, errorCount: number): boolean;
   private emit(event: BuildEvent.OutputsGenerated, project: ts.InvalidatedProject<T>): boolean;
   private emit(
     event: BuildEvent.OutputsSkipped,
     project: ts.InvalidatedProject<T>,
     reason: OutputsSkippedReason,
   ): boolean;
+  private emit(
+    event: BuildEvent.BeforeWriteFile,
+    file: OutputFile,
+    project: ts.InvalidatedProject<T>,
+  ): boolean;
   private emit(event: BuildEvent, ...args: any): boolean {
     return this.#eventEmitter.emit(event, ...args);
   }
@@ -285,13 +1014,154 @@ export interface TypeScriptProjectOptions<
    * A TypeScript createProgram function.
    */
   readonly createProgram?: ts.CreateProgram<T>;
+
+  /**
+   * A directory in which the transformed outputs of projects are cached, so
+   * they can be restored instead of being transformed again when a project's
+   * inputs and transformers have not changed (for example, across CI runs).
+   *
+   * @default - outputs are not cached.
+   */
+  readonly outputCacheDirectory?: string;
+}
+
+/**
+ * Options for `TypeScriptSolution#buildAsync`.
+ */
+export interface BuildAsyncOptions {
+  /**
+   * A signal used to abort the build. When it is aborted, the build stops as
+   * soon as possible and the returned promise is rejected.
+   */
+  readonly signal?: AbortSignalLike;
+
+  /**
+   * A TypeScript cancellation token.
+   */
+  readonly cancellationToken?: ts.CancellationToken;
+
+  /**
+   * The only project to build. The projects it references are completed
+   * without writing anything, as they are built by other parallel build
+   * workers.
+   *
+   * @internal
+   */
+  readonly onlyProject?: string;
+}
+
+/**
+ * Options for `TypeScriptSolution#buildParallel`.
+ */
+export interface ParallelBuildOptions {
+  /**
+   * The maximum number of worker threads.
+   *
+   * @default - the number of CPUs.
+   */
+  readonly maxWorkers?: number;
+
+  /**
+   * The transformers to load in each worker, in the same format as transformer
+   * plugins in `tsconfig.json` files. Relative module paths are resolved from
+   * the current directory.
+   */
+  readonly transformers?: readonly PluginConfig[];
+
+  /**
+   * A configuration file declaring transformers to load in each worker (see
+   * `readKitConfig`), after those of `transformers`.
+   */
+  readonly configFile?: string;
+
+  /**
+   * Whether transformers declared in the `compilerOptions.plugins` section of
+   * each project are loaded (like `loadPluginTransformers` does).
+   *
+   * @default false
+   */
+  readonly loadPlugins?: boolean;
+
+  /**
+   * A signal used to abort the build. When it is aborted, no further projects
+   * are started, the workers are stopped (right away if the signal supports
+   * `addEventListener`, or once a project completes otherwise) and the
+   * returned promise is rejected.
+   */
+  readonly signal?: AbortSignalLike;
+
+  /**
+   * The script parallel build workers run, instead of the compiled worker of
+   * this package (for example, to run workers from the TypeScript sources).
+   *
+   * @internal
+   */
+  readonly workerScript?: string;
+}
+
+/**
+ * The result of building a solution.
+ */
+export interface BuildResult {
+  /** The number of error diagnostics reported during the build. */
+  readonly errorCount: number;
+  /** The number of warning diagnostics reported during the build. */
+  readonly warningCount: number;
+  /** The result of each project that was built, in build order. */
+  readonly projects: readonly ProjectBuildResult[];
+  /**
+   * The exit status of the build as a whole, which is the exit code `tsc -b`
+   * would have.
+   */
+  readonly exitStatus: ts.ExitStatus;
+}
+
+/**
+ * The result of building a project.
+ */
+export interface ProjectBuildResult {
+  /** The path to the project's configuration file. */
+  readonly project: string;
+  /** The exit status of the project's build. */
+  readonly exitStatus: ts.ExitStatus;
+}
+
+/**
+ * What building a project would do, as determined by `TypeScriptSolution#plan`.
+ */
+export interface ProjectPlan {
+  /** The path to the project's configuration file. */
+  readonly project: string;
+  /** Whether the project would be built. */
+  readonly status: ProjectStatus;
+  /**
+   * Why the project has this status, as `tsc -b --verbose` would report it
+   * (for example, "Project 'tsconfig.json' is out of date because output file
+   * 'dist/index.js' does not exist").
+   */
+  readonly reason?: string;
+}
+
+/**
+ * The status of a project in the plan of a build.
+ */
+export const enum ProjectStatus {
+  /** The project would not be built, as its outputs are up to date. */
+  UpToDate = 'upToDate',
+  /** The project would be built (or its outputs updated). */
+  OutOfDate = 'outOfDate',
+  /** The project would not be built, because one of its dependencies has errors. */
+  Blocked = 'blocked',
 }
 
 /**
  * Events that a TypeScript project emits during build.
  */
 export const enum BuildEvent {
-  /** Happens before the solution starts building. */
+  /**
+   * Happens before the solution starts building in watch mode, with the file
+   * changes that triggered the build (none for the initial build).
+   */
   BeforeSolution = 'beforeSolution',
   /** Happens after the solution completed building. */
   AfterSolution = 'afterSolution',
@@ -303,21 +1173,418 @@ export const enum BuildEvent {
 
   /** Happens whenever a diagnostic message is generated. */
   Diagnostic = 'diagnostic',
+  /**
+   * Happens when the solution builder reports its status, like `tsc -b` does
+   * (for example, why a project is out of date in `verbose` builds, or what a
+   * `dry` build would have done). The status is a message diagnostic.
+   */
+  Status = 'status',
+  /**
+   * Happens after a solution was built (but not in watch mode, nor when it is
+   * cleaned), with the number of errors found, like the error summary `tsc -b`
+   * reports.
+   */
+  ErrorSummary = 'errorSummary',
 
   /** Happens when a project was transformed and generated outputs. */
   OutputsGenerated = 'outputsGenerated',
   /** Happens when a project was transformed, but outputs were not generated. */
   OutputsSkipped = 'outputsSkipped',
+
+  /**
+   * Happens before each output file of a project is written (including
+   * `.d.ts`, `.map` and `.tsbuildinfo` files, and files registered by
+   * transformers). Listeners may rewrite, rename or suppress the file.
+   */
+  BeforeWriteFile = 'beforeWriteFile',
+}
+
+/**
+ * A file about to be written by a build, which `BuildEvent.BeforeWriteFile`
+ * listeners may modify.
+ *
+ * Outputs emitted by TypeScript that are renamed or suppressed are recorded, so
+ * that later builds still find the project up-to-date, and find renamed outputs
+ * (such as declarations used by referencing projects) where they were written.
+ * Suppressed declarations are not available to referencing projects, and
+ * suppressed build information makes the next build of the project complete
+ * rather than incremental.
+ */
+export class OutputFile {
+  /** The path the file was emitted to. */
+  public readonly originalFileName: string;
+
+  /** The path the file is written to. Changing it renames the file. */
+  public fileName: string;
+
+  /** The content of the file. Changing it rewrites the file. */
+  public data: string;
+
+  /** Whether a byte order mark is written at the start of the file. */
+  public writeByteOrderMark: boolean;
+
+  /* eslint-disable @typescript-eslint/explicit-member-accessibility */
+  #suppressed = false;
+  /* eslint-enable @typescript-eslint/explicit-member-accessibility */
+
+  /** @internal */
+  public constructor({ fileName, data, writeByteOrderMark }: EmittedFile) {
+    this.originalFileName = fileName;
+    this.fileName = fileName;
+    this.data = data;
+    this.writeByteOrderMark = writeByteOrderMark;
+  }
+
+  /**
+   * Whether the file was suppressed, in which case it is not written.
+   */
+  public get suppressed(): boolean {
+    return this.#suppressed;
+  }
+
+  /**
+   * Prevents the file from being written.
+   */
+  public suppress(): void {
+    this.#suppressed = true;
+  }
 }
 
 /**
  * Reasons for why outputs were not emitted.
  */
 export const enum OutputsSkippedReason {
-  /** A diagnositic message (usually an error) prevented generation. */
+  /**
+   * A diagnositic message (usually an error) prevented generation. This
+   * includes errors reported by transformers.
+   */
   DiagnosticsPresent = 'diagnosticsPresent',
   /** The project's configuration is invalid. */
   InvalidProject = 'invalidProject',
   /** A reference cycle involves the project. */
   ProjectReferenceCycle = 'projectReferenceCycle',
+  /** A transformer failed (threw an exception) while transforming the project. */
+  TransformerFailure = 'transformerFailure',
+  /** A project this project depends on was skipped due to a transformer failure. */
+  UpstreamTransformerFailure = 'upstreamTransformerFailure',
+  /**
+   * A project this project depends on has errors, so the project was not built.
+   * This is reported by parallel builds, and for projects depending on a project
+   * which outputs were skipped due to errors reported by transformers, as
+   * `tsc -b` skips other such projects silently.
+   */
+  UpstreamErrors = 'upstreamErrors',
+}
+
+/**
+ * The state of a solution build.
+ */
+class SolutionBuild {
+  public errorCount = 0;
+  public warningCount = 0;
+  public readonly projects = new Array<ProjectBuildResult>();
+  /**
+   * Projects which outputs were skipped due to transformers (including
+   * transitively), with the reason to skip the projects referencing them.
+   */
+  public readonly failedProjects = new Map<string, OutputsSkippedReason>();
+  /** The files written by the build. */
+  public readonly outputFiles = new Set<string>();
+
+  public constructor(public readonly cache: TransformerCache) {}
+
+  public readonly countDiagnostic = (diag: ts.Diagnostic): void => {
+    if (diag.category === ts.DiagnosticCategory.Error) {
+      this.errorCount++;
+    } else if (diag.category === ts.DiagnosticCategory.Warning) {
+      this.warningCount++;
+    }
+  };
+
+  public readonly recordSkipped = (
+    project: ts.InvalidatedProject<ts.BuilderProgram>,
+    reason: OutputsSkippedReason,
+  ): void => {
+    this.projects.push({ project: project.project, exitStatus: skippedExitStatus(reason) });
+  };
+
+  public get result(): BuildResult {
+    return {
+      errorCount: this.errorCount,
+      warningCount: this.warningCount,
+      projects: this.projects,
+      exitStatus: solutionExitStatus(this.errorCount, this.projects),
+    };
+  }
+}
+
+/**
+ * Keeps track of the errors and failures reported by the transformers of a
+ * project.
+ */
+class ProjectTransformation {
+  public diagnosticCount = 0;
+  public errorCount = 0;
+  public failed = false;
+  /** The output files registered by transformers. */
+  public readonly additionalOutputs = new Array<EmittedFile>();
+  public readonly options: ProjectTransformationOptions;
+
+  public constructor(system: ts.System, reportDiagnostic: ts.DiagnosticReporter) {
+    this.options = {
+      system,
+      addOutputFile: (fileName, data) =>
+        this.additionalOutputs.push({
+          fileName,
+          data,
+          writeByteOrderMark: false,
+          additional: true,
+        }),
+      reportDiagnostic: (diag) => {
+        this.diagnosticCount++;
+        if (diag.category === ts.DiagnosticCategory.Error) {
+          this.errorCount++;
+        }
+        reportDiagnostic(diag);
+      },
+      reportFailure: (diag) => {
+        this.failed = true;
+        reportDiagnostic(diag);
+      },
+    };
+  }
+}
+
+/**
+ * The code of the status message listing the projects of a `verbose` build.
+ */
+const BUILD_QUEUE_STATUS = 6355;
+
+/**
+ * The codes of the status messages a `dry` solution builder reports about what
+ * it would do with a project, by the status they indicate. Other status
+ * messages explain why.
+ */
+const DRY_BUILD_STATUSES: ReadonlyMap<number, ProjectStatus> = new Map([
+  // A non-dry build would build project '{0}'
+  [6357, ProjectStatus.OutOfDate],
+  // A non-dry build would update output of project '{0}'
+  [6375, ProjectStatus.OutOfDate],
+  // Project '{0}' is up to date
+  [6361, ProjectStatus.UpToDate],
+  // A non-dry build would update timestamps for output of project '{0}'
+  [6374, ProjectStatus.UpToDate],
+  // Skipping build of project '{0}' because its dependency '{1}' has errors
+  [6362, ProjectStatus.Blocked],
+  // Skipping build of project '{0}' because its dependency '{1}' was not built
+  [6382, ProjectStatus.Blocked],
+]);
+
+/**
+ * Determines the plan of a project from the status messages a `dry` and
+ * `verbose` solution builder reported about it.
+ *
+ * @param project  the path to the project's configuration file.
+ * @param statuses the status messages reported about the project.
+ *
+ * @returns the plan of the project.
+ */
+function projectPlan(project: string, statuses: readonly ts.Diagnostic[]): ProjectPlan {
+  // Projects without a status (like projects with no inputs) are never built
+  const status =
+    statuses
+      .map(({ code }) => DRY_BUILD_STATUSES.get(code))
+      .find((projectStatus) => projectStatus != null) ?? ProjectStatus.UpToDate;
+  const reason = statuses.find(({ code }) => !DRY_BUILD_STATUSES.has(code));
+  return {
+    project,
+    status,
+    reason: reason && ts.flattenDiagnosticMessageText(reason.messageText, '\n'),
+  };
+}
+
+/**
+ * Determines which project a status message of a solution builder is about:
+ * the first project it names, as in "Project '{0}' is out of date because its
+ * dependency '{1}' is out of date".
+ *
+ * @param status           the status message.
+ * @param projects         the paths to the configuration files of the projects.
+ * @param currentDirectory the current directory of the solution builder.
+ *
+ * @returns the path to the project's configuration file, if the status names one.
+ */
+function statusProject(
+  status: ts.Diagnostic,
+  projects: readonly string[],
+  currentDirectory: string,
+): string | undefined {
+  const text = ts.flattenDiagnosticMessageText(status.messageText, '\n');
+  let result: string | undefined;
+  let resultIndex = text.length;
+  for (const project of projects) {
+    // Paths are quoted as is (so they can contain quotes themselves), relative
+    // to the current directory or not depending on the message.
+    const name = relative(currentDirectory, project).split(sep).join('/');
+    for (const index of [text.indexOf(`'${name}'`), text.indexOf(`'${project}'`)]) {
+      if (index >= 0 && index < resultIndex) {
+        result = project;
+        resultIndex = index;
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Creates the status message reporting files a `dry` clean would delete, like
+ * the one `tsc -b --clean --dry` reports for the outputs it knows about.
+ *
+ * @param fileNames the paths to the files.
+ *
+ * @returns the status message.
+ */
+function wouldDeleteStatus(fileNames: readonly string[]): ts.Diagnostic {
+  return {
+    category: ts.DiagnosticCategory.Message,
+    code: 6356,
+    file: undefined,
+    start: undefined,
+    length: undefined,
+    messageText: `A non-dry build would delete the following files: ${fileNames
+      .map((fileName) => `\r\n * ${fileName}`)
+      .join('')}`,
+  };
+}
+
+/**
+ * Describes a project that was built by a worker thread, for use in events.
+ * Such projects cannot be built again (`done` throws).
+ *
+ * @param project the path to the project's configuration file.
+ * @param system  the TypeScript system in use.
+ *
+ * @returns a description of the project.
+ */
+function builtProject(project: string, system: ts.System): ts.UpdateOutputFileStampsProject {
+  const alreadyBuilt = () => {
+    throw new Error(`${project} was already built by a worker thread`);
+  };
+  return {
+    kind: ts.InvalidatedProjectKind.UpdateOutputFileStamps,
+    project: project as ts.ResolvedConfigFileName,
+    getCompilerOptions: () => parseConfiguration(project, system)?.options ?? {},
+    getCurrentDirectory: system.getCurrentDirectory,
+    updateOutputFileStatmps: alreadyBuilt,
+    done: alreadyBuilt,
+  };
+}
+
+/**
+ * Creates a cancellation token that is cancelled when either an abort signal
+ * is aborted, or another cancellation token is cancelled.
+ *
+ * @param signal            the abort signal, if any.
+ * @param cancellationToken the cancellation token, if any.
+ *
+ * @returns the combined cancellation token, if any.
+ */
+function abortableToken(
+  signal: AbortSignalLike | undefined,
+  cancellationToken: ts.CancellationToken | undefined,
+): ts.CancellationToken | undefined {
+  if (signal == null) {
+    return cancellationToken;
+  }
+  const isCancellationRequested = () =>
+    signal.aborted || (cancellationToken?.isCancellationRequested() ?? false);
+  return {
+    isCancellationRequested,
+    throwIfCancellationRequested: () => {
+      if (isCancellationRequested()) {
+        throw new ts.OperationCanceledException();
+      }
+    },
+  };
+}
+
+/**
+ * @throws an `AbortError` if the signal has been aborted.
+ */
+function throwIfAborted(signal: AbortSignalLike | undefined): void {
+  if (signal?.aborted) {
+    throw abortError();
+  }
+}
+
+/**
+ * Determines the exit status of a project which outputs were skipped.
+ *
+ * @param reason the reason why outputs were skipped.
+ *
+ * @returns the exit status of the project.
+ */
+function skippedExitStatus(reason: OutputsSkippedReason): ts.ExitStatus {
+  switch (reason) {
+    case OutputsSkippedReason.InvalidProject:
+      return ts.ExitStatus.InvalidProject_OutputsSkipped;
+    case OutputsSkippedReason.ProjectReferenceCycle:
+      return ts.ExitStatus.ProjectReferenceCycle_OutputsSkipped;
+    default:
+      return ts.ExitStatus.DiagnosticsPresent_OutputsSkipped;
+  }
+}
+
+/**
+ * Determines the exit status of a solution build, the same way `tsc -b` does.
+ *
+ * @param errorCount the number of errors reported during the build.
+ * @param projects   the results of the built projects.
+ *
+ * @returns the exit status of the solution.
+ */
+function solutionExitStatus(
+  errorCount: number,
+  projects: readonly ProjectBuildResult[],
+): ts.ExitStatus {
+  if (
+    projects.some(
+      ({ exitStatus }) => exitStatus === ts.ExitStatus.ProjectReferenceCycle_OutputsSkipped,
+    )
+  ) {
+    return ts.ExitStatus.ProjectReferenceCycle_OutputsSkipped;
+  }
+  if (
+    errorCount === 0 &&
+    projects.every(({ exitStatus }) => exitStatus === ts.ExitStatus.Success)
+  ) {
+    return ts.ExitStatus.Success;
+  }
+  return projects.some(
+    ({ exitStatus }) =>
+      exitStatus === ts.ExitStatus.Success ||
+      exitStatus === ts.ExitStatus.DiagnosticsPresent_OutputsGenerated,
+  )
+    ? ts.ExitStatus.DiagnosticsPresent_OutputsGenerated
+    : ts.ExitStatus.DiagnosticsPresent_OutputsSkipped;
+}
+
+/**
+ * Obtains the configuration files of the projects referenced by an invalidated
+ * project.
+ *
+ * @param invalidatedProject the invalidated project.
+ * @param system             the TypeScript system in use.
+ *
+ * @returns the paths to the referenced projects' configuration files.
+ */
+function projectReferences(
+  invalidatedProject: ts.InvalidatedProject<ts.BuilderProgram>,
+  system: ts.System,
+): readonly string[] {
+  const references =
+    invalidatedProject.kind === ts.InvalidatedProjectKind.Build
+      ? invalidatedProject.getProgram()?.getProjectReferences()
+      : parseConfiguration(invalidatedProject.project, system)?.projectReferences;
+  return (references ?? []).map((ref) => ts.resolveProjectReferencePath(ref));
 }
@@ -0,0 +1,332 @@
+import * as ts from 'typescript';
+import { Transformer, TransformerContext, TransformerPhase } from './transformer';
+
+/**
+ * A handler for nodes visited by a `VisitorTransformer`.
+ *
+ * The handler's return value determines what happens to the node:
+ * - `undefined` keeps the node as-is,
+ * - a node replaces the visited node (nodes created from scratch are attributed
+ *   to the visited node's location, see `TransformerContext#replaceNode`),
+ * - an array of nodes replaces the visited node with all of these (an empty
+ *   array removes the visited node).
+ *
+ * @param node    the node being visited.
+ * @param context the context of the transformation.
+ *
+ * @returns the result of the visit.
+ */
+export type VisitorHandler<T extends ts.Node = ts.Node> = (
+  node: T,
+  context: TransformerContext,
+) => ts.Node | readonly ts.Node[] | undefined | void;
+
+/**
+ * The hooks of a `VisitorTransformer` handler.
+ */
+export interface VisitorHooks<T extends ts.Node = ts.Node> {
+  /**
+   * Invoked when a node is entered, before its children are visited. If this
+   * replaces or removes the node, the children of the original node are not
+   * visited, and replacement nodes are not visited either.
+   */
+  readonly enter?: VisitorHandler<T>;
+
+  /**
+   * Invoked when a node is exited, after its children have been visited. The
+   * node received here is the one with transformed children.
+   */
+  readonly exit?: VisitorHandler<T>;
+}
+
+/**
+ * A transformer that dispatches visited nodes to handlers registered by
+ * `ts.SyntaxKind` or by type guard. The recursion into child nodes, the
+ * replacement and removal of nodes, and the expansion into multiple nodes are
+ * all handled by this class.
+ *
+ * Handlers are registered using `on`, either on an instance or from the
+ * constructor of a subclass:
+ *
+ * ```ts
+ * const transformer = new VisitorTransformer()
+ *   .on(ts.isIdentifier, (node) => ts.factory.createIdentifier(node.text.toUpperCase()))
+ *   .on(ts.SyntaxKind.DebuggerStatement, () => []);
+ * ```
+ *
+ * When several handlers match a node, their `enter` hooks are invoked in
+ * registration order, and their `exit` hooks in reverse registration order.
+ * Once a hook has replaced or removed the node, no further hooks are invoked
+ * for it.
+ */
+export class VisitorTransformer extends Transformer {
+  /* eslint-disable @typescript-eslint/explicit-member-accessibility */
+  readonly #handlers = new Array<Handler>();
+  /* eslint-enable @typescript-eslint/explicit-member-accessibility */
+
+  /**
+   * @param phases the phases in which this transformer participates.
+   */
+  public constructor(public readonly phases?: readonly TransformerPhase[]) {
+    super();
+  }
+
+  /**
+   * Registers a handler for nodes of a given kind.
+   *
+   * @param kind  the kind of nodes to be handled.
+   * @param hooks the hooks to invoke, or a function used as the `enter` hook.
+   */
+  public on(kind: ts.SyntaxKind, hooks: VisitorHooks | VisitorHandler): this;
+  /**
+   * Registers a handler for nodes satisfying a type guard.
+   *
+   * @param guard the type guard nodes must satisfy to be handled.
+   * @param hooks the hooks to invoke, or a function used as the `enter` hook.
+   */
+  public on<T extends ts.Node>(
+    guard: (node: ts.Node) => node is T,
+    hooks: VisitorHooks<T> | VisitorHandler<T>,
+  ): this;
+  public on(
+    kindOrGuard: ts.SyntaxKind | ((node: ts.Node) => boolean),
+    hooks: VisitorHooks | VisitorHandler,
+  ): this {
+    const test =
+      typeof kindOrGuard === 'function'
+        ? kindOrGuard
+        : (node: ts.Node) => node.kind === kindOrGuard;
+    this.#handlers.push({ test, ...(typeof hooks === 'function' ? { enter: hooks } : hooks) });
+    return this;
+  }
+
+  public visit<T extends ts.Node>(node: T, context: TransformerContext): ts.VisitResult<T> {
+    const handlers = this.handlersFor(node);
+
+    const entered = invokeHooks(
+      node,
+      handlers.map(({ enter }) => enter),
+      context,
+    );
+    if (entered !== node) {
+      return entered as ts.VisitResult<T>;
+    }
+
+    const transformed = this.transformChildren(node, context);
+    return invokeHooks(
+      transformed,
+      handlers.map(({ exit }) => exit).reverse(),
+      context,
+    ) as ts.VisitResult<T>;
+  }
+
+  /**
+   * Obtains the handlers that match a given node.
+   *
+   * @param node the node to be handled.
+   *
+   * @returns the matching handlers, in registration order.
+   *
+   * @internal
+   */
+  public handlersFor(node: ts.Node): readonly VisitorHooks[] {
+    return this.#handlers.filter(({ test }) => test(node));
+  }
+
+  protected readonly nodeValidatorFactory = undefined;
+  protected readonly nodeLifterFactory = undefined;
+}
+
+interface Handler extends VisitorHooks {
+  readonly test: (node: ts.Node) => boolean;
+}
+
+/**
+ * Checks whether a transformer can be fused with others into a single AST
+ * traversal. This is the case of `VisitorTransformer`s that do not override
+ * the way nodes are visited.
+ *
+ * @param transformer the transformer to check.
+ *
+ * @returns `true` if the transformer can be fused.
+ *
+ * @internal
+ */
+export function isFusible(transformer: Transformer): transformer is VisitorTransformer {
+  return (
+    transformer instanceof VisitorTransformer &&
+    transformer.transform === Transformer.prototype.transform &&
+    transformer.transformChildren === Transformer.prototype.transformChildren &&
+    transformer.visit === VisitorTransformer.prototype.visit
+  );
+}
+
+/**
+ * A member of a fused traversal.
+ *
+ * @internal
+ */
+export interface FusedMember {
+  readonly transformer: VisitorTransformer;
+  readonly context: TransformerContext;
+}
+
+/**
+ * Wraps an exception thrown by a member of a fused traversal, so the failure
+ * can be attributed to the correct transformer.
+ *
+ * @internal
+ */
+export class FusedTransformerFailure extends Error {
+  public constructor(public readonly member: number, public readonly cause: any) {
+    super(cause?.message ?? `${cause}`);
+  }
+}
+
+/**
+ * Transforms a node with several `VisitorTransformer`s in a single traversal.
+ * Each node goes through the transformers in order: their `enter` hooks run
+ * first, then the node's children are visited, then their `exit` hooks run.
+ * When a transformer replaces (or expands) a node, the replacement nodes are
+ * only visited by the transformers that come after it, and not by the ones
+ * before it. Replacements made by `enter` hooks are visited entirely, children
+ * included. Replacements made by `exit` hooks only go through the hooks of the
+ * subsequent transformers, as their children were already visited by all
+ * transformers. Removed nodes are not seen by subsequent transformers.
+ *
+ * @param node    the node to be transformed.
+ * @param members the fused transformers, in execution order.
+ *
+ * @returns the transformed node.
+ *
+ * @internal
+ */
+export function transformFused<T extends ts.Node>(node: T, members: readonly FusedMember[]): T {
+  return ts.visitNode(node, (child) => visitFused(child, 0) as ts.VisitResult<ts.Node>);
+
+  function visitFused(node: ts.Node, from: number): ts.Node | readonly ts.Node[] {
+    const handlers = members.map(({ transformer }, index) =>
+      index < from ? [] : transformer.handlersFor(node),
+    );
+
+    for (let index = from; index < members.length; index++) {
+      const result = invokeMember(
+        node,
+        index,
+        handlers[index].map(({ enter }) => enter),
+      );
+      if (result !== node) {
+        return continueWith(result, index + 1);
+      }
+    }
+
+    const transformed = ts.visitEachChild(
+      node,
+      (child) => visitFused(child, from) as ts.VisitResult<ts.Node>,
+      members[from].context.context,
+    );
+
+    for (let index = from; index < members.length; index++) {
+      const hooks = handlers[index].map(({ exit }) => exit).reverse();
+      const result = invokeMember(transformed, index, hooks);
+      if (result !== transformed) {
+        return continueAfterExit(result, index + 1);
+      }
+    }
+    return transformed;
+  }
+
+  function continueAfterExit(
+    result: ts.Node | readonly ts.Node[],
+    from: number,
+  ): ts.Node | readonly ts.Node[] {
+    if (from >= members.length) {
+      return result;
+    }
+    if (isNodeArray(result)) {
+      return result.flatMap((node) => continueAfterExit(node, from));
+    }
+    // The children of the replacement were already visited, so they are not
+    // visited again: only the hooks of the subsequent transformers run.
+    const handlers = members.map(({ transformer }, index) =>
+      index < from ? [] : transformer.handlersFor(result),
+    );
+    for (const kind of ['enter', 'exit'] as const) {
+      for (let index = from; index < members.length; index++) {
+        const hooks = handlers[index].map((handlers) => handlers[kind]);
+        const replacement = invokeMember(result, index, kind === 'exit' ? hooks.reverse() : hooks);
+        if (replacement !== result) {
+          return continueAfterExit(replacement, index + 1);
+        }
+      }
+    }
+    return result;
+  }
+
+  function continueWith(
+    result: ts.Node | readonly ts.Node[],
+    from: number,
+  ): ts.Node | readonly ts.Node[] {
+    if (from >= members.length) {
+      return result;
+    }
+    if (isNodeArray(result)) {
+      return result.flatMap((node) => visitFused(node, from));
+    }
+    return visitFused(result, from);
+  }
+
+  function invokeMember(
+    node: ts.Node,
+    index: number,
+    hooks: ReadonlyArray<VisitorHandler | undefined>,
+  ): ts.Node | readonly ts.Node[] {
+    if (!hooks.some((hook) => hook != null)) {
+      return node;
+    }
+    const { context } = members[index];
+    context.currentNode = node;
+    try {
+      return invokeHooks(node, hooks, context);
+    } catch (error) {
+      throw new FusedTransformerFailure(index, error);
+    }
+  }
+}
+
+function isNodeArray(value: ts.Node | readonly ts.Node[]): value is readonly ts.Node[] {
+  return Array.isArray(value);
+}
+
+/**
+ * Checks whether a node was created from scratch, rather than parsed from a
+ * source file or derived from another node.
+ */
+function isSynthesizedFromScratch(node: ts.Node): boolean {
+  return node.pos < 0 && ts.getOriginalNode(node) === node;
+}
+
+/**
+ * Invokes hooks on a node in order, until one of them replaces or removes it.
+ *
+ * @param node    the node to invoke hooks on.
+ * @param hooks   the hooks to invoke (`undefined` entries are skipped).
+ * @param context the context of the transformation.
+ *
+ * @returns the node itself if no hook replaced it, or the replacement.
+ */
+function invokeHooks(
+  node: ts.Node,
+  hooks: ReadonlyArray<VisitorHandler | undefined>,
+  context: TransformerContext,
+): ts.Node | readonly ts.Node[] {
+  for (const hook of hooks) {
+    const result = hook?.(node, context);
+    if (result != null && result !== node) {
+      return isNodeArray(result) || !isSynthesizedFromScratch(result)
+        ? result
+        : context.replaceNode(node, result);
+    }
+  }
+  return node;
+}
@@ -1,4 +1,4 @@
-import { extname, join } from 'path';
+import { resolve } from 'path';
 import * as ts from 'typescript';
 
 /**
@@ -12,22 +12,76 @@ export interface IWatch {
 }
 
 /**
+ * A change to a watched file.
+ */
+export interface FileChange {
+  /** The path to the file that changed. */
+  readonly fileName: string;
+  /** What happened to the file. */
+  readonly kind: ts.FileWatcherEventKind;
+}
+
+/**
+ * Options for watching a solution.
+ */
+export interface SolutionWatchOptions {
+  /**
+   * How long to wait (in milliseconds) after a file change before building.
+   * Changes happening during that time (or during a build) are batched into
+   * a single build.
+   *
+   * @default 250
+   */
+  readonly debounce?: number;
+
+  /**
+   * The polling interval of file watchers, for systems that poll files.
+   */
+  readonly pollingInterval?: number;
+}
+
+/**
+ * Watches the files of a solution on behalf of a solution builder, which keeps
+ * its programs alive from one build to the next.
+ *
+ * The builder decides which files are watched, and which projects a change
+ * invalidates. Instead of building those projects itself (without any custom
+ * transformers), it schedules a build that is debounced and handed over to
+ * the callback.
+ *
  * @internal
  */
 export class Watch implements IWatch {
   /* eslint-disable @typescript-eslint/explicit-member-accessibility */
-  readonly #host: ts.WatchHost;
-  readonly #performBuild: (fileName: string) => void;
+  readonly #callback: (watch: Watch, changes: readonly FileChange[]) => void;
+  readonly #changes = new Map<string, ts.FileWatcherEventKind>();
+  readonly #debounce: number;
   readonly #pollingInterval?: number;
   readonly #system: ts.System;
-  readonly #watchers = new Map<string, ts.FileWatcher>();
+  readonly #watchers = new Set<ts.FileWatcher>();
+  readonly #watchedFiles = new Map<string, number>();
+  readonly #outputFiles = new Set<string>();
+  /** The build the solution builder scheduled, which completes a build cycle. */
+  #builderBuild?: () => void;
+  /** The change being notified to the solution builder. */
+  #change?: FileChange;
+  /** Incremented each time the solution builder is replaced. */
+  #generation = 0;
+  #building = false;
+  #quiet = false;
   #stopped = false;
+  #timeout?: ReturnType<NonNullable<ts.System['setTimeout']>>;
   /* eslint-enable @typescript-eslint/explicit-member-accessibility */
 
+  /**
+   * @param system   the TypeScript system to use.
+   * @param callback performs a build, given the changes that triggered it.
+   * @param options  options for the watch.
+   */
   public constructor(
     system: ts.System,
-    callback: (watch: Watch) => void,
-    pollingInterval?: number,
+    callback: (watch: Watch, changes: readonly FileChange[]) => void,
+    { debounce = 250, pollingInterval }: SolutionWatchOptions = {},
   ) {
     if (system.watchDirectory == null || system.watchFile == null) {
       throw new Error(
@@ -35,172 +89,278 @@ export class Watch implements IWatch {
       );
     }
 
-    this.#host = {
-      clearTimeout: system.clearTimeout,
-      onWatchStatusChange: () => undefined,
-      setTimeout: system.setTimeout,
-      watchDirectory: system.watchDirectory,
-      watchFile: system.watchFile,
-    };
-    this.#performBuild = () => {
-      if (this.#stopped) {
-        return;
-      }
-      callback(this);
-    };
+    this.#callback = callback;
+    this.#debounce = debounce;
     this.#pollingInterval = pollingInterval;
     this.#system = system;
   }
 
-  public watchConfigFile(path: string) {
-    const config = parseConfiguration(path, this.#system);
-    if (!this.#watchers.has(path)) {
-      this.#watchers.set(
-        path,
-        this.#host.watchFile(path, this.#performBuild, this.#pollingInterval),
+  /**
+   * Makes a solution builder host watch files and schedule builds through this
+   * watch. This must be called before the solution builder is created.
+   *
+   * @param host the host to be modified.
+   */
+  public wrapHost<T extends ts.BuilderProgram>(host: ts.SolutionBuilderWithWatchHost<T>): void {
+    const { reportDiagnostic, reportSolutionBuilderStatus, watchDirectory, watchFile } = host;
+    host.reportDiagnostic = (diagnostic) => {
+      // The builder reports the errors of all projects again when it completes
+      // a build cycle, but those were already reported when they were built.
+      if (!this.#quiet) {
+        reportDiagnostic(diagnostic);
+      }
+    };
+    host.reportSolutionBuilderStatus = (status) => {
+      if (!this.#quiet) {
+        reportSolutionBuilderStatus(status);
+      }
+    };
+    host.watchFile = (path, callback, pollingInterval, options) => {
+      const key = this.#toPath(path);
+      this.#watchedFiles.set(key, (this.#watchedFiles.get(key) ?? 0) + 1);
+      return this.#track(
+        watchFile(
+          path,
+          (fileName, kind) => this.#onChange(fileName, kind, () => callback(fileName, kind)),
+          this.#pollingInterval ?? pollingInterval,
+          options,
+        ),
+        () => {
+          const count = this.#watchedFiles.get(key)! - 1;
+          if (count > 0) {
+            this.#watchedFiles.set(key, count);
+          } else {
+            this.#watchedFiles.delete(key);
+          }
+        },
       );
+    };
+    host.watchDirectory = (path, callback, recursive, options) =>
+      this.#track(
+        watchDirectory(
+          path,
+          (fileName) =>
+            this.#onChange(fileName, this.#directoryEventKind(fileName), () => callback(fileName)),
+          recursive,
+          options,
+        ),
+      );
+    host.setTimeout = (callback, _ms, ...args) => {
+      this.#builderBuild = () => callback(...args);
+      if (this.#change != null) {
+        const { fileName, kind } = this.#change;
+        const previous = this.#changes.get(fileName);
+        this.#changes.set(fileName, previous != null ? coalesce(previous, kind) : kind);
+      }
+      if (!this.#building) {
+        this.#scheduleBuild();
+      }
+      return BUILDER_TIMEOUT;
+    };
+    host.clearTimeout = () => {
+      // Builds are debounced by this watch, so the builder's timeouts are only
+      // ever replaced by a new one.
+    };
+  }
+
+  /**
+   * Starts watching the files of a solution which was built by consuming the
+   * projects of its builder.
+   *
+   * @param builder the solution builder which host was wrapped.
+   */
+  public start<T extends ts.BuilderProgram>(builder: ts.SolutionBuilder<T>): void {
+    // All projects were built already, so this only sets up file watchers
+    this.#quietly(() => builder.build());
+  }
+
+  /**
+   * Checks whether a file is watched by the solution builder, regardless of
+   * the form of its path.
+   *
+   * @param fileName the path to the file.
+   *
+   * @returns `true` if the file is watched.
+   */
+  public isWatching(fileName: string): boolean {
+    return this.#watchedFiles.has(this.#toPath(fileName));
+  }
+
+  /**
+   * Closes all watchers, and forgets the build scheduled by the solution
+   * builder, before the builder is replaced with a new one.
+   */
+  public closeWatchers(): void {
+    this.#builderBuild = undefined;
+    this.#generation += 1;
+    for (const watcher of [...this.#watchers]) {
+      watcher.close();
     }
-    if (config) {
-      this.#watchWildCardDirectories(config, config.watchOptions);
-      this.#watchInputFiles(config, config.watchOptions);
+  }
+
+  /**
+   * Records files written by a build, which changes do not trigger a new build
+   * (even if they are not located in an output directory). Only the files of
+   * the last build are recorded.
+   *
+   * @param fileNames the paths to the files written by the build.
+   */
+  public addOutputFiles(fileNames: Iterable<string>): void {
+    for (const fileName of fileNames) {
+      this.#outputFiles.add(this.#toPath(fileName));
     }
   }
 
   public stop(): void {
     this.#stopped = true;
-    for (const path of [...this.#watchers.keys()]) {
-      this.#watchers.get(path)!.close();
-      this.#watchers.delete(path);
+    this.#changes.clear();
+    if (this.#timeout != null) {
+      this.#system.clearTimeout?.(this.#timeout);
+      this.#timeout = undefined;
     }
+    this.closeWatchers();
   }
 
+  /**
+   * Notifies the solution builder of a file change, which it may ignore (it
+   * then does not schedule any build). Output files are never notified.
+   */
   // eslint-disable-next-line @typescript-eslint/explicit-member-accessibility
-  #watchWildCardDirectories = (config: ts.ParsedCommandLine, watchOptions?: ts.WatchOptions) => {
-    for (const [path, flags] of Object.entries(config.wildcardDirectories ?? {})) {
-      if (this.#watchers.has(path)) {
-        continue;
-      }
-      this.#watchers.set(
-        path,
-        this.#host.watchDirectory(
-          path,
-          (fileName) => {
-            // If fileName is path, it's not a file, so below checks are pointless.
-            if (fileName !== path) {
-              // We don't care about stuff that's not a source file
-              if (!isSupportedSourceFile(fileName, config)) {
-                return;
-              }
-              // We don't care about stuff that's an output file
-              if (isOutputFile(fileName, config)) {
-                return;
-              }
-            }
-
-            this.#performBuild(fileName);
-          },
-          (flags & ts.WatchDirectoryFlags.Recursive) !== 0,
-          watchOptions,
-        ),
-      );
+  #onChange = (fileName: string, kind: ts.FileWatcherEventKind, notify: () => void): void => {
+    if (this.#stopped || this.#outputFiles.has(this.#toPath(fileName))) {
+      return;
+    }
+    this.#change = { fileName, kind };
+    try {
+      notify();
+    } finally {
+      this.#change = undefined;
+    }
+  };
+
+  /**
+   * Schedules a build once no other change happened for the debounce duration.
+   * Changes happening during a build are batched into the next one.
+   */
+  // eslint-disable-next-line @typescript-eslint/explicit-member-accessibility
+  #scheduleBuild = (): void => {
+    if (this.#system.setTimeout == null) {
+      // Changes cannot be debounced without timers
+      this.#performBuild();
+      return;
+    }
+    if (this.#timeout != null) {
+      this.#system.clearTimeout?.(this.#timeout);
     }
+    this.#timeout = this.#system.setTimeout(this.#performBuild, this.#debounce);
   };
 
   // eslint-disable-next-line @typescript-eslint/explicit-member-accessibility
-  #watchInputFiles = (config: ts.ParsedCommandLine, watchOptions?: ts.WatchOptions) => {
-    for (const path of config.fileNames) {
-      if (this.#watchers.has(path)) {
-        continue;
+  #performBuild = (): void => {
+    this.#timeout = undefined;
+    const builderBuild = this.#builderBuild;
+    if (this.#stopped || builderBuild == null) {
+      return;
+    }
+    const changes = Array.from(this.#changes, ([fileName, kind]) => ({ fileName, kind }));
+    this.#changes.clear();
+    // The changes of the outputs of the previous build were notified by now
+    this.#outputFiles.clear();
+    this.#builderBuild = undefined;
+    const generation = this.#generation;
+    this.#building = true;
+    try {
+      this.#callback(this, changes);
+      // The builder's own build finds no project left to build, and completes
+      // the build cycle (for example, by clearing its file caches). It must not
+      // run if projects were invalidated during the build, as it would build
+      // them without any custom transformers: the next build completes instead.
+      // Replaced builders are simply dropped.
+      if (this.#builderBuild == null && this.#generation === generation) {
+        this.#quietly(builderBuild);
       }
-      this.#watchers.set(
-        path,
-        this.#host.watchFile(path, this.#performBuild, this.#pollingInterval, watchOptions),
-      );
+    } finally {
+      this.#building = false;
+    }
+    if (this.#builderBuild != null) {
+      this.#scheduleBuild();
     }
   };
-}
 
-const TS_SOURCE_EXTENSIONS = ['.ts', '.tsx'];
+  // eslint-disable-next-line @typescript-eslint/explicit-member-accessibility
+  #quietly = (action: () => void): void => {
+    this.#quiet = true;
+    try {
+      action();
+    } finally {
+      this.#quiet = false;
+    }
+  };
 
-/**
- * Checks whether a file is a supported source file.
- *
- * @param path   the path to the checked file.
- * @param config the compiler configuration.
- *
- * @returns `true` if the file is a supported input file.
- */
-function isSupportedSourceFile(path: string, config: ts.ParsedCommandLine): boolean {
-  const supportedExts = new Set(TS_SOURCE_EXTENSIONS);
-  if (config.options.allowJs) {
-    supportedExts.add('.js');
-    supportedExts.add('.jsx');
-  }
-  if (config.options.resolveJsonModule) {
-    supportedExts.add('.json');
-  }
-  return supportedExts.has(extname(path));
+  /**
+   * Keeps track of a watcher, so it is closed when this watch stops.
+   */
+  // eslint-disable-next-line @typescript-eslint/explicit-member-accessibility
+  #track = (watcher: ts.FileWatcher, onClose?: () => void): ts.FileWatcher => {
+    this.#watchers.add(watcher);
+    return {
+      close: () => {
+        if (this.#watchers.delete(watcher)) {
+          watcher.close();
+          onClose?.();
+        }
+      },
+    };
+  };
+
+  /**
+   * Determines what happened to a file reported by a directory watcher, which
+   * does not tell.
+   */
+  // eslint-disable-next-line @typescript-eslint/explicit-member-accessibility
+  #directoryEventKind = (fileName: string): ts.FileWatcherEventKind => {
+    if (!this.#system.fileExists(fileName)) {
+      return ts.FileWatcherEventKind.Deleted;
+    }
+    return this.isWatching(fileName)
+      ? ts.FileWatcherEventKind.Changed
+      : ts.FileWatcherEventKind.Created;
+  };
+
+  /**
+   * Normalizes a path for comparisons, like the solution builder does: made
+   * absolute, and lower-cased if file names are not case-sensitive.
+   */
+  // eslint-disable-next-line @typescript-eslint/explicit-member-accessibility
+  #toPath = (fileName: string): string => {
+    const path = resolve(this.#system.getCurrentDirectory(), fileName).replace(/\\/g, '/');
+    return this.#system.useCaseSensitiveFileNames ? path : path.toLowerCase();
+  };
 }
 
 /**
- * Checks whether a given file is an output of the compiler.
- *
- * @param path   the path the the checked file.
- * @param config the compilation configuration.
- *
- * @returns `true` if the file is an output file.
+ * The identifier of the timeouts set by solution builders, which are handled
+ * by `Watch` instead.
  */
-function isOutputFile(path: string, config: ts.ParsedCommandLine): boolean {
-  // If we don't emit, it cannot be an output file!
-  if (config.options.noEmit) {
-    return false;
-  }
-
-  // .ts (that are not .d.ts) and .tsx files are never output files
-  if (!path.endsWith('.d.ts') && (path.endsWith('.ts') || path.endsWith('.tsx'))) {
-    return false;
-  }
-
-  // If there's an outFile, and this is it, then obviously...
-  const outFile = config.options.outFile ?? config.options.out;
-  if (outFile && (outFile === path || outFile.replace(/\.[^.]*$/i, '.d.ts') === path)) {
-    return true;
-  }
-
-  // If there's a declarationDir, and the file is in there, then obviously...
-  if (config.options.declarationDir && path.startsWith(join(config.options.declarationDir, ''))) {
-    return true;
-  }
-
-  // If there's an outDir, and the file is in there, then obviously...
-  if (config.options.outDir && path.startsWith(join(config.options.outDir, ''))) {
-    return true;
-  }
-
-  // Otherwise we just assume it's not an output file...
-  return false;
-}
+const BUILDER_TIMEOUT = Symbol('builder timeout');
 
 /**
- * Parses the command line from the configuration at the given path.
+ * Combines two successive events on the same file into one.
  *
- * @param path the path to the configuration file.
- * @param host the solution builder host.
+ * @param previous the event that happened first.
+ * @param next     the event that happened next.
  *
- * @returns the parsed command line.
+ * @returns the combined event.
  */
-function parseConfiguration(path: string, system: ts.System): ts.ParsedCommandLine | undefined {
-  return ts.getParsedCommandLineOfConfigFile(
-    path,
-    {},
-    {
-      fileExists: system.fileExists,
-      getCurrentDirectory: system.getCurrentDirectory,
-      onUnRecoverableConfigFileDiagnostic: () => undefined,
-      readDirectory: system.readDirectory,
-      readFile: system.readFile,
-      useCaseSensitiveFileNames: system.useCaseSensitiveFileNames,
-      trace: undefined,
-    },
-  );
+function coalesce(
+  previous: ts.FileWatcherEventKind,
+  next: ts.FileWatcherEventKind,
+): ts.FileWatcherEventKind {
+  if (previous === ts.FileWatcherEventKind.Created && next === ts.FileWatcherEventKind.Changed) {
+    return ts.FileWatcherEventKind.Created;
+  }
+  if (previous === ts.FileWatcherEventKind.Deleted && next === ts.FileWatcherEventKind.Created) {
+    return ts.FileWatcherEventKind.Changed;
+  }
+  return next;
 }
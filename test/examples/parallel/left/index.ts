@@ -0,0 +1 @@
+export const left = 'left';
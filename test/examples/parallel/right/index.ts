@@ -0,0 +1 @@
+export const right = 'right';
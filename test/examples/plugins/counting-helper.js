@@ -0,0 +1,6 @@
+const calls = {};
+
+module.exports.calls = calls;
+module.exports.count = (name) => {
+  calls[name] = (calls[name] ?? 0) + 1;
+};
@@ -0,0 +1,13 @@
+const { count } = require('./counting-helper');
+
+// A "program"-type plugin, counting how many times each of its functions is invoked.
+module.exports = () => {
+  count('factory');
+  return () => {
+    count('transformer');
+    return (sourceFile) => {
+      count('file');
+      return sourceFile;
+    };
+  };
+};
@@ -0,0 +1,3 @@
+export function main(..._args: string[]): number {
+  return 0;
+}
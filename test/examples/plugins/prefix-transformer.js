@@ -0,0 +1,28 @@
+const ts = require('typescript');
+const { Transformer } = require('../../../lib');
+
+// A transformer class declaring the schema of its options, prefixing identifiers.
+module.exports = class PrefixTransformer extends Transformer {
+  get phases() {
+    return ['before'];
+  }
+
+  get optionsSchema() {
+    return {
+      type: 'object',
+      properties: {
+        prefix: { type: 'string', pattern: '^[A-Za-z_$]', default: '_' },
+        case: { enum: ['lower', 'upper'] },
+      },
+      additionalProperties: false,
+    };
+  }
+
+  visit(node, context) {
+    if (ts.isIdentifier(node)) {
+      const text = context.options.case === 'upper' ? node.text.toUpperCase() : node.text;
+      return ts.factory.createIdentifier(`${context.options.prefix}${text}`);
+    }
+    return this.transformChildren(node, context);
+  }
+};
@@ -0,0 +1,24 @@
+const ts = require('typescript');
+
+// A "config"-type plugin, upcasing all identifiers and appending a suffix to them.
+module.exports = ({ suffix = '' }) => (context) => (sourceFile) => {
+  const visitor = (node) => {
+    if (ts.isIdentifier(node)) {
+      return ts.factory.createIdentifier(`${node.text.toUpperCase()}${suffix}`);
+    }
+    return ts.visitEachChild(node, visitor, context);
+  };
+  return ts.visitNode(sourceFile, visitor);
+};
+
+// A "program"-type plugin, adding a leading comment to declaration files.
+module.exports.declarations = (_program, _config, { ts }) => (_context) => (sourceFile) =>
+  ts.factory.updateSourceFile(sourceFile, [
+    ts.addSyntheticLeadingComment(
+      ts.factory.createEmptyStatement(),
+      ts.SyntaxKind.MultiLineCommentTrivia,
+      ' Generated by tsc-tk ',
+      true,
+    ),
+    ...sourceFile.statements,
+  ]);
@@ -0,0 +1,38 @@
+import { globRegExp } from '../lib/glob';
+
+describe('globRegExp', () => {
+  test.each([
+    ['*.test.ts', '/project/src/index.test.ts', true],
+    ['*.test.ts', '/project/src/index.ts', false],
+    ['src/*.ts', '/project/src/index.ts', true],
+    ['src/*.ts', '/project/src/nested/index.ts', false],
+    ['src/**/*.ts', '/project/src/nested/deeply/index.ts', true],
+    ['src/**/*.ts', '/project/src/index.ts', true],
+    ['src/**', '/project/src/nested/index.ts', true],
+    ['file?.ts', '/project/file1.ts', true],
+    ['file?.ts', '/project/file10.ts', false],
+    ['file?.ts', '/project/file/.ts', false],
+    ['*.{ts,tsx}', '/project/component.tsx', true],
+    ['*.{ts,tsx}', '/project/component.js', false],
+    ['{src,test}/**/*.ts', '/project/test/index.ts', true],
+    ['{src,test}/**/*.ts', '/project/lib/index.ts', false],
+    ['/project/src/*.ts', '/project/src/index.ts', true],
+    ['/project/src/*.ts', '/other/project/src/index.ts', false],
+    ['api/*.ts', '/project/my-api/index.ts', false],
+    ['*.d.ts', '/project/index.dts', false],
+    ['(a|b)+.ts', '/project/(a|b)+.ts', true],
+    ['(a|b)+.ts', '/project/a.ts', false],
+    ['[ab].ts', '/project/[ab].ts', true],
+    ['[ab].ts', '/project/a.ts', false],
+    ['^a$.ts', '/project/^a$.ts', true],
+    ['a,b}.ts', '/project/a,b}.ts', true],
+  ])('%s matches %s: %s', (pattern, path, matches) => {
+    expect(globRegExp(pattern).test(path)).toBe(matches);
+  });
+
+  test('unclosed alternatives are rejected', () => {
+    expect(() => globRegExp('src/{a,b/*.ts')).toThrow(
+      'Invalid glob pattern "src/{a,b/*.ts": "{" is not closed',
+    );
+  });
+});
@@ -0,0 +1,239 @@
+import * as ts from 'typescript';
+import {
+  BuildEvent,
+  InMemorySystem,
+  Transformer,
+  TransformerContext,
+  TransformerPhase,
+  TypeScriptSolution,
+} from '../lib';
+import { walkFiles } from '../lib/in-memory-system';
+
+const tsconfig = JSON.stringify({ compilerOptions: { outDir: 'dist' }, include: ['src'] });
+
+describe('file system', () => {
+  test('files and directories', () => {
+    const system = new InMemorySystem({
+      files: { 'src/index.ts': 'export const a = 1;' },
+      currentDirectory: '/project',
+    });
+
+    expect(system.fileExists('/project/src/index.ts')).toBe(true);
+    expect(system.directoryExists('/project/src')).toBe(true);
+    expect(system.getDirectories('/project')).toEqual(['src']);
+    expect(system.readDirectory('/project', ['.ts'])).toEqual(['/project/src/index.ts']);
+
+    system.deleteFile('src/index.ts');
+
+    expect(system.fileExists('/project/src/index.ts')).toBe(false);
+    expect(system.fileNames).toEqual([]);
+  });
+
+  test('directories are read like TypeScript does without its internal implementation', () => {
+    const system = new InMemorySystem({
+      files: {
+        '/project/src/index.ts': '',
+        '/project/src/index.test.ts': '',
+        '/project/src/styles.css': '',
+        '/project/src/nested/deep.ts': '',
+        '/project/lib/other.ts': '',
+        '/project/node_modules/dep/index.d.ts': '',
+        '/project/top.ts': '',
+      },
+      currentDirectory: '/project',
+    });
+    const entries = (path: string) => ({
+      files: system
+        .readDirectory(path, undefined, undefined, undefined, 1)
+        .map((file) => file.substr(path.length + 1)),
+      directories: system.getDirectories(path),
+    });
+
+    for (const [path, extensions, excludes, includes, depth] of [
+      ['/project', undefined, undefined, undefined, undefined],
+      ['/project', ['.ts'], ['node_modules'], ['src', 'top.ts'], undefined],
+      ['.', ['.ts', '.d.ts'], ['**/*.test.ts'], ['**/*'], undefined],
+      ['/project', ['.ts'], undefined, ['src/*'], undefined],
+      ['/project', undefined, undefined, undefined, 2],
+    ] as const) {
+      expect(
+        walkFiles(path, extensions, excludes, includes, true, '/project', depth, entries).sort(),
+      ).toEqual(system.readDirectory(path, extensions, excludes, includes, depth).sort());
+    }
+  });
+
+  test('modification times are strictly increasing', () => {
+    const system = new InMemorySystem();
+
+    system.writeFile('/a.ts', 'a');
+    system.writeFile('/b.ts', 'b');
+
+    expect(system.getModifiedTime('/a.ts')!.getTime()).toBeLessThan(
+      system.getModifiedTime('/b.ts')!.getTime(),
+    );
+  });
+
+  test('default library files are readable', () => {
+    const system = new InMemorySystem();
+
+    expect(system.fileExists(ts.getDefaultLibFilePath({}))).toBe(true);
+  });
+
+  test('case-insensitive file names', () => {
+    const system = new InMemorySystem({
+      files: { '/Index.ts': 'export {};' },
+      useCaseSensitiveFileNames: false,
+    });
+
+    expect(system.readFile('/index.TS')).toBe('export {};');
+  });
+});
+
+describe('timers', () => {
+  test('timers only run when the clock is advanced', () => {
+    const system = new InMemorySystem();
+    const calls = new Array<string>();
+    system.setTimeout((name: string) => calls.push(name), 20, 'late');
+    system.setTimeout((name: string) => calls.push(name), 10, 'early');
+    const cleared = system.setTimeout((name: string) => calls.push(name), 5, 'cleared');
+    system.clearTimeout(cleared);
+
+    expect(calls).toEqual([]);
+
+    system.advanceTimers(15);
+    expect(calls).toEqual(['early']);
+
+    system.runAllTimers();
+    expect(calls).toEqual(['early', 'late']);
+    expect(system.pendingTimers).toBe(0);
+  });
+
+  test('runAllTimers fails on timers that re-schedule forever', () => {
+    const system = new InMemorySystem();
+    const reschedule = () => system.setTimeout(reschedule, 1);
+    reschedule();
+
+    expect(() => system.runAllTimers(10)).toThrow(/still pending/);
+  });
+
+  test('watchers are notified through timers', () => {
+    const system = new InMemorySystem({ files: { '/src/index.ts': '' } });
+    const fileEvents = new Array<[string, ts.FileWatcherEventKind]>();
+    const directoryEvents = new Array<string>();
+    system.watchFile('/src/index.ts', (path, kind) => fileEvents.push([path, kind]));
+    const watcher = system.watchDirectory('/', (path) => directoryEvents.push(path), true);
+
+    system.writeFile('/src/index.ts', 'export {};');
+    system.writeFile('/src/nested/other.ts', 'export {};');
+    system.deleteFile('/src/index.ts');
+    expect(fileEvents).toEqual([]);
+
+    system.runAllTimers();
+    watcher.close();
+    system.writeFile('/unwatched.ts', '');
+    system.runAllTimers();
+
+    expect(fileEvents).toEqual([
+      ['/src/index.ts', ts.FileWatcherEventKind.Changed],
+      ['/src/index.ts', ts.FileWatcherEventKind.Deleted],
+    ]);
+    expect(directoryEvents).toEqual([
+      '/src/index.ts',
+      '/src/nested',
+      '/src/nested/other.ts',
+      '/src/index.ts',
+    ]);
+  });
+
+  test('watched paths are listed until their watchers are closed', () => {
+    const system = new InMemorySystem();
+    const first = system.watchFile('/src/index.ts', () => undefined);
+    const second = system.watchFile('/src/index.ts', () => undefined);
+    const directory = system.watchDirectory('/src', () => undefined);
+
+    expect(system.watchedFiles).toEqual(['/src/index.ts']);
+    expect(system.watchedDirectories).toEqual(['/src']);
+
+    first.close();
+    directory.close();
+    expect(system.watchedFiles).toEqual(['/src/index.ts']);
+    expect(system.watchedDirectories).toEqual([]);
+
+    second.close();
+    expect(system.watchedFiles).toEqual([]);
+  });
+});
+
+describe('TypeScriptSolution', () => {
+  test('the constructor checks the configuration file exists in the system', () => {
+    const system = new InMemorySystem();
+
+    expect(() => new TypeScriptSolution('/tsconfig.json', undefined, { system })).toThrow(
+      /does not exist/,
+    );
+  });
+
+  test('builds entirely in memory', () => {
+    const system = new InMemorySystem({
+      files: {
+        '/project/tsconfig.json': tsconfig,
+        '/project/src/index.ts': 'export function main() {}',
+      },
+    });
+    const solution = new TypeScriptSolution('/project/tsconfig.json', undefined, { system });
+    solution.transformers.addTransformer(new UpcasingTransformer());
+    const diagnostics = new Array<ts.Diagnostic>();
+    solution.on(BuildEvent.Diagnostic, (diag) => diagnostics.push(diag));
+
+    solution.build();
+
+    expect(diagnostics).toEqual([]);
+    expect(system.readFile('/project/dist/index.js')).toContain('function MAIN()');
+  });
+
+  test('watches entirely in memory', () => {
+    const system = new InMemorySystem({
+      files: {
+        '/project/tsconfig.json': tsconfig,
+        '/project/src/index.ts': 'export function main() {}',
+      },
+    });
+    const solution = new TypeScriptSolution('/project/tsconfig.json', undefined, { system });
+    let builds = 0;
+    solution.on(BuildEvent.BeforeSolution, () => (builds += 1));
+
+    const watch = solution.watch();
+    try {
+      expect(builds).toBe(1);
+      expect(system.readFile('/project/dist/index.js')).toContain('function main()');
+
+      system.writeFile('/project/src/index.ts', 'export function other() {}');
+      expect(builds).toBe(1);
+
+      system.runAllTimers();
+      expect(builds).toBeGreaterThan(1);
+      expect(system.readFile('/project/dist/index.js')).toContain('function other()');
+
+      // New files in watched directories are picked up as well
+      system.writeFile('/project/src/added.ts', 'export const added = true;');
+      system.runAllTimers();
+      expect(system.readFile('/project/dist/added.js')).toContain('exports.added = true');
+    } finally {
+      watch.stop();
+    }
+  });
+});
+
+class UpcasingTransformer extends Transformer {
+  public readonly phases = [TransformerPhase.Before];
+
+  public visit<T extends ts.Node>(node: T, context: TransformerContext) {
+    if (ts.isIdentifier(node)) {
+      return ts.factory.createIdentifier(node.text.toUpperCase()) as unknown as T;
+    }
+    return this.transformChildren(node, context);
+  }
+
+  protected readonly nodeValidatorFactory = undefined;
+  protected readonly nodeLifterFactory = undefined;
+}
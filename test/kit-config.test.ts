@@ -0,0 +1,239 @@
+import { writeFile } from 'fs';
+import { resolve } from 'path';
+import * as ts from 'typescript';
+import { promisify } from 'util';
+import {
+  BuildEvent,
+  findKitConfig,
+  INVALID_OPTIONS_CODE,
+  InMemorySystem,
+  kitConfigTransformers,
+  readKitConfig,
+  Transformer,
+  TRANSFORMER_LOAD_FAILURE_CODE,
+  Transformers,
+  TransformerPhase,
+  TypeScriptSolution,
+} from '../lib';
+import { withTemporaryCopy } from './utils';
+
+const upcasePlugin = resolve(__dirname, 'examples', 'plugins', 'upcase-plugin.js');
+const prefixTransformer = resolve(__dirname, 'examples', 'plugins', 'prefix-transformer.js');
+
+const files = {
+  '/solution/tsconfig.json': JSON.stringify({
+    files: [],
+    references: [{ path: 'app' }, { path: 'api' }],
+  }),
+  '/solution/app/tsconfig.json': '{ "compilerOptions": { "outDir": "dist" } }',
+  '/solution/app/index.ts': 'export function main() {}',
+  '/solution/api/tsconfig.json': '{ "compilerOptions": { "outDir": "dist" } }',
+  '/solution/api/index.ts': 'export function handler() {}',
+};
+
+test('transformers declared in tsc-tk.config.json are applied, with per-project overrides', () => {
+  const system = new InMemorySystem({
+    files: {
+      ...files,
+      '/solution/tsc-tk.config.json': `{
+        // Comments are allowed, like in tsconfig.json files
+        "transformers": [{ "transform": ${JSON.stringify(upcasePlugin)}, "type": "config" }],
+        "projects": {
+          "api": {
+            "transformers": [
+              {
+                "transform": ${JSON.stringify(upcasePlugin)},
+                "type": "config",
+                "options": { "suffix": "_API" },
+                "name": "upcase",
+                "phases": ["after"]
+              }
+            ]
+          }
+        }
+      }`,
+    },
+  });
+  const configFile = findKitConfig('/solution/tsconfig.json', system)!;
+  expect(configFile.path).toBe('/solution/tsc-tk.config.json');
+
+  const transformers = new Transformers().addTransformerProvider(kitConfigTransformers(configFile));
+  expect(transformers.executionOrder('/solution/api/tsconfig.json')).toEqual({
+    [TransformerPhase.Before]: [],
+    [TransformerPhase.After]: ['upcase'],
+    [TransformerPhase.AfterDeclarations]: [],
+  });
+
+  const solution = new TypeScriptSolution('/solution/tsconfig.json', transformers, { system });
+  const diagnostics = new Array<ts.Diagnostic>();
+  solution.on(BuildEvent.Diagnostic, (diag) => diagnostics.push(diag));
+  solution.build();
+
+  expect(diagnostics).toEqual([]);
+  expect(system.readFile('/solution/app/dist/index.js')).toContain('function MAIN()');
+  expect(system.readFile('/solution/api/dist/index.js')).toContain('function HANDLER_API()');
+});
+
+test('the "tsc-tk" key of package.json is used when there is no tsc-tk.config file', () => {
+  const system = new InMemorySystem({
+    files: {
+      ...files,
+      '/solution/package.json': JSON.stringify({
+        name: 'solution',
+        'tsc-tk': { reporter: 'junit', watch: { debounce: 1000 } },
+      }),
+      '/solution/app/package.json': JSON.stringify({ name: 'app' }),
+    },
+  });
+
+  expect(findKitConfig('/solution/tsconfig.json', system)).toEqual({
+    path: '/solution/package.json',
+    config: { reporter: 'junit', watch: { debounce: 1000 } },
+  });
+  expect(findKitConfig('/solution/app/tsconfig.json', system)).toBeUndefined();
+});
+
+test('invalid configurations are reported with every error they have', () => {
+  const system = new InMemorySystem({
+    files: {
+      '/tsc-tk.config.json': JSON.stringify({
+        transformers: [
+          { type: 'program' },
+          { transform: './a.js', phases: ['during'] },
+          { transform: './b.js', include: ['src/{a,b'] },
+        ],
+        projects: { api: { transformers: {} } },
+        reporter: 'xml',
+        maxWarnings: -1,
+        watch: { debounce: '1s' },
+        plugins: [],
+      }),
+    },
+  });
+
+  expect(() => readKitConfig('/tsc-tk.config.json', system)).toThrow(
+    [
+      'Invalid tsc-tk configuration in /tsc-tk.config.json:',
+      '  - transformers[0].transform is required',
+      '  - transformers[1].phases[0] must be one of "before", "after", "afterDeclarations"',
+      '  - transformers[2].include[0] is not a valid glob pattern: "{" is not closed',
+      '  - projects["api"].transformers must be an array',
+      '  - reporter must be one of "pretty", "json", "sarif", "junit"',
+      '  - maxWarnings must be a non-negative integer',
+      '  - watch.debounce must be a non-negative number',
+      '  - plugins is not a known property',
+    ].join('\n'),
+  );
+});
+
+test('transformer options are validated, and invalid ones are reported where they are declared', () => {
+  const configText = `{
+    "transformers": [{ "transform": ${JSON.stringify(prefixTransformer)} }],
+    "projects": {
+      "api": {
+        "transformers": [
+          { "transform": ${JSON.stringify(prefixTransformer)}, "options": { "case": "title" } }
+        ]
+      }
+    }
+  }`;
+  const system = new InMemorySystem({
+    files: { ...files, '/solution/tsc-tk.config.json': configText },
+  });
+  const transformers = new Transformers().addTransformerProvider(
+    kitConfigTransformers(findKitConfig('/solution/tsconfig.json', system)!),
+  );
+  const solution = new TypeScriptSolution('/solution/tsconfig.json', transformers, { system });
+  const diagnostics = new Array<ts.Diagnostic>();
+  solution.on(BuildEvent.Diagnostic, (diag) => diagnostics.push(diag));
+  solution.build();
+
+  // Default options apply to the app, but the options of the api are invalid
+  expect(system.readFile('/solution/app/dist/index.js')).toContain('function _main()');
+  expect(system.fileExists('/solution/api/dist/index.js')).toBe(false);
+  expect(diagnostics).toHaveLength(1);
+  const [{ code, file, start, length, messageText }] = diagnostics;
+  expect(code).toBe(INVALID_OPTIONS_CODE);
+  expect(messageText).toBe(
+    'Invalid options for transformer PrefixTransformer: case must be one of "lower", "upper"',
+  );
+  expect(file?.fileName).toBe('/solution/tsc-tk.config.json');
+  expect(configText.substr(start!, length)).toBe('"title"');
+});
+
+test('transformers are loaded once, and provided with the same instances', () => {
+  const system = new InMemorySystem({
+    files: {
+      ...files,
+      '/solution/tsc-tk.config.json': JSON.stringify({
+        transformers: [{ transform: upcasePlugin, type: 'config' }],
+      }),
+    },
+  });
+  const provider = kitConfigTransformers(findKitConfig('/solution/tsconfig.json', system)!);
+  const transformers = (project: string) =>
+    provider(`/solution/${project}/tsconfig.json`, {}, system).map((provided) =>
+      provided instanceof Transformer ? provided : provided.transformer,
+    );
+
+  const [transformer] = transformers('app');
+  expect(transformers('app')[0]).toBe(transformer);
+  expect(transformers('api')[0]).toBe(transformer);
+});
+
+test('transformers that cannot be loaded are reported where they are declared', () => {
+  const configText = `{
+    "transformers": [
+      { "transform": ${JSON.stringify(prefixTransformer)} },
+      { "transform": "./does-not-exist" }
+    ]
+  }`;
+  const system = new InMemorySystem({
+    files: { ...files, '/solution/tsc-tk.config.json': configText },
+  });
+  const transformers = new Transformers().addTransformerProvider(
+    kitConfigTransformers(findKitConfig('/solution/tsconfig.json', system)!),
+  );
+  const solution = new TypeScriptSolution('/solution/tsconfig.json', transformers, { system });
+  const diagnostics = new Array<ts.Diagnostic>();
+  solution.on(BuildEvent.Diagnostic, (diag) => diagnostics.push(diag));
+  const result = solution.build();
+
+  expect(result.exitStatus).toBe(ts.ExitStatus.DiagnosticsPresent_OutputsSkipped);
+  expect(system.fileExists('/solution/app/dist/index.js')).toBe(false);
+  expect(system.fileExists('/solution/api/dist/index.js')).toBe(false);
+  expect(diagnostics).toHaveLength(2);
+  for (const { code, file, start, length, messageText } of diagnostics) {
+    expect(code).toBe(TRANSFORMER_LOAD_FAILURE_CODE);
+    expect(messageText).toMatch(
+      /^Unable to load transformer plugin "\.\/does-not-exist" declared in \/solution\/tsc-tk\.config\.json: /,
+    );
+    expect(file?.fileName).toBe('/solution/tsc-tk.config.json');
+    expect(configText.substr(start!, length)).toBe('{ "transform": "./does-not-exist" }');
+  }
+});
+
+test('malformed configuration files are reported', () => {
+  const system = new InMemorySystem({ files: { '/tsc-tk.config.json': '{ "transformers": [ }' } });
+
+  expect(() => readKitConfig('/tsc-tk.config.json', system)).toThrow(
+    /^Unable to load tsc-tk configuration from \/tsc-tk\.config\.json: /,
+  );
+});
+
+test('tsc-tk.config.js takes precedence over tsc-tk.config.json', async () => {
+  return withTemporaryCopy(resolve(__dirname, 'examples', 'plugins'), async (copyRoot) => {
+    await Promise.all([
+      promisify(writeFile)(
+        resolve(copyRoot, 'tsc-tk.config.js'),
+        "module.exports = { transformers: [{ transform: './upcase-plugin.js', type: 'config' }] };",
+      ),
+      promisify(writeFile)(resolve(copyRoot, 'tsc-tk.config.json'), '{ "reporter": "json" }'),
+    ]);
+
+    expect(findKitConfig(resolve(copyRoot, 'tsconfig.json'))).toEqual({
+      path: resolve(copyRoot, 'tsc-tk.config.js'),
+      config: { transformers: [{ transform: './upcase-plugin.js', type: 'config' }] },
+    });
+  });
+});
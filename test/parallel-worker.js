@@ -0,0 +1,23 @@
+// Runs parallel build workers from the TypeScript sources, which are
+// transpiled as they are loaded (like ts-jest does in the test process).
+// Node runs this script as is, so it uses require() rather than imports.
+/* eslint-disable @typescript-eslint/no-require-imports */
+const { readFileSync } = require('fs');
+const { resolve } = require('path');
+const ts = require('typescript');
+
+const rootDir = resolve(__dirname, '..');
+const { options } = ts.convertCompilerOptionsFromJson(
+  ts.readConfigFile(resolve(rootDir, 'tsconfig.json'), ts.sys.readFile).config.compilerOptions,
+  rootDir,
+);
+
+require.extensions['.ts'] = (module, fileName) => {
+  const { outputText } = ts.transpileModule(readFileSync(fileName, 'utf-8'), {
+    fileName,
+    compilerOptions: options,
+  });
+  module._compile(outputText, fileName);
+};
+
+require('../lib/parallel-worker.ts');
@@ -0,0 +1,174 @@
+import { readFile } from 'fs';
+import { resolve } from 'path';
+import * as ts from 'typescript';
+import { promisify } from 'util';
+import {
+  BuildEvent,
+  InMemorySystem,
+  loadPluginTransformers,
+  TransformerContext,
+  TransformerPhase,
+  Transformers,
+  TypeScriptSolution,
+} from '../lib';
+import { withTemporaryCopy } from './utils';
+
+const examplesDir = resolve(__dirname, 'examples');
+
+test('"plugins" can be built with transformers from tsconfig.json', async () => {
+  return withTemporaryCopy(resolve(examplesDir, 'plugins'), async (copyRoot) => {
+    const project = new TypeScriptSolution(
+      resolve(copyRoot, 'tsconfig.json'),
+      new Transformers().addTransformerProvider(loadPluginTransformers),
+    );
+
+    // Those projects cannot have errors
+    project.on(BuildEvent.Diagnostic, (diag) =>
+      expect(diag).not.toHaveProperty('category', ts.DiagnosticCategory.Error),
+    );
+
+    project.build();
+
+    const [js, dts] = await Promise.all([
+      promisify(readFile)(resolve(copyRoot, 'dist', 'index.js'), { encoding: 'utf-8' }),
+      promisify(readFile)(resolve(copyRoot, 'dist', 'index.d.ts'), { encoding: 'utf-8' }),
+    ]);
+    expect(js).toContain('MAIN_');
+    expect(dts).not.toContain('MAIN_');
+    expect(dts).toContain('/* Generated by tsc-tk */');
+  });
+});
+
+test('loadPluginTransformers ignores plugins without "transform"', () => {
+  expect(
+    loadPluginTransformers(resolve(examplesDir, 'plugins', 'tsconfig.json'), {
+      plugins: [{ name: 'some-language-service-plugin' }],
+    }),
+  ).toEqual([]);
+});
+
+test('loadPluginTransformers fails with a clear message when a plugin cannot be found', () => {
+  const configFilePath = resolve(examplesDir, 'plugins', 'tsconfig.json');
+  expect(() =>
+    loadPluginTransformers(configFilePath, {
+      plugins: [{ transform: './does-not-exist' } as unknown as ts.PluginImport],
+    }),
+  ).toThrow(`Unable to load transformer plugin "./does-not-exist" declared in ${configFilePath}`);
+});
+
+test('plugin transformers are keyed by their module and configuration', () => {
+  const configFilePath = resolve(examplesDir, 'plugins', 'tsconfig.json');
+  const cacheKey = (suffix: string) =>
+    loadPluginTransformers(configFilePath, {
+      plugins: [
+        { transform: './upcase-plugin.js', type: 'config', suffix } as unknown as ts.PluginImport,
+      ],
+    })[0].transformer.cacheKey();
+
+  expect(cacheKey('_')).toEqual({
+    name: './upcase-plugin.js#default',
+    version: expect.stringMatching(/^[0-9a-f]{64}$/),
+    configHash: expect.stringMatching(/^[0-9a-f]{64}$/),
+  });
+  expect(cacheKey('_')).toEqual(cacheKey('_'));
+  expect(cacheKey('!').configHash).not.toBe(cacheKey('_').configHash);
+});
+
+test('the options of plugins are validated, and invalid ones are reported where they are declared', () => {
+  const prefixTransformer = resolve(examplesDir, 'plugins', 'prefix-transformer.js');
+  const configText = `{
+    "compilerOptions": {
+      "outDir": "dist",
+      "plugins": [{ "transform": ${JSON.stringify(prefixTransformer)}, "case": "title" }]
+    }
+  }`;
+  const system = new InMemorySystem({
+    files: {
+      '/project/tsconfig.json': configText,
+      '/project/index.ts': 'export function main() {}',
+    },
+  });
+  const transformers = new Transformers().addTransformerProvider(loadPluginTransformers);
+  const solution = new TypeScriptSolution('/project/tsconfig.json', transformers, { system });
+  const diagnostics = new Array<ts.Diagnostic>();
+  solution.on(BuildEvent.Diagnostic, (diag) => diagnostics.push(diag));
+  solution.build();
+
+  expect(system.fileExists('/project/dist/index.js')).toBe(false);
+  expect(diagnostics).toHaveLength(1);
+  const [{ file, start, length, messageText }] = diagnostics;
+  expect(messageText).toBe(
+    'Invalid options for transformer PrefixTransformer: case must be one of "lower", "upper"',
+  );
+  expect(file?.fileName).toBe('/project/tsconfig.json');
+  expect(configText.substr(start!, length)).toBe('"title"');
+});
+
+describe('plugin factories', () => {
+  const countingPlugin = resolve(examplesDir, 'plugins', 'counting-plugin.js');
+  const configFilePath = '/project/tsconfig.json';
+  const compilerOptions = {
+    plugins: [{ transform: countingPlugin, after: true } as unknown as ts.PluginImport],
+  };
+
+  test('are invoked once per program', () => {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const { calls } = require('./examples/plugins/counting-helper');
+    const system = new InMemorySystem({
+      files: {
+        [configFilePath]: '{ "compilerOptions": { "outDir": "dist" } }',
+        '/project/a.ts': 'export const a = 1;',
+        '/project/b.ts': 'export const b = 2;',
+      },
+    });
+    const transformers = new Transformers().addTransformerProvider((configFilePath) =>
+      loadPluginTransformers(configFilePath, compilerOptions, system),
+    );
+
+    expect(transformers.executionOrder(configFilePath, compilerOptions, system)).toEqual({
+      [TransformerPhase.Before]: [],
+      [TransformerPhase.After]: ['PluginTransformer'],
+      [TransformerPhase.AfterDeclarations]: [],
+    });
+    expect(
+      new TypeScriptSolution(configFilePath, transformers, { system }).build().exitStatus,
+    ).toBe(ts.ExitStatus.Success);
+    // The builder emits each file in its own transformation
+    expect(calls).toEqual({ factory: 1, transformer: 2, file: 2 });
+  });
+
+  test('are keyed by the modules they load, read from the system in use', () => {
+    const cacheKey = (system: ts.System) =>
+      loadPluginTransformers(configFilePath, compilerOptions, system)[0].transformer.cacheKey();
+    const withHelper = (helper: string): ts.System => ({
+      ...ts.sys,
+      readFile: (fileName, encoding) =>
+        fileName.endsWith('counting-helper.js') ? helper : ts.sys.readFile(fileName, encoding),
+    });
+
+    expect(cacheKey(withHelper('1')).version).toBe(cacheKey(withHelper('1')).version);
+    expect(cacheKey(withHelper('2')).version).not.toBe(cacheKey(withHelper('1')).version);
+  });
+
+  test('of type "checker" fail clearly when there is no type checker', () => {
+    const [{ transformer }] = loadPluginTransformers(configFilePath, {
+      plugins: [{ transform: countingPlugin, type: 'checker' } as unknown as ts.PluginImport],
+    });
+    // Bundle updates emit outputs from the build information file
+    const context = new TransformerContext(
+      TransformerPhase.Before,
+      {} as ts.TransformationContext,
+      {
+        configFilePath,
+        compilerOptions: {},
+        currentDirectory: '/project',
+        isBundleUpdate: true,
+        getProgram: () => undefined,
+      },
+    );
+
+    expect(() => transformer.transform(ts.factory.createBundle([]), context)).toThrow(
+      `Transformer plugin "${countingPlugin}" requires a type checker, which is not available when outputs are emitted from the build information file`,
+    );
+  });
+});
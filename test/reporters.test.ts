@@ -0,0 +1,166 @@
+import {
+  BuildReport,
+  BuildReportCollector,
+  formatBuildReport,
+  InMemorySystem,
+  OutputsSkippedReason,
+  ReporterFormat,
+  TypeScriptSolution,
+} from '../lib';
+
+const report: BuildReport = {
+  diagnostics: [
+    {
+      project: 'tsconfig.json',
+      file: 'src/index.ts',
+      line: 1,
+      column: 14,
+      endLine: 1,
+      endColumn: 15,
+      code: 2322,
+      category: 'error',
+      message: "Type 'string' is not assignable to type 'number'.",
+    },
+    {
+      project: 'tsconfig.json',
+      file: 'src/other.ts',
+      line: 2,
+      column: 1,
+      endLine: 2,
+      endColumn: 5,
+      code: 9001,
+      category: 'warning',
+      message: 'Beware of <things> & "stuff"',
+      source: 'MyTransformer',
+    },
+  ],
+  projects: [
+    {
+      project: 'tsconfig.json',
+      outcome: 'skipped',
+      reason: OutputsSkippedReason.DiagnosticsPresent,
+    },
+  ],
+  errorCount: 1,
+  warningCount: 1,
+};
+
+describe('BuildReportCollector', () => {
+  test('collects diagnostics and project outcomes', () => {
+    const system = new InMemorySystem({
+      files: {
+        '/project/tsconfig.json': '{ "compilerOptions": { "noEmitOnError": true } }',
+        '/project/index.ts': 'export const answer: number = "42";',
+      },
+    });
+    const solution = new TypeScriptSolution('/project/tsconfig.json', undefined, { system });
+    const collector = new BuildReportCollector(solution, '/project');
+
+    solution.build();
+
+    expect(collector.report).toEqual({
+      diagnostics: [
+        {
+          project: 'tsconfig.json',
+          file: 'index.ts',
+          line: 1,
+          column: 14,
+          endLine: 1,
+          endColumn: 20,
+          code: 2322,
+          category: 'error',
+          message: "Type 'string' is not assignable to type 'number'.",
+          source: undefined,
+        },
+      ],
+      projects: [
+        {
+          project: 'tsconfig.json',
+          outcome: 'skipped',
+          reason: OutputsSkippedReason.DiagnosticsPresent,
+        },
+      ],
+      errorCount: 1,
+      warningCount: 0,
+    });
+
+    collector.reset();
+    expect(collector.report).toEqual({
+      diagnostics: [],
+      projects: [],
+      errorCount: 0,
+      warningCount: 0,
+    });
+  });
+});
+
+describe('formatBuildReport', () => {
+  test('pretty', () => {
+    expect(formatBuildReport(report, ReporterFormat.Pretty)).toBe(
+      [
+        "src/index.ts(1,14): error TS2322: Type 'string' is not assignable to type 'number'.",
+        'src/other.ts(2,1): warning TS9001: Beware of <things> & "stuff"',
+        'tsconfig.json: outputs skipped (diagnosticsPresent)',
+        'Found 1 error(s) and 1 warning(s).',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  test('json', () => {
+    expect(JSON.parse(formatBuildReport(report, ReporterFormat.Json))).toEqual(report);
+  });
+
+  test('sarif', () => {
+    const sarif = JSON.parse(formatBuildReport(report, ReporterFormat.Sarif));
+
+    expect(sarif.version).toBe('2.1.0');
+    expect(sarif.runs).toHaveLength(1);
+    const [run] = sarif.runs;
+    expect(run.tool.driver.rules).toEqual([{ id: 'TS2322' }, { id: 'TS9001' }]);
+    expect(run.invocations).toEqual([{ executionSuccessful: false }]);
+    expect(Object.keys(run.originalUriBaseIds)).toEqual(['%SRCROOT%']);
+    expect(run.results[1]).toEqual({
+      ruleId: 'TS9001',
+      ruleIndex: 1,
+      level: 'warning',
+      message: { text: 'Beware of <things> & "stuff"' },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: 'src/other.ts', uriBaseId: '%SRCROOT%' },
+            region: { startLine: 2, startColumn: 1, endLine: 2, endColumn: 5 },
+          },
+        },
+      ],
+      properties: { project: 'tsconfig.json', source: 'MyTransformer' },
+    });
+    expect(run.properties).toEqual({
+      projects: report.projects,
+      errorCount: 1,
+      warningCount: 1,
+    });
+  });
+
+  test('junit', () => {
+    expect(formatBuildReport(report, ReporterFormat.JUnit)).toBe(
+      [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<testsuites name="tsc-tk" tests="3" failures="2">',
+        '  <testsuite name="tsconfig.json" tests="3" failures="2">',
+        '    <testcase classname="tsconfig.json" name="src/index.ts">',
+        '      <failure message="1 error(s)">src/index.ts(1,14): error TS2322: Type &apos;string&apos; is not assignable to type &apos;number&apos;.</failure>',
+        '    </testcase>',
+        '    <testcase classname="tsconfig.json" name="src/other.ts">',
+        '      <system-out>src/other.ts(2,1): warning TS9001: Beware of &lt;things&gt; &amp; &quot;stuff&quot;</system-out>',
+        '    </testcase>',
+        '    <testcase classname="tsconfig.json" name="outputs">',
+        '      <failure message="Outputs skipped: diagnosticsPresent"/>',
+        '    </testcase>',
+        '  </testsuite>',
+        '</testsuites>',
+        '',
+      ].join('\n'),
+    );
+  });
+});
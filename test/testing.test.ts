@@ -0,0 +1,148 @@
+import * as ts from 'typescript';
+import {
+  formatTransformResult,
+  SOURCE_MAP_MISMATCH_CODE,
+  Transformer,
+  TransformerContext,
+  TransformerPhase,
+  Transformers,
+  transformResultSerializer,
+  transformSource,
+  TRANSFORMER_FAILURE_CODE,
+  VisitorTransformer,
+} from '../lib';
+
+expect.addSnapshotSerializer(transformResultSerializer);
+
+const SOURCE = 'export function greet(name: string): string {\n  return `Hello, ${name}!`;\n}\n';
+
+test('emits JavaScript, declarations and source maps', () => {
+  const result = transformSource(SOURCE, {
+    compilerOptions: { sourceMap: true },
+    transformers: new Transformers(new UpcasingTransformer()),
+  });
+
+  expect(result.diagnostics).toEqual([]);
+  expect(result.js).toContain('function GREET(NAME)');
+  expect(result.declaration).toContain('export declare function GREET(NAME: string): string;');
+  expect(result.sourceMap).toContain('"sources":["index.ts"]');
+  expect(Object.keys(result.outputs).sort()).toEqual(['index.d.ts', 'index.js', 'index.js.map']);
+});
+
+test('only runs the requested phases', () => {
+  const result = transformSource(SOURCE, {
+    transformers: new Transformers(new UpcasingTransformer()),
+    phases: [TransformerPhase.AfterDeclarations],
+  });
+
+  expect(result.js).toContain('function greet(name)');
+  expect(result.declaration).toContain('export declare function GREET(NAME: string): string;');
+});
+
+test('supports multiple virtual files', () => {
+  const result = transformSource(
+    {
+      'src/index.ts': "export { greet } from './greet';\n",
+      'src/greet.ts': SOURCE,
+    },
+    { compilerOptions: { outDir: 'dist', rootDir: 'src' } },
+  );
+
+  expect(result.diagnostics).toEqual([]);
+  expect(result.js).toContain('require("./greet")');
+  expect(Object.keys(result.outputs).sort()).toEqual([
+    'dist/greet.d.ts',
+    'dist/greet.js',
+    'dist/index.d.ts',
+    'dist/index.js',
+  ]);
+});
+
+test('reports type-checking and transformer diagnostics', () => {
+  const result = transformSource('export const answer: number = "42";\n', {
+    transformers: new Transformers(new ThrowingTransformer()),
+  });
+
+  expect(result.diagnostics.map(({ code }) => code)).toEqual([2322, TRANSFORMER_FAILURE_CODE]);
+});
+
+test('results can be snapshotted', () => {
+  const result = transformSource(SOURCE, {
+    transformers: new Transformers(new UpcasingTransformer()),
+    phases: [TransformerPhase.Before],
+  });
+
+  expect(formatTransformResult(result)).toContain('// index.js\n');
+  expect(result).toMatchSnapshot();
+});
+
+describe('verifySourceMaps', () => {
+  test('reports positions lost by replaced nodes', () => {
+    const result = transformSource(SOURCE, {
+      transformers: new Transformers(new UpcasingTransformer()),
+      phases: [TransformerPhase.Before],
+      verifySourceMaps: true,
+    });
+
+    expect(result.sourceMap).toBeDefined();
+    expect(result.diagnostics.map(({ code, messageText }) => [code, messageText])).toEqual([
+      [SOURCE_MAP_MISMATCH_CODE, 'index.ts:1:17 ("greet") is no longer mapped in index.js.map'],
+      [SOURCE_MAP_MISMATCH_CODE, 'index.ts:1:22 ("(") is no longer mapped in index.js.map'],
+    ]);
+  });
+
+  test('passes when replaced nodes carry over their location', () => {
+    const result = transformSource(SOURCE, {
+      transformers: new Transformers(new UpcasingTransformer(true)),
+      phases: [TransformerPhase.Before],
+      verifySourceMaps: true,
+    });
+
+    expect(result.diagnostics).toEqual([]);
+    expect(result.js).toContain('function GREET(NAME)');
+  });
+
+  test('VisitorTransformer replacements carry over their location', () => {
+    const transformer = new VisitorTransformer([TransformerPhase.Before]).on(
+      ts.isIdentifier,
+      (node) => ts.factory.createIdentifier(node.text.toUpperCase()),
+    );
+    const result = transformSource(SOURCE, {
+      transformers: new Transformers(transformer),
+      verifySourceMaps: true,
+    });
+
+    expect(result.diagnostics).toEqual([]);
+    expect(result.js).toContain('function GREET(NAME)');
+  });
+});
+
+class UpcasingTransformer extends Transformer {
+  public constructor(private readonly carryOverLocation = false) {
+    super();
+  }
+
+  public visit<T extends ts.Node>(node: T, context: TransformerContext) {
+    if (ts.isIdentifier(node)) {
+      const replacement = ts.factory.createIdentifier(node.text.toUpperCase());
+      return (this.carryOverLocation
+        ? context.replaceNode(node, replacement)
+        : replacement) as unknown as T;
+    }
+    return this.transformChildren(node, context);
+  }
+
+  protected readonly nodeValidatorFactory = undefined;
+  protected readonly nodeLifterFactory = undefined;
+}
+
+class ThrowingTransformer extends Transformer {
+  public readonly phases = [TransformerPhase.Before];
+
+  public visit<T extends ts.Node>(_node: T): T {
+    throw new Error('Boom!');
+  }
+
+  protected readonly nodeValidatorFactory = undefined;
+  protected readonly nodeLifterFactory = undefined;
+}
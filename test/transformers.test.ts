@@ -0,0 +1,427 @@
+import * as ts from 'typescript';
+import {
+  BuildEvent,
+  FileKind,
+  InMemorySystem,
+  OptionsSchema,
+  resolveOptions,
+  Transformer,
+  TransformerContext,
+  TransformerPhase,
+  TransformerPriority,
+  Transformers,
+  TypeScriptSolution,
+  VisitorTransformer,
+} from '../lib';
+
+const invalidatedProject = {
+  kind: ts.InvalidatedProjectKind.Build,
+  project: '/fake/tsconfig.json',
+  getCompilerOptions: () => ({}),
+  getCurrentDirectory: () => '/fake',
+} as unknown as ts.InvalidatedProject<ts.BuilderProgram>;
+
+describe('phases', () => {
+  test('transformers participate in all phases by default', () => {
+    const transformers = new Transformers(new NoopTransformer());
+
+    const custom = transformers.forInvalidatedProject(invalidatedProject);
+
+    expect(custom.before).toHaveLength(1);
+    expect(custom.after).toHaveLength(1);
+    expect(custom.afterDeclarations).toHaveLength(1);
+  });
+
+  test('transformers participate in the phases they declare', () => {
+    const transformers = new Transformers(
+      new NoopTransformer([TransformerPhase.After, TransformerPhase.AfterDeclarations]),
+    );
+
+    const custom = transformers.forInvalidatedProject(invalidatedProject);
+
+    expect(custom.before).toHaveLength(0);
+    expect(custom.after).toHaveLength(1);
+    expect(custom.afterDeclarations).toHaveLength(1);
+  });
+
+  test('registration options override the transformer phases', () => {
+    const transformers = new Transformers().addTransformer(
+      new NoopTransformer([TransformerPhase.After]),
+      { phases: [TransformerPhase.Before] },
+    );
+
+    const custom = transformers.forInvalidatedProject(invalidatedProject);
+
+    expect(custom.before).toHaveLength(1);
+    expect(custom.after).toHaveLength(0);
+    expect(custom.afterDeclarations).toHaveLength(0);
+  });
+
+  test('provided transformers participate in the phases they declare', () => {
+    const transformers = new Transformers().addTransformerProvider(() => [
+      new NoopTransformer([TransformerPhase.AfterDeclarations]),
+    ]);
+
+    const custom = transformers.forInvalidatedProject(invalidatedProject);
+
+    expect(custom.before).toHaveLength(0);
+    expect(custom.after).toHaveLength(0);
+    expect(custom.afterDeclarations).toHaveLength(1);
+  });
+});
+
+describe('fusion', () => {
+  test('transformers are not fused by default', () => {
+    const transformers = new Transformers(new VisitorTransformer(), new VisitorTransformer());
+
+    const custom = transformers.forInvalidatedProject(invalidatedProject);
+
+    expect(custom.before).toHaveLength(2);
+  });
+
+  test('consecutive visitor transformers are fused when enabled', () => {
+    const transformers = new Transformers(
+      new VisitorTransformer(),
+      new VisitorTransformer(),
+      new NoopTransformer(),
+      new VisitorTransformer(),
+      new VisitorTransformer([TransformerPhase.After]),
+    ).enableFusion();
+
+    const custom = transformers.forInvalidatedProject(invalidatedProject);
+
+    expect(custom.before).toHaveLength(3);
+    expect(custom.after).toHaveLength(3);
+  });
+
+  test('visitor transformers that override visit are not fused', () => {
+    class CustomVisitor extends VisitorTransformer {
+      public visit<T extends ts.Node>(node: T) {
+        return node;
+      }
+    }
+    const transformers = new Transformers(
+      new VisitorTransformer(),
+      new CustomVisitor(),
+    ).enableFusion();
+
+    const custom = transformers.forInvalidatedProject(invalidatedProject);
+
+    expect(custom.before).toHaveLength(2);
+  });
+});
+
+describe('ordering', () => {
+  test('transformers run in registration order by default', () => {
+    const transformers = new Transformers()
+      .addTransformer(new NoopTransformer(), { name: 'a' })
+      .addTransformer(new NoopTransformer(), { name: 'b' })
+      .addTransformer(new NoopTransformer([TransformerPhase.After]), { name: 'c' });
+
+    expect(transformers.executionOrder()).toEqual({
+      [TransformerPhase.Before]: ['a', 'b'],
+      [TransformerPhase.After]: ['a', 'b', 'c'],
+      [TransformerPhase.AfterDeclarations]: ['a', 'b'],
+    });
+  });
+
+  test('transformers are named after their class by default', () => {
+    const transformers = new Transformers(new NoopTransformer([TransformerPhase.Before]));
+
+    expect(transformers.executionOrder().before).toEqual(['NoopTransformer']);
+  });
+
+  test('runsBefore and runsAfter constraints are honored', () => {
+    const transformers = new Transformers()
+      .addTransformer(new NoopTransformer(), { name: 'dead-code', runsAfter: ['i18n'] })
+      .addTransformer(new NoopTransformer(), { name: 'minify' })
+      .addTransformer(new NoopTransformer(), { name: 'i18n', runsBefore: ['minify'] })
+      .addTransformer(new NoopTransformer(), { name: 'missing', runsAfter: ['not-registered'] });
+
+    expect(transformers.executionOrder().before).toEqual([
+      'i18n',
+      'dead-code',
+      'minify',
+      'missing',
+    ]);
+  });
+
+  test('priorities order unconstrained transformers', () => {
+    const transformers = new Transformers()
+      .addTransformer(new NoopTransformer(), { name: 'late', priority: TransformerPriority.Late })
+      .addTransformer(new NoopTransformer(), { name: 'normal' })
+      .addTransformer(new NoopTransformer(), { name: 'first', priority: TransformerPriority.First })
+      .addTransformer(new NoopTransformer(), { name: 'after-late', runsAfter: ['late'] });
+
+    expect(transformers.executionOrder().before).toEqual(['first', 'normal', 'late', 'after-late']);
+  });
+
+  test('constraints declared by provided transformers apply to projects', () => {
+    class Early extends NoopTransformer {
+      public readonly runsBefore = ['Registered'];
+    }
+    class Registered extends NoopTransformer {}
+    const transformers = new Transformers(new Registered()).addTransformerProvider(() => [
+      new Early(),
+    ]);
+
+    expect(transformers.executionOrder().before).toEqual(['Registered']);
+    expect(transformers.executionOrder('/fake/tsconfig.json').before).toEqual([
+      'Early',
+      'Registered',
+    ]);
+  });
+
+  test('cycles are reported when registering', () => {
+    const transformers = new Transformers()
+      .addTransformer(new NoopTransformer(), { name: 'a', runsBefore: ['b'] })
+      .addTransformer(new NoopTransformer(), { name: 'b', runsBefore: ['c'] });
+
+    expect(() =>
+      transformers.addTransformer(new NoopTransformer(), { name: 'c', runsBefore: ['a'] }),
+    ).toThrow('Transformer ordering constraints form a cycle: a -> b -> c -> a');
+    // The offending transformer was not registered
+    expect(transformers.executionOrder().before).toEqual(['a', 'b']);
+  });
+
+  test('cycles involving provided transformers are reported', () => {
+    class Provided extends NoopTransformer {
+      public readonly runsBefore = ['a'];
+    }
+    const transformers = new Transformers()
+      .addTransformer(new NoopTransformer(), { name: 'a', runsBefore: ['Provided'] })
+      .addTransformerProvider(() => [new Provided()]);
+
+    expect(() => transformers.forInvalidatedProject(invalidatedProject)).toThrow(
+      'Transformer ordering constraints form a cycle: a -> Provided -> a',
+    );
+  });
+});
+
+describe('scoping', () => {
+  test('transformers only apply to the projects they are scoped to', () => {
+    class Codegen extends NoopTransformer {}
+    class Provided extends NoopTransformer {}
+    const transformers = new Transformers()
+      .addTransformer(new Codegen(), { projects: ['packages/api'] })
+      .addTransformerProvider(() => [{ transformer: new Provided(), projects: ['/repo/**'] }]);
+
+    expect(transformers.executionOrder('/repo/packages/api/tsconfig.json').before).toEqual([
+      'Codegen',
+      'Provided',
+    ]);
+    expect(transformers.executionOrder('/repo/packages/web/tsconfig.json').before).toEqual([
+      'Provided',
+    ]);
+    expect(transformers.executionOrder('/elsewhere/tsconfig.json').before).toEqual([]);
+  });
+
+  test('files outside of the scope of a transformer are not walked', () => {
+    const system = new InMemorySystem({
+      files: {
+        '/project/tsconfig.json': JSON.stringify({
+          compilerOptions: {
+            outDir: 'dist',
+            declaration: true,
+            esModuleInterop: true,
+            moduleResolution: 'node',
+            resolveJsonModule: true,
+          },
+          include: ['src'],
+        }),
+        '/project/src/index.ts': "export { default as data } from './data.json';",
+        '/project/src/index.test.ts': 'export const test = true;',
+        '/project/src/data.json': '{ "answer": 42 }',
+        '/project/src/generated/index.ts': 'export const generated = true;',
+      },
+    });
+    const recorded = new Array<string>();
+    const solution = new TypeScriptSolution('/project/tsconfig.json', undefined, { system });
+    solution.transformers
+      .addTransformer(new RecordingTransformer('instrumentation', recorded), {
+        include: ['*.test.ts'],
+        fileKinds: [FileKind.Source],
+      })
+      .addTransformer(new RecordingTransformer('all', recorded), {
+        exclude: ['src/generated/**'],
+      });
+
+    expect(solution.build().errorCount).toBe(0);
+    expect(recorded.sort()).toEqual([
+      'all after /project/src/data.json',
+      'all after /project/src/index.test.ts',
+      'all after /project/src/index.ts',
+      'all afterDeclarations /project/src/index.test.ts',
+      'all afterDeclarations /project/src/index.ts',
+      'all before /project/src/data.json',
+      'all before /project/src/index.test.ts',
+      'all before /project/src/index.ts',
+      'instrumentation after /project/src/index.test.ts',
+      'instrumentation before /project/src/index.test.ts',
+    ]);
+  });
+
+  test('files of bundles outside of the scope of a transformer are not walked', () => {
+    const system = new InMemorySystem({
+      files: {
+        '/project/tsconfig.json': JSON.stringify({
+          compilerOptions: { module: 'amd', outFile: 'dist/bundle.js', declaration: true },
+        }),
+        '/project/index.ts': 'export const answer = 42;',
+        '/project/index.test.ts': 'export const test = true;',
+      },
+    });
+    const recorded = new Array<string>();
+    const solution = new TypeScriptSolution('/project/tsconfig.json', undefined, { system });
+    solution.transformers.addTransformer(new RecordingTransformer('instrumentation', recorded), {
+      include: ['*.test.ts'],
+    });
+
+    expect(solution.build().errorCount).toBe(0);
+    expect(recorded.sort()).toEqual([
+      'instrumentation after /project/index.test.ts',
+      'instrumentation afterDeclarations /project/index.test.ts',
+      'instrumentation before /project/index.test.ts',
+    ]);
+  });
+
+  test('invalid glob patterns are rejected', () => {
+    expect(() =>
+      new Transformers().addTransformer(new NoopTransformer(), { include: ['src/{a,b'] }),
+    ).toThrow('Invalid glob pattern "src/{a,b": "{" is not closed');
+  });
+
+  test('the scope of a transformer is part of its cache key', () => {
+    const cacheKey = (include?: readonly string[]) =>
+      new Transformers().addTransformer(new NoopTransformer(), { include }).cacheKeys()[0];
+
+    expect(cacheKey()).toEqual(new NoopTransformer().cacheKey());
+    expect(cacheKey(['*.test.ts'])).toEqual(cacheKey(['*.test.ts']));
+    expect(cacheKey(['*.test.ts']).configHash).not.toBe(cacheKey(['*.spec.ts']).configHash);
+  });
+});
+
+describe('options', () => {
+  test('options are resolved with the defaults of the schema, and exposed on the context', () => {
+    const system = new InMemorySystem({
+      files: {
+        '/project/tsconfig.json': '{ "compilerOptions": { "outDir": "dist" } }',
+        '/project/index.ts': 'export const answer = 42;',
+      },
+    });
+    const seen = new Array<unknown>();
+    class ConfiguredTransformer extends NoopTransformer {
+      public readonly optionsSchema: OptionsSchema = {
+        type: 'object',
+        properties: {
+          banner: { type: 'string', default: 'Generated' },
+          level: { type: 'integer' },
+        },
+      };
+
+      public transform<T extends ts.Node>(node: T, context: TransformerContext): T {
+        seen.push(context.options);
+        return node;
+      }
+    }
+    const transformer = new ConfiguredTransformer([TransformerPhase.Before]);
+    const solution = new TypeScriptSolution('/project/tsconfig.json', undefined, { system });
+    solution.transformers.addTransformer(transformer, { options: { level: 1 } });
+
+    expect(solution.build().errorCount).toBe(0);
+    expect(seen).toEqual([{ banner: 'Generated', level: 1 }]);
+    expect(solution.transformers.cacheKeys()[0].configHash).not.toBe(
+      transformer.cacheKey().configHash,
+    );
+  });
+
+  test('transformers with invalid options are reported, and do not run', () => {
+    const system = new InMemorySystem({
+      files: {
+        '/project/tsconfig.json': '{ "compilerOptions": { "outDir": "dist" } }',
+        '/project/index.ts': 'export const answer = 42;',
+      },
+    });
+    class StrictTransformer extends NoopTransformer {
+      public readonly optionsSchema: OptionsSchema = {
+        properties: { level: { type: 'integer' } },
+        additionalProperties: false,
+      };
+
+      public transform<T extends ts.Node>(): T {
+        throw new Error('Should not run');
+      }
+    }
+    const solution = new TypeScriptSolution('/project/tsconfig.json', undefined, { system });
+    solution.transformers.addTransformer(new StrictTransformer(), {
+      options: { level: '1', verbose: true },
+    });
+    const messages = new Array<string>();
+    solution.on(BuildEvent.Diagnostic, (diag) => messages.push(diag.messageText as string));
+
+    expect(solution.build().errorCount).toBe(2);
+    expect(messages).toEqual([
+      'Invalid options for transformer StrictTransformer: level must be an integer',
+      'Invalid options for transformer StrictTransformer: verbose is not a known option',
+    ]);
+    expect(system.fileExists('/project/dist/index.js')).toBe(false);
+    // The cache keys describe the transformers that are applied
+    expect(solution.transformers.cacheKeys()).toEqual([]);
+  });
+
+  test('resolveOptions reports every error, with the path to the invalid value', () => {
+    const schema: OptionsSchema = {
+      type: 'object',
+      properties: {
+        output: {
+          type: 'object',
+          properties: { format: { enum: ['esm', 'cjs'] }, dir: { type: 'string' } },
+          required: ['dir'],
+        },
+        exclude: { type: 'array', items: { type: 'string', pattern: '^\\.' } },
+        retries: { type: 'number', minimum: 0, maximum: 3, default: 1 },
+      },
+    };
+
+    expect(resolveOptions(schema, { output: { dir: 'out' } })).toEqual({
+      options: { output: { dir: 'out' }, retries: 1 },
+      errors: [],
+    });
+    expect(
+      resolveOptions(schema, { output: { format: 'amd' }, exclude: ['.git', 'dist'], retries: 5 })
+        .errors,
+    ).toEqual([
+      { path: ['output', 'format'], message: 'must be one of "esm", "cjs"' },
+      { path: ['output', 'dir'], message: 'is required' },
+      { path: ['exclude', 1], message: 'must match /^\\./' },
+      { path: ['retries'], message: 'must be less than or equal to 3' },
+    ]);
+    expect(resolveOptions(schema, []).errors).toEqual([{ path: [], message: 'must be an object' }]);
+  });
+});
+
+class NoopTransformer extends Transformer {
+  public constructor(public readonly phases?: readonly TransformerPhase[]) {
+    super();
+  }
+
+  public visit<T extends ts.Node>(node: T) {
+    return node;
+  }
+
+  protected readonly nodeValidatorFactory = undefined;
+  protected readonly nodeLifterFactory = undefined;
+}
+
+class RecordingTransformer extends NoopTransformer {
+  public constructor(private readonly label: string, private readonly recorded: string[]) {
+    super();
+  }
+
+  public transform<T extends ts.Node>(node: T, context: TransformerContext): T {
+    if (ts.isSourceFile(node)) {
+      this.recorded.push(`${this.label} ${context.phase} ${node.fileName}`);
+    }
+    return node;
+  }
+}
@@ -0,0 +1,83 @@
+import { writeFileSync } from 'fs';
+import { resolve } from 'path';
+import * as ts from 'typescript';
+import { exists, withTemporaryCopy } from './utils';
+
+const examplesDir = resolve(__dirname, 'examples');
+
+afterEach(() => {
+  process.exitCode = undefined;
+  jest.restoreAllMocks();
+});
+
+test('plugins that cannot be loaded are reported where they are declared', async () => {
+  return withTemporaryCopy(resolve(examplesDir, 'basic'), async (copyRoot) => {
+    const tsconfig = resolve(copyRoot, 'tsconfig.json');
+    writeFileSync(
+      tsconfig,
+      JSON.stringify(
+        { compilerOptions: { outDir: 'dist', plugins: [{ transform: './does-not-exist' }] } },
+        null,
+        2,
+      ),
+    );
+
+    const { output, exitCode } = tscTk('--pretty', 'false', copyRoot);
+
+    expect(exitCode).toBe(ts.ExitStatus.DiagnosticsPresent_OutputsSkipped);
+    expect(output).toEqual([
+      expect.stringMatching(
+        /tsconfig\.json\(5,7\): error TS19004: Unable to load transformer plugin "\.\/does-not-exist" declared in /,
+      ),
+    ]);
+    expect(await exists(resolve(copyRoot, 'dist', 'index.js'))).toBe(false);
+  });
+}, 30_000);
+
+test('emitted files are listed once, as they are written', async () => {
+  return withTemporaryCopy(resolve(examplesDir, 'basic'), (copyRoot) => {
+    const { output, exitCode } = tscTk('--listEmittedFiles', '--pretty', 'false', copyRoot);
+
+    expect(exitCode).toBe(ts.ExitStatus.Success);
+    const listed = output.filter((line) => line.startsWith('TSFILE: '));
+    expect(listed).toContain(`TSFILE: ${resolve(copyRoot, 'dist', 'index.js')}`);
+    expect(new Set(listed).size).toBe(listed.length);
+
+    return Promise.resolve();
+  });
+}, 30_000);
+
+interface CommandResult {
+  /** What the command logged. */
+  readonly output: readonly string[];
+  /** The exit code of the command. */
+  readonly exitCode?: number;
+}
+
+/**
+ * Runs the tsc-tk command, which must complete synchronously.
+ *
+ * @param args the command-line arguments.
+ *
+ * @returns the result of the command.
+ */
+function tscTk(...args: readonly string[]): CommandResult {
+  const output = new Array<string>();
+  jest.spyOn(console, 'log').mockImplementation((message) => output.push(message));
+  jest.spyOn(console, 'error').mockImplementation((message) => output.push(message));
+  jest.spyOn(process.stdout, 'write').mockImplementation((message) => {
+    output.push(`${message}`.trimEnd());
+    return true;
+  });
+  const { argv } = process;
+  process.argv = [argv[0], 'tsc-tk', ...args];
+  try {
+    jest.isolateModules(() => {
+      // eslint-disable-next-line @typescript-eslint/no-require-imports
+      require('../bin/tsc-tk.ts');
+    });
+  } finally {
+    process.argv = argv;
+  }
+  return { output, exitCode: process.exitCode };
+}
@@ -1,15 +1,22 @@
 import { readdirSync, readFile, writeFile } from 'fs';
-import { resolve } from 'path';
+import { basename, dirname, join, relative, resolve } from 'path';
 import * as ts from 'typescript';
 import { promisify } from 'util';
 import {
   BuildEvent,
+  FileChange,
+  hashConfiguration,
+  InMemorySystem,
+  OutputsSkippedReason,
+  ProjectContext,
+  ProjectStatus,
   TypeScriptSolution,
   TransformerPhase,
   Transformer,
   TransformerContext,
+  TRANSFORMER_FAILURE_CODE,
 } from '../lib';
-import { withTemporaryCopy } from './utils';
+import { exists, withTemporaryCopy } from './utils';
 
 describe('examples', () => {
   const examplesDir = resolve(__dirname, 'examples');
@@ -34,10 +41,12 @@ describe('examples', () => {
           expect(diag).not.toHaveProperty('category', ts.DiagnosticCategory.Warning),
         );
 
-        project.build();
+        const result = project.build();
 
         expect(projectCount).toBeGreaterThan(0);
         expect(generated).toBe(projectCount);
+        expect(result.exitStatus).toBe(ts.ExitStatus.Success);
+        expect(result.projects).toHaveLength(projectCount);
 
         return Promise.resolve();
       });
@@ -78,6 +87,126 @@ describe('examples', () => {
     });
   });
 
+  test('"involved" transformers can use the type checker', async () => {
+    return withTemporaryCopy(resolve(examplesDir, 'involved'), async (copyRoot) => {
+      const project = new TypeScriptSolution(resolve(copyRoot, 'tsconfig.json'));
+      const recorder = new PropertyTypeRecorder();
+      project.transformers.addTransformer(recorder);
+
+      project.build();
+
+      expect(recorder.propertyTypes).toEqual({
+        boolProperty: 'boolean',
+        someMethod: '() => void',
+      });
+
+      return Promise.resolve();
+    });
+  });
+
+  test('"basic" outputs are skipped when a transformer reports an error', async () => {
+    return withTemporaryCopy(resolve(examplesDir, 'basic'), async (copyRoot) => {
+      const project = new TypeScriptSolution(resolve(copyRoot, 'tsconfig.json'));
+      project.transformers.addTransformer(new ForbiddenIdentifierTransformer('main'));
+
+      const diagnostics = new Array<ts.Diagnostic>();
+      project.on(BuildEvent.Diagnostic, (diag) => diagnostics.push(diag));
+      const skipped = new Array<OutputsSkippedReason>();
+      project.on(BuildEvent.OutputsSkipped, (_, reason) => skipped.push(reason));
+
+      const result = project.build();
+
+      expect(result).toEqual({
+        errorCount: 1,
+        warningCount: 0,
+        projects: [
+          {
+            project: resolve(copyRoot, 'tsconfig.json'),
+            exitStatus: ts.ExitStatus.DiagnosticsPresent_OutputsSkipped,
+          },
+        ],
+        exitStatus: ts.ExitStatus.DiagnosticsPresent_OutputsSkipped,
+      });
+      expect(diagnostics).toHaveLength(1);
+      const [diagnostic] = diagnostics;
+      expect(diagnostic).toMatchObject({
+        category: ts.DiagnosticCategory.Error,
+        code: 9001,
+        messageText: 'Forbidden identifier: main',
+        source: 'ForbiddenIdentifierTransformer',
+      });
+      expect(diagnostic.file?.text.substr(diagnostic.start!, diagnostic.length)).toBe('main');
+      expect(project.formatDiagnostics(diagnostic)).toMatch(/TS9001: .*Forbidden identifier: main/);
+      expect(skipped).toEqual([OutputsSkippedReason.DiagnosticsPresent]);
+
+      return expect(exists(resolve(copyRoot, 'dist', 'index.js'))).resolves.toBe(false);
+    });
+  });
+
+  test('"basic" outputs are generated when a transformer reports a warning', async () => {
+    return withTemporaryCopy(resolve(examplesDir, 'basic'), async (copyRoot) => {
+      const project = new TypeScriptSolution(resolve(copyRoot, 'tsconfig.json'));
+      project.transformers.addTransformer(
+        new ForbiddenIdentifierTransformer('main', ts.DiagnosticCategory.Warning),
+      );
+
+      const diagnostics = new Array<ts.Diagnostic>();
+      project.on(BuildEvent.Diagnostic, (diag) => diagnostics.push(diag));
+      let generated = 0;
+      project.on(BuildEvent.OutputsGenerated, () => (generated += 1));
+
+      const result = project.build();
+
+      expect(result).toMatchObject({
+        errorCount: 0,
+        warningCount: 1,
+        exitStatus: ts.ExitStatus.Success,
+      });
+      expect(diagnostics).toHaveLength(1);
+      expect(diagnostics[0]).toHaveProperty('category', ts.DiagnosticCategory.Warning);
+      expect(generated).toBe(1);
+
+      return expect(exists(resolve(copyRoot, 'dist', 'index.js'))).resolves.toBe(true);
+    });
+  });
+
+  test('"involved" transformer failures are isolated', async () => {
+    return withTemporaryCopy(resolve(examplesDir, 'involved'), async (copyRoot) => {
+      const project = new TypeScriptSolution(resolve(copyRoot, 'tsconfig.json'));
+      project.transformers.addTransformer(new ThrowingTransformer('BaseInterface', 'bar'));
+
+      const diagnostics = new Array<ts.Diagnostic>();
+      project.on(BuildEvent.Diagnostic, (diag) => diagnostics.push(diag));
+      const outcomes = new Array<[string, OutputsSkippedReason]>();
+      project.on(BuildEvent.OutputsSkipped, ({ project }, reason) =>
+        outcomes.push([relative(copyRoot, project), reason]),
+      );
+
+      expect(project.build().exitStatus).toBe(ts.ExitStatus.DiagnosticsPresent_OutputsSkipped);
+
+      // The root project is not built at all, as TypeScript sees errors in "foo"
+      expect(outcomes).toEqual([
+        [join('bar', 'tsconfig.json'), OutputsSkippedReason.TransformerFailure],
+        [join('foo', 'tsconfig.json'), OutputsSkippedReason.UpstreamTransformerFailure],
+      ]);
+      expect(diagnostics).toHaveLength(1);
+      const [diagnostic] = diagnostics;
+      expect(diagnostic).toMatchObject({
+        category: ts.DiagnosticCategory.Error,
+        code: TRANSFORMER_FAILURE_CODE,
+        source: 'ThrowingTransformer',
+      });
+      expect(ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')).toBe(
+        `Transformer ThrowingTransformer failed during the "before" phase while transforming ${diagnostic.file?.fileName}: Boom!`,
+      );
+      expect(diagnostic.file?.text.substr(diagnostic.start!, diagnostic.length)).toBe(
+        'BaseInterface',
+      );
+
+      return expect(exists(resolve(copyRoot, 'bar', 'dist', 'index.js'))).resolves.toBe(false);
+    });
+  });
+
   test('"basic" can be watched the UpcasingTransformer', async () => {
     // This can be slow on CI/CD configurations
     jest.setTimeout(15_000);
@@ -154,6 +283,1141 @@ test('throws if tsconfig.json does not exist', () => {
   );
 });
 
+describe('watch', () => {
+  const files = {
+    '/project/tsconfig.json': '{ "compilerOptions": { "outDir": "dist" } }',
+    '/project/a.ts': 'export const a = 1;',
+    '/project/b.ts': 'export const b = 1;',
+  };
+
+  test('changes are debounced and batched', () => {
+    const system = new InMemorySystem({ files });
+    const solution = new TypeScriptSolution('/project/tsconfig.json', undefined, { system });
+    const builds = new Array<readonly FileChange[]>();
+    solution.on(BuildEvent.BeforeSolution, (_, changes) => builds.push(changes));
+
+    const watch = solution.watch(undefined, undefined, undefined, { debounce: 100 });
+    try {
+      expect(builds).toEqual([[]]);
+
+      system.writeFile('/project/a.ts', 'export const a = 2;');
+      system.advanceTimers(60);
+      system.writeFile('/project/b.ts', 'export const b = 2;');
+      system.writeFile('/project/c.ts', 'export const c = 2;');
+      system.advanceTimers(60);
+      // The debounce period restarted with the last change
+      expect(builds).toHaveLength(1);
+
+      system.advanceTimers(100);
+      expect(builds).toHaveLength(2);
+      expect(
+        [...builds[1]].sort((left, right) => left.fileName.localeCompare(right.fileName)),
+      ).toEqual([
+        { fileName: '/project/a.ts', kind: ts.FileWatcherEventKind.Changed },
+        { fileName: '/project/b.ts', kind: ts.FileWatcherEventKind.Changed },
+        { fileName: '/project/c.ts', kind: ts.FileWatcherEventKind.Created },
+      ]);
+      expect(system.readFile('/project/dist/c.js')).toContain('exports.c = 2;');
+
+      system.deleteFile('/project/c.ts');
+      system.runAllTimers();
+      expect(builds).toHaveLength(3);
+      expect(builds[2]).toEqual([
+        { fileName: '/project/c.ts', kind: ts.FileWatcherEventKind.Deleted },
+      ]);
+    } finally {
+      watch.stop();
+    }
+  });
+
+  test('stopping the watch cancels pending builds', () => {
+    const system = new InMemorySystem({ files });
+    const solution = new TypeScriptSolution('/project/tsconfig.json', undefined, { system });
+    let builds = 0;
+    solution.on(BuildEvent.BeforeSolution, () => (builds += 1));
+
+    const watch = solution.watch();
+    system.writeFile('/project/a.ts', 'export const a = 2;');
+    system.advanceTimers(10);
+    watch.stop();
+    system.runAllTimers();
+
+    expect(builds).toBe(1);
+    expect(system.pendingTimers).toBe(0);
+  });
+
+  test('rebuilds only re-emit the files affected by a change', () => {
+    const system = new InMemorySystem({ files });
+    const solution = new TypeScriptSolution('/project/tsconfig.json', undefined, { system });
+    const transformer = new StampTransformer('v1');
+    solution.transformers.addTransformer(transformer);
+    const written = new Array<string>();
+    solution.on(BuildEvent.BeforeWriteFile, (file) => written.push(file.fileName));
+
+    // Not incremental, so only the builder's own programs know what changed
+    const watch = solution.watch(undefined, {});
+    try {
+      expect(written.sort()).toEqual(['/project/dist/a.js', '/project/dist/b.js']);
+      written.length = 0;
+
+      system.writeFile('/project/a.ts', 'export const a = 2;');
+      system.runAllTimers();
+
+      expect(written).toEqual(['/project/dist/a.js']);
+      expect(transformer.runs).toBe(3);
+    } finally {
+      watch.stop();
+    }
+  });
+
+  test('projects which outputs were skipped are re-emitted in full', () => {
+    const system = new InMemorySystem({
+      files: { ...files, '/project/b.ts': 'export const forbidden = 1;' },
+    });
+    const solution = new TypeScriptSolution('/project/tsconfig.json', undefined, { system });
+    solution.transformers.addTransformer(new ForbiddenIdentifierTransformer('forbidden'));
+
+    const watch = solution.watch();
+    try {
+      expect(system.fileExists('/project/dist/a.js')).toBe(false);
+
+      system.writeFile('/project/b.ts', 'export const b = 1;');
+      system.runAllTimers();
+
+      expect(system.readFile('/project/dist/a.js')).toContain('exports.a = 1;');
+      expect(system.readFile('/project/dist/b.js')).toContain('exports.b = 1;');
+    } finally {
+      watch.stop();
+    }
+  });
+});
+
+describe('skipped outputs', () => {
+  test('projects referencing a project which outputs were skipped due to errors are skipped', () => {
+    const system = new InMemorySystem({
+      files: {
+        '/lib/tsconfig.json': '{ "compilerOptions": { "outDir": "dist", "composite": true } }',
+        '/lib/index.ts': 'export const answer = 42;\nexport const forbidden = 1;',
+        '/app/tsconfig.json':
+          '{ "compilerOptions": { "outDir": "dist" }, "references": [{ "path": "../lib" }] }',
+        '/app/index.ts': 'import { answer } from "../lib";\nexport const app = answer;',
+      },
+    });
+    const solution = new TypeScriptSolution('/app/tsconfig.json', undefined, { system });
+    solution.transformers.addTransformer(new ForbiddenIdentifierTransformer('forbidden'));
+    const diagnostics = new Array<ts.Diagnostic>();
+    solution.on(BuildEvent.Diagnostic, (diag) => diagnostics.push(diag));
+    const outcomes = new Array<[string, OutputsSkippedReason]>();
+    solution.on(BuildEvent.OutputsSkipped, ({ project }, reason) =>
+      outcomes.push([project, reason]),
+    );
+
+    const result = solution.build();
+
+    expect(result.exitStatus).toBe(ts.ExitStatus.DiagnosticsPresent_OutputsSkipped);
+    expect(outcomes).toEqual([
+      ['/lib/tsconfig.json', OutputsSkippedReason.DiagnosticsPresent],
+      ['/app/tsconfig.json', OutputsSkippedReason.UpstreamErrors],
+    ]);
+    expect(diagnostics.map(({ messageText }) => messageText)).toEqual([
+      'Forbidden identifier: forbidden',
+    ]);
+    expect(system.fileExists('/app/dist/index.js')).toBe(false);
+  });
+
+  test('projects which outputs were skipped are rebuilt by the next build', () => {
+    const system = new InMemorySystem({
+      files: {
+        '/lib/tsconfig.json': '{ "compilerOptions": { "outDir": "dist", "composite": true } }',
+        '/lib/index.ts': 'export const answer = 42;',
+        '/app/tsconfig.json':
+          '{ "compilerOptions": { "outDir": "dist" }, "references": [{ "path": "../lib" }] }',
+        '/app/index.ts': 'import { answer } from "../lib";\nexport const app = answer;',
+      },
+    });
+    const build = () => {
+      const solution = new TypeScriptSolution('/app/tsconfig.json', undefined, { system });
+      solution.transformers.addTransformer(new ForbiddenIdentifierTransformer('forbidden'));
+      const projects = new Array<string>();
+      solution.on(BuildEvent.BeforeProject, ({ project }) => projects.push(project));
+      return { result: solution.build(), projects };
+    };
+
+    expect(build().result.exitStatus).toBe(ts.ExitStatus.Success);
+    const buildInfo = system.readFile('/lib/dist/tsconfig.tsbuildinfo');
+
+    system.writeFile('/lib/index.ts', 'export const answer = 42;\nexport const forbidden = 1;');
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const { result, projects } = build();
+      expect(projects).toEqual(['/lib/tsconfig.json', '/app/tsconfig.json']);
+      expect(result.projects).toContainEqual({
+        project: '/lib/tsconfig.json',
+        exitStatus: ts.ExitStatus.DiagnosticsPresent_OutputsSkipped,
+      });
+      // The build information is withheld with the other outputs
+      expect(system.readFile('/lib/dist/tsconfig.tsbuildinfo')).toBe(buildInfo);
+      expect(system.readFile('/lib/dist/index.d.ts')).not.toContain('forbidden');
+    }
+
+    system.writeFile('/lib/index.ts', 'export const answer = 43;');
+    const { result, projects } = build();
+    expect(result.exitStatus).toBe(ts.ExitStatus.Success);
+    expect(projects).toEqual(['/lib/tsconfig.json', '/app/tsconfig.json']);
+    expect(build().projects).toEqual([]);
+  });
+});
+
+describe('watched files', () => {
+  const project = '{ "extends": "../base.json", "compilerOptions": { "outDir": "dist" } }';
+  const files = {
+    '/solution/tsconfig.json': references('a'),
+    '/solution/base.json': '{ "compilerOptions": { "composite": true } }',
+    '/solution/a/tsconfig.json': project,
+    '/solution/a/index.ts': 'export const a = 1;',
+    '/solution/b/tsconfig.json': project,
+    '/solution/b/index.ts': 'export const b = 1;',
+  };
+
+  function references(...paths: readonly string[]): string {
+    return JSON.stringify({ files: [], references: paths.map((path) => ({ path })) });
+  }
+
+  function watchSolution(system: InMemorySystem) {
+    const solution = new TypeScriptSolution('/solution/tsconfig.json', undefined, { system });
+    const built = new Array<string>();
+    solution.on(BuildEvent.BeforeProject, ({ project }) => built.push(project));
+    return { built, watch: solution.watch() };
+  }
+
+  test('added project references are built and watched', () => {
+    const system = new InMemorySystem({ files });
+    const { built, watch } = watchSolution(system);
+    try {
+      expect(built).toEqual(['/solution/a/tsconfig.json']);
+      expect(system.watchedFiles).not.toContain('/solution/b/tsconfig.json');
+      built.length = 0;
+
+      system.writeFile('/solution/tsconfig.json', references('a', 'b'));
+      system.runAllTimers();
+
+      expect(built).toEqual(['/solution/b/tsconfig.json']);
+      expect(system.readFile('/solution/b/dist/index.js')).toContain('exports.b = 1;');
+      expect(system.watchedFiles).toEqual(
+        expect.arrayContaining(['/solution/b/index.ts', '/solution/b/tsconfig.json']),
+      );
+      built.length = 0;
+
+      system.writeFile('/solution/b/index.ts', 'export const b = 2;');
+      system.runAllTimers();
+
+      expect(built).toEqual(['/solution/b/tsconfig.json']);
+      expect(system.readFile('/solution/b/dist/index.js')).toContain('exports.b = 2;');
+    } finally {
+      watch.stop();
+    }
+    expect(system.watchedFiles).toEqual([]);
+    expect(system.watchedDirectories).toEqual([]);
+  });
+
+  test('references written differently do not replace the builder', () => {
+    const dependent = (declaration: boolean) =>
+      JSON.stringify({
+        extends: '../base.json',
+        compilerOptions: { outDir: 'dist', declaration },
+        references: [{ path: '../A/' }],
+      });
+    const system = new InMemorySystem({
+      files: {
+        ...files,
+        '/solution/tsconfig.json': references('a', './b'),
+        '/solution/b/tsconfig.json': dependent(true),
+      },
+      useCaseSensitiveFileNames: false,
+    });
+    const watchFile = jest.spyOn(system, 'watchFile');
+    const { built, watch } = watchSolution(system);
+    try {
+      built.length = 0;
+      const rootWatches = () =>
+        watchFile.mock.calls.filter(([path]) => path === '/solution/tsconfig.json').length;
+      expect(rootWatches()).toBe(1);
+
+      system.writeFile('/solution/b/tsconfig.json', dependent(false));
+      system.runAllTimers();
+
+      expect(built).toEqual(['/solution/b/tsconfig.json']);
+      // The solution was not watched again by a new builder
+      expect(rootWatches()).toBe(1);
+    } finally {
+      watch.stop();
+    }
+  });
+
+  test('removed project references are no longer watched', () => {
+    const system = new InMemorySystem({
+      files: { ...files, '/solution/tsconfig.json': references('a', 'b') },
+    });
+    const { built, watch } = watchSolution(system);
+    try {
+      built.length = 0;
+
+      system.writeFile('/solution/tsconfig.json', references('b'));
+      system.runAllTimers();
+
+      expect(system.watchedFiles.filter((path) => path.startsWith('/solution/a/'))).toEqual([]);
+      expect(system.watchedDirectories).not.toContain('/solution/a');
+
+      system.writeFile('/solution/a/index.ts', 'export const a = 2;');
+      system.runAllTimers();
+
+      expect(built).toEqual([]);
+    } finally {
+      watch.stop();
+    }
+  });
+
+  test('renamed project references are re-watched', () => {
+    const system = new InMemorySystem({ files });
+    const { built, watch } = watchSolution(system);
+    try {
+      built.length = 0;
+
+      system.deleteFile('/solution/a/tsconfig.json');
+      system.deleteFile('/solution/a/index.ts');
+      system.writeFile('/solution/c/tsconfig.json', project);
+      system.writeFile('/solution/c/index.ts', 'export const c = 1;');
+      system.writeFile('/solution/tsconfig.json', references('c'));
+      system.runAllTimers();
+
+      expect(built).toEqual(['/solution/c/tsconfig.json']);
+      expect(system.watchedFiles).toEqual([
+        '/solution/base.json',
+        '/solution/c/index.ts',
+        '/solution/c/tsconfig.json',
+        '/solution/tsconfig.json',
+      ]);
+      expect(system.watchedDirectories).toEqual(['/solution/c']);
+    } finally {
+      watch.stop();
+    }
+  });
+
+  test('extended configurations and deleted files are reconciled', () => {
+    const system = new InMemorySystem({
+      files: { ...files, '/solution/a/other.ts': 'export const other = 1;' },
+    });
+    const { built, watch } = watchSolution(system);
+    try {
+      expect(system.watchedFiles).toEqual(
+        expect.arrayContaining(['/solution/a/other.ts', '/solution/base.json']),
+      );
+      built.length = 0;
+
+      system.writeFile(
+        '/solution/base.json',
+        '{ "compilerOptions": { "composite": true, "declarationMap": true } }',
+      );
+      system.runAllTimers();
+
+      expect(built).toEqual(['/solution/a/tsconfig.json']);
+      expect(system.fileExists('/solution/a/dist/index.d.ts.map')).toBe(true);
+
+      system.deleteFile('/solution/a/other.ts');
+      system.writeFile(
+        '/solution/a/tsconfig.json',
+        '{ "compilerOptions": { "composite": true, "outDir": "dist" } }',
+      );
+      system.runAllTimers();
+
+      expect(system.watchedFiles).not.toContain('/solution/a/other.ts');
+      expect(system.watchedFiles).not.toContain('/solution/base.json');
+    } finally {
+      watch.stop();
+    }
+  });
+});
+
+describe('build options', () => {
+  const files = {
+    '/project/tsconfig.json': '{ "compilerOptions": { "outDir": "dist" } }',
+    '/project/index.ts': 'export const answer = 42;',
+  };
+
+  function statuses(solution: TypeScriptSolution<ts.BuilderProgram>): string[] {
+    const messages = new Array<string>();
+    solution.on(BuildEvent.Status, (status) =>
+      messages.push(ts.flattenDiagnosticMessageText(status.messageText, '\n')),
+    );
+    return messages;
+  }
+
+  test('verbose builds report the status of projects', () => {
+    const system = new InMemorySystem({ files });
+    const solution = new TypeScriptSolution('/project/tsconfig.json', undefined, { system });
+    const messages = statuses(solution);
+
+    solution.build(undefined, { verbose: true });
+
+    expect(messages).toEqual([
+      "Project 'project/tsconfig.json' is out of date because output file 'project/dist/index.js' does not exist",
+      "Building project '/project/tsconfig.json'...",
+    ]);
+  });
+
+  test('builds report the number of errors they found', async () => {
+    const system = new InMemorySystem({
+      files: { ...files, '/project/error.ts': 'export const answer: string = 42;' },
+    });
+    const solution = new TypeScriptSolution('/project/tsconfig.json', undefined, { system });
+    const summaries = new Array<number>();
+    solution.on(BuildEvent.ErrorSummary, (errorCount) => summaries.push(errorCount));
+
+    solution.build(undefined, { dry: true });
+    solution.build();
+    await solution.buildAsync(undefined, { force: true });
+
+    expect(summaries).toEqual([0, 1, 1]);
+  });
+
+  test('dry builds report what would be built, without emitting anything', () => {
+    const system = new InMemorySystem({ files });
+    const solution = new TypeScriptSolution('/project/tsconfig.json', undefined, { system });
+    solution.transformers.addTransformer(new ManifestTransformer('manifest.json'));
+    const messages = statuses(solution);
+    const fileNames = system.fileNames;
+
+    expect(solution.build(undefined, { dry: true }).exitStatus).toBe(ts.ExitStatus.Success);
+
+    expect(messages).toEqual(["A non-dry build would build project '/project/tsconfig.json'"]);
+    expect(system.fileNames).toEqual(fileNames);
+  });
+
+  test('clean builds delete the outputs of projects', () => {
+    const system = new InMemorySystem({ files });
+    const solution = new TypeScriptSolution('/project/tsconfig.json', undefined, { system });
+    solution.build();
+    const messages = statuses(solution);
+
+    solution.build(undefined, { clean: true, dry: true });
+    expect(messages).toEqual([
+      'A non-dry build would delete the following files: \r\n * /project/dist/index.js',
+    ]);
+    expect(system.fileExists('/project/dist/index.js')).toBe(true);
+
+    const result = solution.build(undefined, { clean: true });
+    expect(result).toEqual({
+      errorCount: 0,
+      warningCount: 0,
+      projects: [],
+      exitStatus: ts.ExitStatus.Success,
+    });
+    expect(system.fileExists('/project/dist/index.js')).toBe(false);
+  });
+
+  test('clean deletes the files registered by transformers', () => {
+    const system = new InMemorySystem({ files });
+    const solution = new TypeScriptSolution('/project/tsconfig.json', undefined, { system });
+    solution.transformers.addTransformer(new ManifestTransformer('manifest.json'));
+    solution.build();
+    expect(system.fileExists('/project/dist/manifest.json')).toBe(true);
+    const messages = statuses(solution);
+
+    solution.clean(undefined, { incremental: true, dry: true });
+    expect(messages).toEqual([
+      'A non-dry build would delete the following files: \r\n * /project/dist/manifest.json\r\n * /project/dist/tsconfig.tsc-tk.json',
+      'A non-dry build would delete the following files: \r\n * /project/dist/index.js\r\n * /project/dist/tsconfig.tsbuildinfo',
+    ]);
+
+    expect(solution.clean().exitStatus).toBe(ts.ExitStatus.Success);
+    expect(system.fileNames.filter((fileName) => fileName.startsWith('/project/dist/'))).toEqual(
+      [],
+    );
+  });
+});
+
+describe('plan', () => {
+  const files = {
+    '/solution/tsconfig.json': '{ "files": [], "references": [{ "path": "app" }] }',
+    '/solution/lib/tsconfig.json': '{ "compilerOptions": { "outDir": "dist", "composite": true } }',
+    '/solution/lib/index.ts': 'export const answer = 42;',
+    '/solution/app/tsconfig.json':
+      '{ "compilerOptions": { "outDir": "dist" }, "references": [{ "path": "../lib" }] }',
+    '/solution/app/index.ts':
+      "import { answer } from '../lib';\nexport const doubled = answer * 2;",
+  };
+
+  test('lists projects in build order, with the reason they would be built', () => {
+    const system = new InMemorySystem({ files });
+    const solution = new TypeScriptSolution('/solution/tsconfig.json', undefined, { system });
+    const fileNames = system.fileNames;
+
+    expect(solution.plan()).toEqual([
+      {
+        project: '/solution/lib/tsconfig.json',
+        status: ProjectStatus.OutOfDate,
+        reason:
+          "Project 'solution/lib/tsconfig.json' is out of date because output file 'solution/lib/dist/index.js' does not exist",
+      },
+      {
+        project: '/solution/app/tsconfig.json',
+        status: ProjectStatus.OutOfDate,
+        reason:
+          "Project 'solution/app/tsconfig.json' is out of date because its dependency 'solution/lib' is out of date",
+      },
+      { project: '/solution/tsconfig.json', status: ProjectStatus.UpToDate, reason: undefined },
+    ]);
+    expect(system.fileNames).toEqual(fileNames);
+  });
+
+  test('statuses are attributed to projects regardless of their paths', () => {
+    const system = new InMemorySystem({
+      files: {
+        '/solution/tsconfig.json': JSON.stringify({
+          files: [],
+          references: [{ path: "./it's-lib" }, { path: './app' }],
+        }),
+        "/solution/it's-lib/tsconfig.json": files['/solution/lib/tsconfig.json'],
+        "/solution/it's-lib/index.ts": files['/solution/lib/index.ts'],
+        '/solution/app/tsconfig.json': '{ "compilerOptions": { "outDir": "dist" } }',
+        '/solution/app/index.ts': 'export const doubled = 84;',
+      },
+    });
+    const solution = new TypeScriptSolution('/solution/tsconfig.json', undefined, { system });
+    solution.build(['/solution/app/tsconfig.json']);
+
+    expect(solution.plan().map(({ project, status }) => [project, status])).toEqual([
+      ["/solution/it's-lib/tsconfig.json", ProjectStatus.OutOfDate],
+      ['/solution/app/tsconfig.json', ProjectStatus.UpToDate],
+      ['/solution/tsconfig.json', ProjectStatus.UpToDate],
+    ]);
+  });
+
+  test('statuses are attributed to projects when a reference is missing', () => {
+    const system = new InMemorySystem({
+      files: {
+        ...files,
+        '/solution/tsconfig.json': JSON.stringify({
+          files: [],
+          references: [{ path: 'broken' }, { path: 'app' }],
+        }),
+        '/solution/broken/tsconfig.json': JSON.stringify({
+          compilerOptions: { outDir: 'dist', composite: true },
+          references: [{ path: '../missing' }],
+        }),
+        '/solution/broken/index.ts': 'export const broken = 1;',
+      },
+    });
+    const solution = new TypeScriptSolution('/solution/tsconfig.json', undefined, { system });
+    solution.build(['/solution/lib/tsconfig.json']);
+
+    expect(solution.plan().map(({ project, status }) => [project, status])).toEqual([
+      ['/solution/broken/tsconfig.json', ProjectStatus.Blocked],
+      ['/solution/lib/tsconfig.json', ProjectStatus.UpToDate],
+      ['/solution/app/tsconfig.json', ProjectStatus.OutOfDate],
+      ['/solution/tsconfig.json', ProjectStatus.UpToDate],
+    ]);
+  });
+
+  test('up-to-date projects would not be built', () => {
+    const system = new InMemorySystem({ files });
+    const solution = new TypeScriptSolution('/solution/tsconfig.json', undefined, { system });
+    solution.build();
+    system.writeFile('/solution/app/index.ts', 'export const doubled = 84;');
+
+    expect(solution.plan().map(({ status }) => status)).toEqual([
+      ProjectStatus.UpToDate,
+      ProjectStatus.OutOfDate,
+      ProjectStatus.UpToDate,
+    ]);
+  });
+});
+
+describe('buildAsync', () => {
+  const files = {
+    '/project/tsconfig.json': '{ "compilerOptions": { "outDir": "dist" } }',
+    '/project/index.ts':
+      'declare const __GREETING__: string;\nexport const greeting = __GREETING__;',
+  };
+
+  test('runs prepare hooks before transforming', async () => {
+    const system = new InMemorySystem({ files });
+    const solution = new TypeScriptSolution('/project/tsconfig.json', undefined, { system });
+    const transformer = new GreetingTransformer(async () => Promise.resolve('Hello!'));
+    solution.transformers.addTransformer(transformer);
+
+    const result = await solution.buildAsync();
+
+    expect(result.exitStatus).toBe(ts.ExitStatus.Success);
+    expect(transformer.prepared).toEqual(['/project/index.ts']);
+    expect(system.readFile('/project/dist/index.js')).toContain('exports.greeting = "Hello!";');
+  });
+
+  test('skips outputs when a prepare hook fails', async () => {
+    const system = new InMemorySystem({ files });
+    const solution = new TypeScriptSolution('/project/tsconfig.json', undefined, { system });
+    solution.transformers.addTransformer(
+      new GreetingTransformer(async () => Promise.reject(new Error('Service unavailable'))),
+    );
+    const diagnostics = new Array<ts.Diagnostic>();
+    solution.on(BuildEvent.Diagnostic, (diag) => diagnostics.push(diag));
+    const skipped = new Array<OutputsSkippedReason>();
+    solution.on(BuildEvent.OutputsSkipped, (_, reason) => skipped.push(reason));
+
+    const result = await solution.buildAsync();
+
+    expect(result.exitStatus).toBe(ts.ExitStatus.DiagnosticsPresent_OutputsSkipped);
+    expect(skipped).toEqual([OutputsSkippedReason.TransformerFailure]);
+    expect(diagnostics.map((diag) => diag.messageText)).toEqual([
+      'Transformer GreetingTransformer failed while preparing /project/index.ts: Service unavailable',
+    ]);
+    expect(system.fileExists('/project/dist/index.js')).toBe(false);
+  });
+
+  test('rejects when aborted', async () => {
+    const system = new InMemorySystem({ files });
+    const solution = new TypeScriptSolution('/project/tsconfig.json', undefined, { system });
+    const signal = { aborted: false };
+    solution.transformers.addTransformer(
+      new GreetingTransformer(async () => {
+        signal.aborted = true;
+        return Promise.resolve('Hello!');
+      }),
+    );
+
+    await expect(solution.buildAsync(undefined, undefined, { signal })).rejects.toThrow(
+      expect.objectContaining({ name: 'AbortError' }),
+    );
+    expect(system.fileExists('/project/dist/index.js')).toBe(false);
+  });
+
+  test('prepare hooks can observe the abort signal', async () => {
+    const system = new InMemorySystem({ files });
+    const solution = new TypeScriptSolution('/project/tsconfig.json', undefined, { system });
+    const signal = { aborted: false };
+    const observed = new Array<boolean | undefined>();
+    solution.transformers.addTransformer(
+      new (class extends GreetingTransformer {
+        public async prepare(sourceFile: ts.SourceFile, context: ProjectContext): Promise<void> {
+          observed.push(context.signal?.aborted);
+          signal.aborted = true;
+          observed.push(context.signal?.aborted);
+          return super.prepare(sourceFile, context);
+        }
+      })(async () => Promise.resolve('Hello!')),
+    );
+
+    await expect(solution.buildAsync(undefined, undefined, { signal })).rejects.toThrow(
+      expect.objectContaining({ name: 'AbortError' }),
+    );
+    expect(observed).toEqual([false, true]);
+  });
+
+  test('prepare hooks fail synchronous builds', () => {
+    const system = new InMemorySystem({ files });
+    const solution = new TypeScriptSolution('/project/tsconfig.json', undefined, { system });
+    solution.transformers.addTransformer(new GreetingTransformer(async () => Promise.resolve('')));
+    const diagnostics = new Array<ts.Diagnostic>();
+    solution.on(BuildEvent.Diagnostic, (diag) => diagnostics.push(diag));
+
+    expect(solution.build().exitStatus).toBe(ts.ExitStatus.DiagnosticsPresent_OutputsSkipped);
+    expect(diagnostics.map((diag) => diag.messageText)).toEqual([
+      'Transformer GreetingTransformer has a "prepare" hook, which requires an asynchronous build',
+    ]);
+  });
+});
+
+describe('transformer cache', () => {
+  const files = {
+    '/project/tsconfig.json': '{ "compilerOptions": { "outDir": "dist", "incremental": true } }',
+    '/project/index.ts': 'export const answer = 42;',
+  };
+
+  test('projects are re-emitted when transformer cache keys change', () => {
+    const system = new InMemorySystem({ files });
+    const build = (transformer: StampTransformer) => {
+      const solution = new TypeScriptSolution('/project/tsconfig.json', undefined, { system });
+      solution.transformers.addTransformer(transformer);
+      const projects = new Array<string>();
+      solution.on(BuildEvent.BeforeProject, ({ project }) => projects.push(project));
+      expect(solution.build().exitStatus).toBe(ts.ExitStatus.Success);
+      return projects;
+    };
+
+    expect(build(new StampTransformer('1.0.0'))).toEqual(['/project/tsconfig.json']);
+    expect(system.readFile('/project/dist/index.js')).toContain('"1.0.0";');
+    expect(JSON.parse(system.readFile('/project/dist/tsconfig.tsc-tk.json')!)).toEqual({
+      transformers: [{ name: 'StampTransformer', version: '1.0.0', configHash: '' }],
+    });
+
+    // Nothing changed, so the project is up-to-date
+    expect(build(new StampTransformer('1.0.0'))).toEqual([]);
+
+    expect(build(new StampTransformer('2.0.0'))).toEqual(['/project/tsconfig.json']);
+    expect(system.readFile('/project/dist/index.js')).toContain('"2.0.0";');
+  });
+
+  test('outputs are restored from the output cache', () => {
+    const system = new InMemorySystem({ files });
+    const build = (transformer: StampTransformer) => {
+      const solution = new TypeScriptSolution('/project/tsconfig.json', undefined, {
+        system,
+        outputCacheDirectory: '/cache',
+      });
+      solution.transformers.addTransformer(transformer);
+      expect(solution.build().exitStatus).toBe(ts.ExitStatus.Success);
+    };
+
+    const first = new StampTransformer('1.0.0');
+    build(first);
+    expect(first.runs).toBe(1);
+    const emitted = system.fileNames.filter((fileName) => fileName.startsWith('/project/dist/'));
+    const outputs = emitted.map((fileName) => system.readFile(fileName));
+
+    // As if on a fresh checkout of the project
+    for (const fileName of emitted) {
+      system.deleteFile(fileName);
+    }
+    const second = new StampTransformer('1.0.0');
+    build(second);
+    expect(second.runs).toBe(0);
+    expect(emitted.map((fileName) => system.readFile(fileName))).toEqual(outputs);
+
+    // Other transformers produce other outputs, so the cache is not used
+    const third = new StampTransformer('2.0.0');
+    build(third);
+    expect(third.runs).toBe(1);
+    expect(system.readFile('/project/dist/index.js')).toContain('"2.0.0";');
+  });
+
+  test('corrupted output cache entries are ignored', () => {
+    const system = new InMemorySystem({ files });
+    const build = (transformer: StampTransformer) => {
+      const solution = new TypeScriptSolution('/project/tsconfig.json', undefined, {
+        system,
+        outputCacheDirectory: '/cache',
+      });
+      solution.transformers.addTransformer(transformer);
+      expect(solution.build().exitStatus).toBe(ts.ExitStatus.Success);
+    };
+
+    build(new StampTransformer('1.0.0'));
+    const entries = system.fileNames.filter((fileName) => fileName.startsWith('/cache/'));
+    expect(entries).toHaveLength(1);
+    // As if the process writing the entry was killed
+    system.writeFile(entries[0], system.readFile(entries[0])!.substr(0, 20));
+    for (const fileName of system.fileNames.filter((name) => name.startsWith('/project/dist/'))) {
+      system.deleteFile(fileName);
+    }
+
+    const second = new StampTransformer('1.0.0');
+    build(second);
+    expect(second.runs).toBe(1);
+    expect(system.readFile('/project/dist/index.js')).toContain('"1.0.0";');
+    expect(JSON.parse(system.readFile(entries[0])!)).toHaveProperty('outputs');
+  });
+
+  test('output cache keys cover extended configurations and not the project location', () => {
+    const system = new InMemorySystem({
+      files: {
+        '/base/tsconfig.json': '{ "compilerOptions": { "target": "ES2015" } }',
+        '/project/tsconfig.json':
+          '{ "extends": "../base/tsconfig.json", "compilerOptions": { "outDir": "dist", "incremental": true } }',
+        '/project/index.ts': 'export const answer = async () => 42;',
+        '/copy/base/tsconfig.json': '{ "compilerOptions": { "target": "ES2015" } }',
+        '/copy/project/tsconfig.json':
+          '{ "extends": "../base/tsconfig.json", "compilerOptions": { "outDir": "dist", "incremental": true } }',
+        '/copy/project/index.ts': 'export const answer = async () => 42;',
+      },
+    });
+    const build = (project: string) => {
+      const solution = new TypeScriptSolution(project, undefined, {
+        system,
+        outputCacheDirectory: '/cache',
+      });
+      const transformer = new StampTransformer('1.0.0');
+      solution.transformers.addTransformer(transformer);
+      expect(solution.build().exitStatus).toBe(ts.ExitStatus.Success);
+      return transformer.runs;
+    };
+
+    expect(build('/project/tsconfig.json')).toBe(1);
+    expect(build('/copy/project/tsconfig.json')).toBe(0);
+    expect(system.readFile('/copy/project/dist/index.js')).toBe(
+      system.readFile('/project/dist/index.js'),
+    );
+
+    system.writeFile('/copy/base/tsconfig.json', '{ "compilerOptions": { "target": "ES2017" } }');
+    expect(build('/copy/project/tsconfig.json')).toBe(1);
+    expect(system.readFile('/copy/project/dist/index.js')).toContain('async () => 42');
+    expect(system.readFile('/project/dist/index.js')).not.toContain('async () => 42');
+  });
+
+  test('configuration hashes do not depend on property order', () => {
+    expect(hashConfiguration({ a: 1, b: [{ c: 2, d: 3 }] })).toBe(
+      hashConfiguration({ b: [{ d: 3, c: 2 }], a: 1 }),
+    );
+    expect(hashConfiguration({ a: 1 })).not.toBe(hashConfiguration({ a: 2 }));
+    expect(hashConfiguration(undefined)).toBe('');
+  });
+});
+
+describe('BeforeWriteFile', () => {
+  const files = {
+    '/project/tsconfig.json':
+      '{ "compilerOptions": { "outDir": "dist", "declaration": true, "sourceMap": true } }',
+    '/project/index.ts': 'export const answer = 42;',
+  };
+
+  test('listeners can rewrite, rename and suppress outputs', () => {
+    const system = new InMemorySystem({ files });
+    const solution = new TypeScriptSolution('/project/tsconfig.json', undefined, { system });
+    const seen = new Array<string>();
+    solution.on(BuildEvent.BeforeWriteFile, (file) => {
+      seen.push(file.originalFileName);
+      if (file.fileName.endsWith('.map')) {
+        file.suppress();
+      } else if (file.fileName.endsWith('.d.ts')) {
+        file.fileName = file.fileName.replace(/\.d\.ts$/, '.generated.d.ts');
+      } else if (file.fileName.endsWith('.js')) {
+        file.data = `/* Banner */\n${file.data}`;
+      }
+    });
+
+    expect(solution.build().exitStatus).toBe(ts.ExitStatus.Success);
+
+    expect(seen.sort()).toEqual([
+      '/project/dist/index.d.ts',
+      '/project/dist/index.js',
+      '/project/dist/index.js.map',
+      '/project/dist/tsconfig.tsbuildinfo',
+    ]);
+    expect(system.readFile('/project/dist/index.js')).toMatch(/^\/\* Banner \*\/\n/);
+    expect(system.fileExists('/project/dist/index.js.map')).toBe(false);
+    expect(system.fileExists('/project/dist/index.d.ts')).toBe(false);
+    expect(system.readFile('/project/dist/index.generated.d.ts')).toContain('answer = 42');
+  });
+
+  test('renamed and suppressed outputs are up-to-date in later builds', () => {
+    const system = new InMemorySystem({
+      files: {
+        ...files,
+        '/project/tsconfig.json':
+          '{ "compilerOptions": { "outDir": "dist", "composite": true, "sourceMap": true } }',
+        '/app/tsconfig.json':
+          '{ "compilerOptions": { "outDir": "dist" }, "references": [{ "path": "../project" }] }',
+        '/app/index.ts': 'import { answer } from "../project";\nexport const app: number = answer;',
+      },
+    });
+    const build = () => {
+      const solution = new TypeScriptSolution('/app/tsconfig.json', undefined, { system });
+      solution.on(BuildEvent.BeforeWriteFile, (file) => {
+        if (file.fileName.endsWith('.map')) {
+          file.suppress();
+        } else if (file.fileName.endsWith('.d.ts')) {
+          file.fileName = file.fileName.replace(/\.d\.ts$/, '.generated.d.ts');
+        } else if (file.fileName.endsWith('.js')) {
+          file.fileName = file.fileName.replace(/\.js$/, '.cjs');
+        }
+      });
+      const projects = new Array<string>();
+      solution.on(BuildEvent.BeforeProject, ({ project }) => projects.push(project));
+      expect(solution.build().exitStatus).toBe(ts.ExitStatus.Success);
+      return projects;
+    };
+
+    // Referencing projects use the renamed declarations
+    expect(build()).toEqual(['/project/tsconfig.json', '/app/tsconfig.json']);
+    expect(JSON.parse(system.readFile('/project/dist/tsconfig.tsc-tk.json')!)).toMatchObject({
+      outputs: ['index.cjs', 'index.generated.d.ts'],
+      redirects: {
+        'index.d.ts': 'index.generated.d.ts',
+        'index.js': 'index.cjs',
+        'index.js.map': null,
+      },
+    });
+    expect(build()).toEqual([]);
+
+    system.writeFile('/project/index.ts', 'export const answer = 43;');
+    expect(build()).toEqual(['/project/tsconfig.json', '/app/tsconfig.json']);
+    expect(system.readFile('/project/dist/index.cjs')).toContain('exports.answer = 43;');
+  });
+
+  test('transformers can register additional output files', () => {
+    const system = new InMemorySystem({ files });
+    const solution = new TypeScriptSolution('/project/tsconfig.json', undefined, { system });
+    solution.transformers.addTransformer(new ManifestTransformer('manifest.json'));
+    const seen = new Array<string>();
+    solution.on(BuildEvent.BeforeWriteFile, (file) => seen.push(file.fileName));
+
+    expect(solution.build().exitStatus).toBe(ts.ExitStatus.Success);
+
+    expect(seen).toContain('/project/dist/manifest.json');
+    expect(JSON.parse(system.readFile('/project/dist/manifest.json')!)).toEqual({
+      files: ['/project/index.ts'],
+    });
+  });
+
+  test('additional output files do not trigger builds in watch mode', () => {
+    const system = new InMemorySystem({
+      files: {
+        ...files,
+        '/project/tsconfig.json':
+          '{ "compilerOptions": { "outDir": "dist", "resolveJsonModule": true } }',
+      },
+    });
+    const solution = new TypeScriptSolution('/project/tsconfig.json', undefined, { system });
+    solution.transformers.addTransformer(new ManifestTransformer('../manifest.json'));
+    let builds = 0;
+    solution.on(BuildEvent.BeforeSolution, () => (builds += 1));
+
+    const watch = solution.watch();
+    try {
+      system.runAllTimers();
+      const initialBuilds = builds;
+      expect(system.fileExists('/project/manifest.json')).toBe(true);
+
+      system.writeFile('/project/manifest.json', '{}');
+      system.runAllTimers();
+      expect(builds).toBe(initialBuilds);
+
+      // Other files are still watched
+      system.writeFile('/project/other.json', '{}');
+      system.runAllTimers();
+      expect(builds).toBeGreaterThan(initialBuilds);
+    } finally {
+      watch.stop();
+    }
+  });
+
+  test('additional output files are recognized however their names are written', () => {
+    const system = new InMemorySystem({
+      files: {
+        ...files,
+        '/project/tsconfig.json':
+          '{ "compilerOptions": { "outDir": "dist", "resolveJsonModule": true } }',
+      },
+      useCaseSensitiveFileNames: false,
+    });
+    const solution = new TypeScriptSolution('/project/tsconfig.json', undefined, { system });
+    solution.transformers.addTransformer(new ManifestTransformer('../manifest.json'));
+    let builds = 0;
+    solution.on(BuildEvent.BeforeSolution, () => (builds += 1));
+
+    const watch = solution.watch();
+    try {
+      system.runAllTimers();
+      const initialBuilds = builds;
+
+      system.writeFile('/Project/Manifest.json', '{}');
+      system.runAllTimers();
+      expect(builds).toBe(initialBuilds);
+    } finally {
+      watch.stop();
+    }
+  });
+});
+
+describe('buildParallel', () => {
+  const examplesDir = resolve(__dirname, 'examples');
+  // Workers run from the TypeScript sources, like the tests
+  const workerScript = resolve(__dirname, 'parallel-worker.js');
+
+  // Each worker loads TypeScript and the transformers, which can be slow
+  test('"parallel" events are emitted in build order', async () => {
+    return withTemporaryCopy(resolve(examplesDir, 'parallel'), async (copyRoot) => {
+      const solution = new TypeScriptSolution(resolve(copyRoot, 'tsconfig.json'));
+      const events = new Array<[BuildEvent, string]>();
+      const record =
+        (event: BuildEvent) =>
+        ({ project }: ts.InvalidatedProject<ts.BuilderProgram>) =>
+          events.push([event, relative(copyRoot, project)]);
+      solution
+        .on(BuildEvent.BeforeProject, record(BuildEvent.BeforeProject))
+        .on(BuildEvent.OutputsGenerated, record(BuildEvent.OutputsGenerated))
+        .on(BuildEvent.AfterProject, record(BuildEvent.AfterProject));
+
+      const result = await solution.buildParallel(undefined, undefined, {
+        maxWorkers: 2,
+        workerScript,
+        transformers: [
+          {
+            transform: resolve(examplesDir, 'plugins', 'upcase-plugin.js'),
+            type: 'config',
+            suffix: '_',
+          },
+        ],
+      });
+
+      expect(result).toMatchObject({ errorCount: 0, exitStatus: ts.ExitStatus.Success });
+      expect(events).toEqual(
+        [join('left', 'tsconfig.json'), join('right', 'tsconfig.json'), 'tsconfig.json'].flatMap(
+          (project) => [
+            [BuildEvent.BeforeProject, project],
+            [BuildEvent.OutputsGenerated, project],
+            [BuildEvent.AfterProject, project],
+          ],
+        ),
+      );
+      const output = await promisify(readFile)(
+        resolve(copyRoot, 'left', 'dist', 'index.js'),
+        'utf-8',
+      );
+      expect(output).toContain('LEFT_');
+
+      return Promise.resolve();
+    });
+  }, 30_000);
+
+  test('projects blocked by upstream errors are reported as skipped', async () => {
+    return withTemporaryCopy(resolve(examplesDir, 'parallel'), async (copyRoot) => {
+      await promisify(writeFile)(
+        resolve(copyRoot, 'left', 'index.ts'),
+        'export const left: number = "left";',
+      );
+      const solution = new TypeScriptSolution(resolve(copyRoot, 'tsconfig.json'));
+      const events = new Array<[BuildEvent, string, OutputsSkippedReason?]>();
+      solution
+        .on(BuildEvent.BeforeProject, ({ project }) =>
+          events.push([BuildEvent.BeforeProject, relative(copyRoot, project)]),
+        )
+        .on(BuildEvent.OutputsSkipped, ({ project }, reason) =>
+          events.push([BuildEvent.OutputsSkipped, relative(copyRoot, project), reason]),
+        )
+        .on(BuildEvent.AfterProject, ({ project }) =>
+          events.push([BuildEvent.AfterProject, relative(copyRoot, project)]),
+        );
+
+      const result = await solution.buildParallel(undefined, undefined, {
+        maxWorkers: 1,
+        workerScript,
+      });
+
+      expect(events.filter(([, project]) => project === 'tsconfig.json')).toEqual([
+        [BuildEvent.BeforeProject, 'tsconfig.json'],
+        [BuildEvent.OutputsSkipped, 'tsconfig.json', OutputsSkippedReason.UpstreamErrors],
+        [BuildEvent.AfterProject, 'tsconfig.json'],
+      ]);
+      expect(result.projects.map(({ project }) => relative(copyRoot, project))).toEqual([
+        join('left', 'tsconfig.json'),
+        join('right', 'tsconfig.json'),
+        'tsconfig.json',
+      ]);
+    });
+  }, 30_000);
+
+  test('project reference cycles are reported without building anything', async () => {
+    return withTemporaryCopy(resolve(examplesDir, 'parallel'), async (copyRoot) => {
+      for (const [side, other] of [
+        ['left', 'right'],
+        ['right', 'left'],
+      ]) {
+        // eslint-disable-next-line no-await-in-loop
+        await promisify(writeFile)(
+          resolve(copyRoot, side, 'tsconfig.json'),
+          JSON.stringify({
+            compilerOptions: { composite: true, outDir: 'dist' },
+            references: [{ path: `../${other}` }],
+          }),
+        );
+      }
+      const solution = new TypeScriptSolution(resolve(copyRoot, 'tsconfig.json'));
+      const diagnostics = new Array<ts.Diagnostic>();
+      solution.on(BuildEvent.Diagnostic, (diag) => diagnostics.push(diag));
+
+      const result = await solution.buildParallel(undefined, undefined, {
+        workerScript: resolve(copyRoot, 'does-not-exist.js'),
+      });
+
+      expect(result.exitStatus).toBe(ts.ExitStatus.ProjectReferenceCycle_OutputsSkipped);
+      expect(diagnostics.map(({ code }) => code)).toEqual([6202]);
+      expect(await exists(resolve(copyRoot, 'left', 'dist'))).toBe(false);
+    });
+  });
+
+  test('dry builds and cleans do not start workers', async () => {
+    return withTemporaryCopy(resolve(examplesDir, 'parallel'), async (copyRoot) => {
+      const solution = new TypeScriptSolution(resolve(copyRoot, 'tsconfig.json'));
+      const options = { workerScript: resolve(copyRoot, 'does-not-exist.js') };
+
+      const dry = await solution.buildParallel(undefined, { dry: true }, options);
+      const clean = await solution.buildParallel(undefined, { clean: true }, options);
+
+      expect(dry.exitStatus).toBe(ts.ExitStatus.Success);
+      expect(clean.exitStatus).toBe(ts.ExitStatus.Success);
+      expect(await exists(resolve(copyRoot, 'left', 'dist'))).toBe(false);
+    });
+  });
+
+  test('running workers are stopped when aborted', async () => {
+    return withTemporaryCopy(resolve(examplesDir, 'parallel'), async (copyRoot) => {
+      const solution = new TypeScriptSolution(resolve(copyRoot, 'tsconfig.json'));
+      const listeners = new Set<() => void>();
+      const signal = {
+        aborted: false,
+        addEventListener: (_type: 'abort', listener: () => void) => listeners.add(listener),
+        removeEventListener: (_type: 'abort', listener: () => void) => listeners.delete(listener),
+      };
+
+      const build = solution.buildParallel(undefined, undefined, { workerScript, signal });
+      signal.aborted = true;
+      listeners.forEach((listener) => listener());
+
+      await expect(build).rejects.toEqual(expect.objectContaining({ name: 'AbortError' }));
+      expect(listeners.size).toBe(0);
+      expect(await exists(resolve(copyRoot, 'left', 'dist'))).toBe(false);
+    });
+  }, 30_000);
+
+  test('rejects when transformers cannot be loaded', async () => {
+    return withTemporaryCopy(resolve(examplesDir, 'basic'), async (copyRoot) => {
+      const solution = new TypeScriptSolution(resolve(copyRoot, 'tsconfig.json'));
+
+      return expect(
+        solution.buildParallel(undefined, undefined, {
+          maxWorkers: 1,
+          workerScript,
+          transformers: [{ transform: './does-not-exist.js' }],
+        }),
+      ).rejects.toThrow(
+        /Unable to load transformer plugin "\.\/does-not-exist\.js" declared in the parallel build options/,
+      );
+    });
+  });
+
+  test('requires the default TypeScript system', async () => {
+    const system = new InMemorySystem({ files: { '/project/tsconfig.json': '{}' } });
+    const solution = new TypeScriptSolution('/project/tsconfig.json', undefined, { system });
+
+    return expect(solution.buildParallel()).rejects.toThrow(/default TypeScript system/);
+  });
+});
+
+class GreetingTransformer extends Transformer {
+  public readonly phases = [TransformerPhase.Before];
+  public readonly prepared = new Array<string>();
+  private readonly greetings = new Map<string, string>();
+
+  public constructor(private readonly fetchGreeting: () => Promise<string>) {
+    super();
+  }
+
+  public async prepare(sourceFile: ts.SourceFile, _context: ProjectContext): Promise<void> {
+    this.greetings.set(sourceFile.fileName, await this.fetchGreeting());
+    this.prepared.push(sourceFile.fileName);
+  }
+
+  public visit<T extends ts.Node>(node: T, context: TransformerContext) {
+    if (ts.isIdentifier(node) && node.text === '__GREETING__') {
+      const greeting = this.greetings.get(node.getSourceFile().fileName)!;
+      return ts.factory.createStringLiteral(greeting) as unknown as T;
+    }
+    return this.transformChildren(node, context);
+  }
+
+  protected readonly nodeValidatorFactory = undefined;
+  protected readonly nodeLifterFactory = undefined;
+}
+
 class UpcasingTransformer extends Transformer {
   public visit<T extends ts.Node>(node: T, context: TransformerContext) {
     if (context.phase !== TransformerPhase.Before) {
@@ -168,3 +1432,108 @@ class UpcasingTransformer extends Transformer {
   protected readonly nodeValidatorFactory = undefined;
   protected readonly nodeLifterFactory = undefined;
 }
+
+class PropertyTypeRecorder extends Transformer {
+  public readonly propertyTypes: Record<string, string> = {};
+
+  public visit<T extends ts.Node>(node: T, context: TransformerContext) {
+    if (context.phase !== TransformerPhase.Before) {
+      return node;
+    }
+    const original = context.getOriginalNode(node, ts.isClassElement);
+    if (original?.name != null && ts.isIdentifier(original.name)) {
+      const checker = context.typeChecker!;
+      this.propertyTypes[original.name.text] = checker.typeToString(
+        checker.getTypeAtLocation(original),
+      );
+    }
+    return this.transformChildren(node, context);
+  }
+
+  protected readonly nodeValidatorFactory = undefined;
+  protected readonly nodeLifterFactory = undefined;
+}
+
+class ForbiddenIdentifierTransformer extends Transformer {
+  public readonly phases = [TransformerPhase.Before];
+
+  public constructor(
+    private readonly forbidden: string,
+    private readonly category = ts.DiagnosticCategory.Error,
+  ) {
+    super();
+  }
+
+  public visit<T extends ts.Node>(node: T, context: TransformerContext) {
+    if (ts.isIdentifier(node) && node.text === this.forbidden) {
+      context.reportDiagnostic(node, this.category, 9001, `Forbidden identifier: ${node.text}`);
+    }
+    return this.transformChildren(node, context);
+  }
+
+  protected readonly nodeValidatorFactory = undefined;
+  protected readonly nodeLifterFactory = undefined;
+}
+
+class ThrowingTransformer extends Transformer {
+  public readonly phases = [TransformerPhase.Before];
+
+  public constructor(private readonly identifier: string, private readonly directory: string) {
+    super();
+  }
+
+  public visit<T extends ts.Node>(node: T, context: TransformerContext) {
+    if (
+      ts.isIdentifier(node) &&
+      node.text === this.identifier &&
+      basename(dirname(node.getSourceFile().fileName)) === this.directory
+    ) {
+      throw new Error('Boom!');
+    }
+    return this.transformChildren(node, context);
+  }
+
+  protected readonly nodeValidatorFactory = undefined;
+  protected readonly nodeLifterFactory = undefined;
+}
+
+class StampTransformer extends Transformer {
+  public readonly phases = [TransformerPhase.Before];
+  public runs = 0;
+
+  public constructor(public readonly version: string) {
+    super();
+  }
+
+  public visit<T extends ts.Node>(node: T): ts.VisitResult<T> {
+    if (!ts.isSourceFile(node)) {
+      return node;
+    }
+    this.runs++;
+    return ts.factory.updateSourceFile(node, [
+      ...node.statements,
+      ts.factory.createExpressionStatement(ts.factory.createStringLiteral(this.version)),
+    ]) as ts.Node as T;
+  }
+
+  protected readonly nodeValidatorFactory = undefined;
+  protected readonly nodeLifterFactory = undefined;
+}
+
+class ManifestTransformer extends Transformer {
+  public readonly phases = [TransformerPhase.Before];
+
+  public constructor(private readonly fileName: string) {
+    super();
+  }
+
+  public visit<T extends ts.Node>(node: T, context: TransformerContext): ts.VisitResult<T> {
+    if (ts.isSourceFile(node)) {
+      context.addOutputFile(this.fileName, JSON.stringify({ files: [node.fileName] }));
+    }
+    return node;
+  }
+
+  protected readonly nodeValidatorFactory = undefined;
+  protected readonly nodeLifterFactory = undefined;
+}
@@ -63,7 +63,7 @@ async function copyDirectory(from: string, to: string): Promise<void> {
  *
  * @param path the path to be checked.
  */
-async function exists(path: string): Promise<boolean> {
+export async function exists(path: string): Promise<boolean> {
   return promisify(access)(path, constants.F_OK).then(
     () => true,
     () => false,
@@ -0,0 +1,201 @@
+import * as ts from 'typescript';
+import {
+  TransformerContext,
+  TransformerPhase,
+  TRANSFORMER_FAILURE_CODE,
+  Transformers,
+  transformSource,
+  VisitorTransformer,
+} from '../lib';
+
+function transform(source: string, transformer: VisitorTransformer): string | undefined {
+  const { js, diagnostics } = transformSource(source, {
+    transformers: new Transformers(transformer),
+    phases: [TransformerPhase.Before],
+  });
+  // Sources may not type-check, but transformers must not fail
+  expect(diagnostics.filter(({ code }) => code === TRANSFORMER_FAILURE_CODE)).toEqual([]);
+  return js;
+}
+
+test('handlers are keyed by syntax kind or type guard', () => {
+  const transformer = new VisitorTransformer()
+    .on(ts.SyntaxKind.DebuggerStatement, () => [])
+    .on(ts.isStringLiteral, (node) => ts.factory.createStringLiteral(node.text.toUpperCase()));
+
+  expect(transform('debugger;\nexport const a = "hello";', transformer)).toBe(
+    '"use strict";\nObject.defineProperty(exports, "__esModule", { value: true });\n' +
+      'exports.a = void 0;\nexports.a = "HELLO";\n',
+  );
+});
+
+test('handlers can expand a node into several nodes', () => {
+  const transformer = new VisitorTransformer().on(ts.isExpressionStatement, (node) => [
+    node,
+    ts.factory.createExpressionStatement(node.expression),
+  ]);
+
+  expect(transform('console.log(1);', transformer)).toContain('console.log(1);\nconsole.log(1);\n');
+});
+
+test('children of replaced nodes are not visited, but children of kept nodes are', () => {
+  const visited = new Array<string>();
+  const transformer = new VisitorTransformer()
+    .on(ts.isIdentifier, (node) => {
+      visited.push(node.text);
+    })
+    .on(ts.isCallExpression, (node) =>
+      ts.isIdentifier(node.expression) && node.expression.text === 'replaced'
+        ? ts.factory.createNull()
+        : undefined,
+    );
+
+  transform('kept(argument); replaced(ignored);', transformer);
+
+  expect(visited).toEqual(['kept', 'argument']);
+});
+
+test('enter and exit hooks are invoked in order', () => {
+  const events = new Array<string>();
+  const record = (prefix: string) => ({
+    enter: (node: ts.Identifier | ts.CallExpression) => {
+      events.push(`${prefix}:enter:${node.getText()}`);
+    },
+    exit: (node: ts.Identifier | ts.CallExpression, context: TransformerContext) => {
+      events.push(`${prefix}:exit:${context.getOriginalNode(node).getText()}`);
+    },
+  });
+  const transformer = new VisitorTransformer()
+    .on(ts.isCallExpression, record('first'))
+    .on(ts.isCallExpression, record('second'))
+    .on(ts.isIdentifier, record('id'));
+
+  transform('f(x);', transformer);
+
+  expect(events).toEqual([
+    'first:enter:f(x)',
+    'second:enter:f(x)',
+    'id:enter:f',
+    'id:exit:f',
+    'id:enter:x',
+    'id:exit:x',
+    'second:exit:f(x)',
+    'first:exit:f(x)',
+  ]);
+});
+
+test('exit hooks receive nodes with transformed children', () => {
+  const transformer = new VisitorTransformer()
+    .on(ts.isNumericLiteral, (node) => ts.factory.createNumericLiteral(Number(node.text) * 2))
+    .on(ts.isArrayLiteralExpression, {
+      exit: (node) =>
+        ts.factory.createArrayLiteralExpression([
+          ...node.elements,
+          ts.factory.createStringLiteral('end'),
+        ]),
+    });
+
+  expect(transform('export const a = [1, 2];', transformer)).toContain(
+    'exports.a = [2, 4, "end"];',
+  );
+});
+
+test('subclasses can register handlers and declare phases', () => {
+  class DebuggerRemover extends VisitorTransformer {
+    public constructor() {
+      super([TransformerPhase.After]);
+      this.on(ts.SyntaxKind.DebuggerStatement, () => []);
+    }
+  }
+  const transformer = new DebuggerRemover();
+
+  expect(transformer.phases).toEqual([TransformerPhase.After]);
+  expect(
+    transformSource('debugger;', { transformers: new Transformers(transformer) }).js,
+  ).not.toContain('debugger');
+});
+
+describe('fusion', () => {
+  function transformBoth(source: string, ...transformers: VisitorTransformer[]) {
+    const [separate, fused] = [false, true].map((fusion) =>
+      transformSource(source, {
+        transformers: new Transformers(...transformers).enableFusion(fusion),
+        phases: [TransformerPhase.Before],
+      }),
+    );
+    return { separate, fused };
+  }
+
+  test('fused transformers see the replacements of earlier transformers', () => {
+    const { separate, fused } = transformBoth(
+      'export const a = ["hello", "world"];',
+      new VisitorTransformer().on(ts.isStringLiteral, (node) =>
+        node.text === 'hello' ? ts.factory.createStringLiteral('bonjour') : undefined,
+      ),
+      new VisitorTransformer().on(ts.isStringLiteral, (node) =>
+        ts.factory.createStringLiteral(node.text.toUpperCase()),
+      ),
+      new VisitorTransformer().on(ts.isStringLiteral, (node) =>
+        node.text === 'WORLD' ? [] : undefined,
+      ),
+    );
+
+    expect(fused.js).toContain('exports.a = ["BONJOUR"];');
+    expect(fused.js).toBe(separate.js);
+  });
+
+  test('replacements made by exit hooks are not visited again', () => {
+    const { separate, fused } = transformBoth(
+      'f(x);',
+      new VisitorTransformer().on(ts.isCallExpression, {
+        exit: (node) => ts.factory.createParenthesizedExpression(node),
+      }),
+      new VisitorTransformer().on(ts.isIdentifier, (node) =>
+        ts.factory.createIdentifier(`${node.text}_`),
+      ),
+    );
+
+    expect(fused.js).toContain('(f_(x_));');
+    expect(fused.js).toBe(separate.js);
+  });
+
+  test('nodes removed by a fused transformer are not seen by the next ones', () => {
+    const seen = new Array<string>();
+    transformSource('debugger;\nfoo();', {
+      transformers: new Transformers(
+        new VisitorTransformer().on(ts.SyntaxKind.DebuggerStatement, () => []),
+        new VisitorTransformer()
+          .on(ts.SyntaxKind.DebuggerStatement, () => {
+            seen.push('debugger');
+          })
+          .on(ts.isExpressionStatement, () => {
+            seen.push('expression');
+          }),
+      ).enableFusion(),
+      phases: [TransformerPhase.Before],
+    });
+
+    expect(seen).toEqual(['expression']);
+  });
+
+  test('failures are attributed to the fused transformer that threw', () => {
+    class Throwing extends VisitorTransformer {
+      public constructor() {
+        super();
+        this.on(ts.isCallExpression, () => {
+          throw new Error('Boom');
+        });
+      }
+    }
+
+    const { diagnostics, js } = transformSource('foo();', {
+      transformers: new Transformers(new VisitorTransformer(), new Throwing()).enableFusion(),
+      phases: [TransformerPhase.Before],
+    });
+
+    const failures = diagnostics.filter(({ code }) => code === TRANSFORMER_FAILURE_CODE);
+    expect(failures).toHaveLength(1);
+    expect(failures[0]).toMatchObject({ source: 'Throwing', start: 0, length: 5 });
+    expect(js).toContain('foo();');
+  });
+});